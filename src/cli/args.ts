@@ -0,0 +1,41 @@
+// Import the parsed args type
+import { Args } from "@/cli/types";
+
+// parse the command line into a command, positionals and flags
+export const parseArgs = (argv: string[]): Args => {
+  // start with nothing set
+  const args: Args = { positionals: [], flags: {} };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+
+    if (arg.startsWith("--")) {
+      // split --flag=value
+      const [name, value] = arg.slice(2).split(/=(.*)/s);
+
+      if (typeof value !== "undefined") {
+        args.flags[name] = value;
+      } else if (name.startsWith("no-")) {
+        // --no-flag negates the flag
+        args.flags[name.slice(3)] = false;
+      } else if (argv[index + 1] && !argv[index + 1].startsWith("--")) {
+        // --flag value (booleans can be set explicitly)
+        const next = argv[(index += 1)];
+        args.flags[name] =
+          next === "true" ? true : next === "false" ? false : next;
+      } else {
+        args.flags[name] = true;
+      }
+    } else if (!args.command) {
+      args.command = arg;
+    } else {
+      args.positionals.push(arg);
+    }
+  }
+
+  return args;
+};
+
+// read a flag as a boolean (undefined when not set)
+export const toBoolean = (value?: string | boolean) =>
+  typeof value === "undefined" ? undefined : value !== false;
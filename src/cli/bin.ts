@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+// Run the cli against the command line
+import { run } from "@/cli";
+
+// report the error and exit
+run(process.argv.slice(2)).catch((err) => {
+  console.error("[SUPAGRAPH ERROR]:", err?.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+// Write the generated files
+import { promises as fs } from "fs";
+import { resolve } from "path";
+
+// Generate entity and event types from the config
+import { createEntityTypes, createEventTypes } from "@/codegen";
+
+// Read the config and the parsed args
+import { Args, Command } from "@/cli/types";
+import { loadConfig } from "@/cli/config";
+
+// generate entity types from the schema and event types from the abis
+export const codegen: Command = {
+  description:
+    "Generate entity and event types from the schema and abis (--out <dir>)",
+  run: async ({ flags }: Args) => {
+    // load the config
+    const { config, dir } = await loadConfig(flags.config as string);
+
+    // write into the given dir (relative to the working directory) or alongside the config
+    const out = flags.out
+      ? resolve(process.cwd(), flags.out as string)
+      : resolve(dir, "supagraph/types");
+
+    // make sure the dir exists
+    await fs.mkdir(out, { recursive: true });
+
+    // entities can only be generated when a schema is defined
+    if (config.schema) {
+      await fs.writeFile(`${out}/entities.ts`, createEntityTypes(config));
+      console.log(`Generated ${out}/entities.ts`);
+    }
+
+    // write the event types and handlers map
+    await fs.writeFile(`${out}/events.ts`, createEventTypes(config));
+    console.log(`Generated ${out}/events.ts`);
+  },
+};
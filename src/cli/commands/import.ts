@@ -0,0 +1,40 @@
+// Resolve the target dir
+import { resolve } from "path";
+
+// Construct the config and handler stubs from the manifest
+import { importSubgraph } from "@/codegen/subgraph";
+
+// Read the parsed args and write the imported files
+import { Args, Command } from "@/cli/types";
+import { writeFiles } from "@/cli/files";
+
+// import a subgraph.yaml as a supagraph.config.ts with a schema and handler stubs
+export const importCommand: Command = {
+  description:
+    "Import a subgraph.yaml with its abis and schema (--out <dir> --name <name> --networks <name=chainId,...>)",
+  run: async ({ positionals, flags }: Args) => {
+    // read the manifest
+    const { files } = importSubgraph(positionals[0] || "subgraph.yaml", {
+      name: flags.name as string,
+      // read chainIds for unknown networks (--networks name=chainId,name=chainId)
+      networks: `${flags.networks || ""}`
+        .split(",")
+        .filter(Boolean)
+        .reduce((networks, network) => {
+          const [name, chainId] = network.split("=");
+          networks[name] = +chainId;
+
+          return networks;
+        }, {} as Record<string, number>),
+    });
+
+    // write into the given dir or the working directory
+    await writeFiles(
+      resolve(process.cwd(), (flags.out as string) || "."),
+      files
+    );
+
+    // the handlers import the generated types
+    console.log(`\nRun \`supagraph codegen\` to generate the types`);
+  },
+};
@@ -0,0 +1,16 @@
+// Import each of the cli commands
+import { Command } from "@/cli/types";
+import { init } from "@/cli/commands/init";
+import { sync } from "@/cli/commands/sync";
+import { serve } from "@/cli/commands/serve";
+import { codegen } from "@/cli/commands/codegen";
+import { importCommand } from "@/cli/commands/import";
+
+// commands by name (in the order they're printed)
+export const commands: Record<string, Command> = {
+  init,
+  sync,
+  serve,
+  codegen,
+  import: importCommand,
+};
@@ -0,0 +1,115 @@
+// Resolve the target dir
+import { resolve } from "path";
+
+// Read the parsed args and write the scaffolded files
+import { Args, Command } from "@/cli/types";
+import { CONFIG_FILE } from "@/cli/config";
+import { writeFiles } from "@/cli/files";
+
+// the files we scaffold (relative to the target dir)
+const TEMPLATES: Record<string, string> = {
+  [CONFIG_FILE]: `// Read the schema from disk
+import { readFileSync } from "fs";
+import { join } from "path";
+
+// Type the config
+import type { SyncConfig } from "supagraph";
+
+// Export the handlers for each group of events
+export { handlers } from "./supagraph/handlers";
+
+// Export the complete supagraph configuration (sync & graph)
+const config: SyncConfig = {
+  // name your supagraph (this will inform mongo table name etc...)
+  name: "supagraph",
+  // use the local engine in development
+  dev: true,
+  // flag mutable to insert by upsert only on id field (mutate entities)
+  mutable: true,
+  // configure providers
+  providers: {
+    1: {
+      rpcUrl: process.env.RPC_URL || "",
+    },
+  },
+  // register events into named groups
+  events: {
+    token: [
+      "event Transfer(address indexed from, address indexed to, uint256 value)",
+    ],
+  },
+  // configure available Contracts and their block details
+  contracts: {
+    token: {
+      // establish all event signatures available on this contract
+      events: "token",
+      // use handlers registered against "token" in ./supagraph/handlers.ts
+      handlers: "token",
+      chainId: 1,
+      address: process.env.TOKEN_ADDRESS,
+      startBlock: "latest",
+      endBlock: "latest",
+    },
+  },
+  // define supagraph schema
+  schema: readFileSync(join(__dirname, "supagraph/schema.graphql"), "utf8"),
+  // define supagraph default query
+  defaultQuery: \`{
+  accounts(first: 10, orderBy: balance, orderDirection: desc) {
+    id
+    balance
+  }
+}\`,
+};
+
+export default config;
+`,
+  "supagraph/schema.graphql": `type Account @entity {
+  id: ID!
+  balance: BigInt!
+}
+`,
+  "supagraph/handlers.ts": `// We use BigNumber to handle all numeric operations
+import { BigNumber } from "ethers";
+
+// Use Store to interact with entity storage
+import { Store } from "supagraph";
+
+// Types are generated from the schema and abis by \`supagraph codegen\`
+import type { AccountEntity } from "./types/entities";
+import type { Handlers } from "./types/events";
+
+// Construct the handlers to register each contract against its handlers
+export const handlers: Handlers = {
+  token: {
+    // eventName -> handler()
+    Transfer: async ({ from, to, value }) => {
+      // move the value between the two accounts
+      const sender = await Store.get<AccountEntity>("Account", from);
+      const receiver = await Store.get<AccountEntity>("Account", to);
+
+      // BigNumbers are stored as strings
+      sender.set("balance", BigNumber.from(sender.balance || 0).sub(value));
+      await sender.save();
+      receiver.set("balance", BigNumber.from(receiver.balance || 0).add(value));
+      await receiver.save();
+    },
+  },
+};
+`,
+};
+
+// scaffold a config, schema and handlers (existing files are left in place)
+export const init: Command = {
+  description: "Scaffold a supagraph.config.ts with a schema and handlers",
+  run: async ({ positionals }: Args) => {
+    // write into the given dir or the working directory
+    const dir = resolve(process.cwd(), positionals[0] || ".");
+
+    // write each of the files
+    await writeFiles(dir, TEMPLATES);
+
+    // the handlers import the generated types
+    console.log(`\nRun \`supagraph codegen\` to generate the types`);
+  },
+};
@@ -0,0 +1,44 @@
+// Host the graphql server over http
+import { createServer } from "http";
+
+// Construct the graphql server and its resolvers
+import { createSupagraph, memoryResolver, mongoResolver } from "@/graphql";
+
+// Read the config and the parsed args
+import { Args, Command } from "@/cli/types";
+import { loadConfig } from "@/cli/config";
+import { getMongoClient } from "@/cli/engine";
+
+// serve the configs schema over mongo (when MONGODB_URI is set) or the local db
+export const serve: Command = {
+  description: "Serve the graphql endpoint (--port <port>)",
+  run: async ({ flags }: Args) => {
+    // load the config
+    const { config } = await loadConfig(flags.config as string);
+
+    // listen on the given port (defaults to 8000)
+    const port = +(flags.port || process.env.PORT || 8000);
+
+    // construct the graphql handler
+    const supagraph = createSupagraph({
+      schema: config.schema,
+      entities: getMongoClient(config)
+        ? mongoResolver({
+            name: config.name,
+            client: getMongoClient(config),
+            mutable: config.mutable,
+          })
+        : memoryResolver({ name: config.name }),
+      graphqlEndpoint: "/graphql",
+      defaultQuery: config.defaultQuery,
+      revalidate: config.revalidate,
+    });
+
+    // start the server
+    createServer(supagraph).listen(port, () => {
+      console.log(
+        `⚡️[server]: Server is running at http://localhost:${port}/graphql`
+      );
+    });
+  },
+};
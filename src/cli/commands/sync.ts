@@ -0,0 +1,66 @@
+// Import supagraph sync tooling
+import { sync as runSync, setEngine, setSyncs } from "@/sync";
+import { SyncStage } from "@/sync/types";
+
+// Read the config and the parsed args
+import { Args, Command } from "@/cli/types";
+import { loadConfig } from "@/cli/config";
+import { toBoolean } from "@/cli/args";
+import { getDb } from "@/cli/engine";
+
+// run the sync against the configs contracts and handlers
+export const sync: Command = {
+  description:
+    "Sync the configured contracts (--start <stage> --stop <stage> --listen --cleanup)",
+  run: async ({ flags }: Args) => {
+    // load the config
+    const { config, handlers, migrations, schedule } = await loadConfig(
+      flags.config as string
+    );
+
+    // check the stages are valid before we start
+    [flags.start, flags.stop].forEach((stage) => {
+      if (typeof stage === "string" && !(stage in SyncStage)) {
+        throw new Error(
+          `Unknown stage "${stage}" - expected one of ${Object.keys(SyncStage)
+            .filter((key) => Number.isNaN(+key))
+            .join(", ")}`
+        );
+      }
+    });
+
+    // connect the store to mongo or to the local db
+    await setEngine({ name: config.name, db: getDb(config) });
+
+    // set the sync ops
+    await setSyncs(config, handlers || {});
+
+    // flags take precedence over the config
+    const summary = await runSync({
+      config: {
+        ...config,
+        listen: toBoolean(flags.listen) ?? config.listen ?? false,
+        cleanup: toBoolean(flags.cleanup) ?? config.cleanup ?? false,
+        silent: toBoolean(flags.silent) ?? config.silent ?? false,
+      },
+      handlers,
+      migrations,
+      schedule,
+      start: (flags.start as keyof typeof SyncStage) || false,
+      stop: (flags.stop as keyof typeof SyncStage) || false,
+      collectBlocks: config.collectBlocks ?? true,
+      // exit the process so that it can be restarted
+      onError: async (_, close) => {
+        console.error("\n\n[LISTENER ERROR]: Listener has thrown - restart");
+        await close();
+        process.exit(1);
+      },
+    });
+
+    // if an error is thrown (db locked) we signal a halt
+    if (summary.error) throw summary.error;
+
+    // print the summary (in listen mode the sync continues after this)
+    console.log(summary);
+  },
+};
@@ -0,0 +1,67 @@
+// Read and transpile the config file
+import { existsSync, readFileSync } from "fs";
+import { dirname, resolve } from "path";
+
+// Import the config module type
+import { ConfigModule } from "@/cli/types";
+
+// the config file we look for in the working directory
+export const CONFIG_FILE = "supagraph.config.ts";
+
+// load supagraph.config.ts (the default export is the SyncConfig, handlers/migrations/schedule are named exports)
+export const loadConfig = async (file = CONFIG_FILE): Promise<ConfigModule> => {
+  // resolve against the working directory
+  const path = resolve(process.cwd(), file);
+
+  // check the file exists before we attempt to require it
+  if (!existsSync(path)) {
+    throw new Error(
+      `Unable to find ${file} - run \`supagraph init\` to create one`
+    );
+  }
+
+  // make sure we can require .ts files
+  registerTypescript();
+
+  // require the module and resolve the exports (the config can also be the module itself)
+  // eslint-disable-next-line global-require, import/no-dynamic-require
+  const mod = require(path);
+  const config = await Promise.resolve(mod.default ?? mod.config ?? mod);
+
+  return {
+    config,
+    handlers: mod.handlers,
+    migrations: mod.migrations,
+    schedule: mod.schedule,
+    dir: dirname(path),
+  };
+};
+
+// transpile .ts files on require (unless a loader such as ts-node has already been registered)
+const registerTypescript = () => {
+  if (require.extensions && !require.extensions[".ts"]) {
+    // typescript is resolved from the calling project
+    // eslint-disable-next-line global-require
+    const ts = require("typescript");
+
+    require.extensions[".ts"] = (
+      mod: NodeModule & { _compile: (code: string, file: string) => void },
+      file: string
+    ) => {
+      // transpile without type checking (types are checked by the projects own build)
+      const { outputText } = ts.transpileModule(
+        readFileSync(file, { encoding: "utf8" }),
+        {
+          fileName: file,
+          compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2020,
+            esModuleInterop: true,
+          },
+        }
+      );
+
+      mod._compile(outputText, file);
+    };
+  }
+};
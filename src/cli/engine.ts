@@ -0,0 +1,41 @@
+// Connect to mongo when a uri is provided
+import { MongoClient } from "mongodb";
+
+// Import the persistence drivers
+import { DB } from "@/sync/tooling/persistence/db";
+import { Mongo } from "@/sync/tooling/persistence/mongo";
+import { SyncConfig } from "@/sync/types";
+
+// a single client for the process
+let client: Promise<MongoClient> | undefined;
+
+// connect to mongo if MONGODB_URI is set (unless we're in development with config.dev)
+export const getMongoClient = (config: SyncConfig) => {
+  // use the local db when mongo isn't available
+  if (
+    !process.env.MONGODB_URI ||
+    (process.env.NODE_ENV === "development" && config.dev)
+  ) {
+    return undefined;
+  }
+
+  // connect once
+  client = client || new MongoClient(process.env.MONGODB_URI).connect();
+
+  return client;
+};
+
+// construct the db for the engine (mongo or the local node-persist store)
+export const getDb = (config: SyncConfig) =>
+  getMongoClient(config)
+    ? Mongo.create({
+        kv: {},
+        name: config.name,
+        mutable: config.mutable,
+        client: getMongoClient(config),
+      })
+    : DB.create({
+        kv: {},
+        name: config.name,
+        reset: config.reset,
+      });
@@ -0,0 +1,21 @@
+// Write files to disk
+import { promises as fs, existsSync } from "fs";
+import { dirname, resolve } from "path";
+
+// write each of the files into the dir (existing files are left in place)
+export const writeFiles = async (
+  dir: string,
+  files: Record<string, string>
+) => {
+  for (const file of Object.keys(files)) {
+    const path = resolve(dir, file);
+
+    if (existsSync(path)) {
+      console.log(`Skipped ${file} (already exists)`);
+    } else {
+      await fs.mkdir(dirname(path), { recursive: true });
+      await fs.writeFile(path, files[file]);
+      console.log(`Created ${file}`);
+    }
+  }
+};
@@ -0,0 +1,37 @@
+// Import each of the commands
+import { commands } from "@/cli/commands";
+
+// Parse the command line
+import { parseArgs } from "@/cli/args";
+import { CONFIG_FILE } from "@/cli/config";
+
+// print the available commands
+export const usage = () =>
+  [
+    `Usage: supagraph <command> [--config ${CONFIG_FILE}]`,
+    ``,
+    `Commands:`,
+    ...Object.keys(commands).map(
+      (name) => `  ${name.padEnd(10)}${commands[name].description}`
+    ),
+  ].join("\n");
+
+// run the command given on the command line
+export const run = async (argv: string[]) => {
+  // parse the command line
+  const args = parseArgs(argv);
+  // get the command by name
+  const command =
+    args.command && Object.hasOwnProperty.call(commands, args.command)
+      ? commands[args.command]
+      : undefined;
+
+  // print usage when the command isn't recognised
+  if (!command || args.flags.help) {
+    console.log(usage());
+    // exit with an error if a command was given but not recognised
+    if (args.command && !command) process.exitCode = 1;
+  } else {
+    await command.run(args);
+  }
+};
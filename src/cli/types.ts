@@ -0,0 +1,34 @@
+// Import the sync types which make up the config module
+import { CronSchedule, Handlers, Migration, SyncConfig } from "@/sync/types";
+
+// Defines the exports read from supagraph.config.ts
+export type ConfigModule = {
+  // the complete supagraph configuration (sync & graph)
+  config: SyncConfig;
+  // handlers registered against each group of events
+  handlers?: Handlers;
+  // migrations to inject at blockHeights
+  migrations?: Migration[];
+  // cron jobs to run as we ingest blocks (in listen mode)
+  schedule?: CronSchedule[];
+  // location of the config file (paths are resolved relative to this)
+  dir: string;
+};
+
+// Defines the parsed command line
+export type Args = {
+  // the command to run
+  command?: string;
+  // any non-flag args following the command
+  positionals: string[];
+  // flags by name (--flag, --flag=value, --flag value and --no-flag)
+  flags: Record<string, string | boolean>;
+};
+
+// Defines a cli command
+export type Command = {
+  // short description printed in the usage
+  description: string;
+  // run the command with the parsed args
+  run: (args: Args) => Promise<void>;
+};
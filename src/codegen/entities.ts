@@ -0,0 +1,105 @@
+// Parse the schema before reading it into a SimpleSchema
+import { parse } from "graphql";
+
+// We read the entities from the SimpleSchema
+import { readSchema } from "@/graphql/schema";
+import { Key } from "@/graphql/types";
+
+// Read the schema from the sync config
+import { SyncConfig } from "@/sync/types";
+
+// map each scalar to the type it takes in a handler (BigNumbers are accepted on set and stored as strings)
+const SCALAR_TYPES: Record<string, string> = {
+  ID: "string",
+  String: "string",
+  Bytes: "string",
+  Int: "number",
+  Decimal: "number",
+  Timestamp: "number",
+  Boolean: "boolean",
+  BigInt: "BigNumber",
+  BigDecimal: "string",
+};
+
+// options accepted by the entity codegen
+export type EntityCodegenOptions = {
+  // module to import the Store from (defaults to supagraph)
+  module?: string;
+};
+
+// generate entity types and typed Store accessors for every entity in the configs schema
+export const createEntityTypes = (
+  config: Pick<SyncConfig, "schema">,
+  { module = "supagraph" }: EntityCodegenOptions = {}
+) => {
+  // read the schema into a simple mapping of entity -> keys
+  const schema = readSchema(parse(config.schema || ""));
+
+  // entities are the definitions which carry fields (skipping the plural/single form entries)
+  const entities = Object.keys(schema).filter(
+    (name) => !name.endsWith("-form") && Array.isArray(schema[name])
+  );
+
+  // BigNumber is only imported if an entity holds a BigInt
+  const usesBigNumber = entities.some((name) =>
+    (schema[name] as Key[]).some(
+      ({ type, derivedFrom }) =>
+        !derivedFrom && type.replace(/\[|\]|!/g, "") === "BigInt"
+    )
+  );
+
+  // construct the file as a string
+  return `${[
+    [
+      `// This file is generated by supagraph from the schema - do not edit it by hand`,
+      ...(usesBigNumber ? [`import type { BigNumber } from "ethers";`] : []),
+      `import * as supagraph from "${module}";`,
+    ].join("\n"),
+    ...entities.map((name) =>
+      toDefinition(name, schema[name] as Key[], entities)
+    ),
+  ].join("\n\n")}\n`;
+};
+
+// construct the entity type and its accessors
+const toDefinition = (name: string, keys: Key[], entities: string[]) =>
+  [
+    `// ${name} entity definition`,
+    `export type ${name}Entity = {`,
+    // derived fields are resolved by the graphql server and aren't stored against the entity
+    ...keys
+      .filter(({ derivedFrom }) => !derivedFrom)
+      .map(({ name: key, type }) => toField(key, type, entities)),
+    `};`,
+    ``,
+    `// typed Store accessors for the ${name} entity`,
+    `export const ${name} = {`,
+    `  // load the ${name} (including staged changes) - missing entities are returned empty`,
+    `  load: (id: string) => supagraph.Store.get<${name}Entity>("${name}", id),`,
+    `  // create a new ${name} without reading any stored values`,
+    `  create: (id: string) =>`,
+    `    supagraph.Store.get<${name}Entity>("${name}", id, true),`,
+    `  // load each of the ${name} entities by id (missing entities are omitted)`,
+    `  loadMany: (ids: string[]) =>`,
+    `    supagraph.Store.loadMany<${name}Entity>("${name}", ids),`,
+    `  // find every ${name} which matches the options`,
+    `  find: (opts?: supagraph.FindOptions<${name}Entity>) =>`,
+    `    supagraph.Store.find<${name}Entity>("${name}", opts),`,
+    `  // remove the ${name}`,
+    `  remove: (id: string) => supagraph.Store.remove("${name}", id),`,
+    `};`,
+  ].join("\n");
+
+// convert the schema type to a ts field (relations are held as ids)
+const toField = (key: string, type: string, entities: string[]) => {
+  // strip the list and non-null markers
+  const named = type.replace(/\[|\]|!/g, "");
+  // scalars map directly and everything else (relations/enums) is held as a string
+  const ts = `${SCALAR_TYPES[named] || "string"}${
+    type.startsWith("[") ? "[]" : ""
+  }`;
+
+  return `${
+    entities.includes(named) ? `  // relation to ${named} (by id)\n` : ""
+  }  ${key}: ${ts};`;
+};
@@ -0,0 +1,194 @@
+// Parse the abis with ethers to read each events inputs
+import { ethers } from "ethers";
+
+// Read the abis and handler groups from the sync config
+import { getEventAbi } from "@/sync/config";
+import { CALL_HANDLER_PREFIX } from "@/sync/tooling/network/calls";
+import { NETWORK_EVENTS } from "@/sync/tooling/network/events";
+import { SyncConfig } from "@/sync/types";
+
+// options accepted by the event codegen
+export type EventCodegenOptions = {
+  // module to import the HandlerFn from (defaults to supagraph)
+  module?: string;
+};
+
+// generate event arg types and a typed Handlers map for every contract, template (and runtime group) in the config
+export const createEventTypes = (
+  config: Pick<SyncConfig, "events" | "contracts" | "templates">,
+  { module = "supagraph" }: EventCodegenOptions = {}
+) => {
+  // event types by name (name -> definition) and the handler types for each group (group -> eventName -> type name)
+  const types: Record<string, string> = {};
+  const groups: Record<string, Record<string, string>> = {};
+
+  // groups in config.events which aren't used by a contract or template are registered at runtime (via addSync) against a group of the same name
+  const runtime = Object.keys(config.events || {}).filter(
+    (group) =>
+      ![
+        ...Object.values(config.contracts),
+        ...Object.values(config.templates || {}),
+      ].some(({ events }) => events === group)
+  );
+
+  // collect the events handled by each group (contracts which share a group share their handlers)
+  [
+    // handlers are registered against the named group or the contracts key
+    ...Object.keys(config.contracts).map((name) => ({
+      group: `${config.contracts[name].handlers ?? name}`,
+      events: config.contracts[name].events,
+    })),
+    // templates are registered against the named group or the templates name
+    ...Object.keys(config.templates || {}).map((name) => ({
+      group: config.templates[name].handlers ?? name,
+      events: config.templates[name].events,
+    })),
+    ...runtime.map((group) => ({ group, events: group })),
+  ].forEach(({ group, events }) => {
+    // parse the abi so that we can read the inputs of each event
+    const abi = getEventAbi(config, events);
+    const iface = new ethers.utils.Interface(abi || []);
+
+    // start the group
+    groups[group] = groups[group] || {};
+
+    // record a type for each event
+    Object.values(iface.events).forEach((fragment) => {
+      // construct the args type
+      const definition = toArgs(fragment.inputs, "  ");
+      // events which share a name but not a signature are prefixed with their group
+      const typeName =
+        !types[`${fragment.name}Event`] ||
+        types[`${fragment.name}Event`] === definition
+          ? `${fragment.name}Event`
+          : `${toPascalCase(group)}${fragment.name}Event`;
+
+      // record the definition and the handler
+      types[typeName] = definition;
+      groups[group][fragment.name] = `Handler<${typeName}>`;
+    });
+
+    // record a type for each function which can change state (for onCall handlers)
+    Object.values(iface.functions)
+      .filter(
+        ({ stateMutability }) => !["view", "pure"].includes(stateMutability)
+      )
+      .forEach((fragment) => {
+        // construct the args type
+        const definition = toArgs(fragment.inputs, "  ");
+        // calls which share a name but not a signature are prefixed with their group
+        const typeName =
+          !types[`${toPascalCase(fragment.name)}Call`] ||
+          types[`${toPascalCase(fragment.name)}Call`] === definition
+            ? `${toPascalCase(fragment.name)}Call`
+            : `${toPascalCase(group)}${toPascalCase(fragment.name)}Call`;
+
+        // record the definition and the handler
+        types[typeName] = definition;
+        groups[group][
+          `${CALL_HANDLER_PREFIX}${fragment.name}`
+        ] = `Handler<${typeName}>`;
+      });
+  });
+
+  // BigNumber is only imported if an event carries one
+  const usesBigNumber = Object.values(types).some((definition) =>
+    definition.includes("BigNumber")
+  );
+
+  // construct the file as a string
+  return `${[
+    [
+      `// This file is generated by supagraph from the contracts abis - do not edit it by hand`,
+      ...(usesBigNumber ? [`import type { BigNumber } from "ethers";`] : []),
+      `import type { HandlerFn } from "${module}";`,
+    ].join("\n"),
+    ...Object.keys(types).map((typeName) =>
+      [
+        typeName.endsWith("Call")
+          ? `// Definitions for the ${typeName.replace(
+              /Call$/,
+              ""
+            )} Calls args (as defined in the abi)`
+          : `// Definitions for the ${typeName.replace(
+              /Event$/,
+              ""
+            )} Events args (as defined in the abi)`,
+        `export type ${typeName} = ${types[typeName]};`,
+      ].join("\n")
+    ),
+    [
+      `// Each handler is supplied the events args along with the tx, block and logIndex`,
+      `export type Handler<T> = (`,
+      `  args: T,`,
+      `  ctx: Parameters<HandlerFn>[1]`,
+      `) => void | Promise<void>;`,
+    ].join("\n"),
+    [
+      `// Typed handlers for each group of contracts in config (eventName -> handler())`,
+      `export type Handlers = {`,
+      ...Object.keys(groups).map((group) =>
+        [
+          `  ${toKey(group)}?: {`,
+          ...Object.keys(groups[group]).map(
+            (eventName) =>
+              `    ${toKey(eventName)}?: ${groups[group][eventName]};`
+          ),
+          ...NETWORK_EVENTS.map((eventName) => `    ${eventName}?: HandlerFn;`),
+          `  };`,
+        ].join("\n")
+      ),
+      `};`,
+    ].join("\n"),
+  ].join("\n\n")}\n`;
+};
+
+// construct an object type for the given inputs (unnamed inputs are keyed by position)
+const toArgs = (inputs: ethers.utils.ParamType[], indent: string): string =>
+  `{\n${inputs
+    .map(
+      (input, index) =>
+        `${indent}${input.name ? toKey(input.name) : index}: ${toType(
+          input,
+          indent
+        )};`
+    )
+    .join("\n")}\n${indent.slice(2)}}`;
+
+// convert the abi type to the type ethers decodes it as
+const toType = (input: ethers.utils.ParamType, indent: string): string => {
+  // indexed dynamic values are only available as the hash of their value
+  if (
+    input.indexed &&
+    ["string", "bytes", "array", "tuple"].includes(input.baseType)
+  ) {
+    return `{ hash: string }`;
+  }
+  // arrays hold their children
+  if (input.baseType === "array") {
+    return `${toType(input.arrayChildren, indent)}[]`;
+  }
+  // tuples are decoded as objects
+  if (input.baseType === "tuple") {
+    return toArgs(input.components, `${indent}  `);
+  }
+  // ints which can safely be held in a js number are decoded as numbers
+  if (/^u?int/.test(input.baseType)) {
+    return +(input.type.match(/\d+/)?.[0] || 256) <= 48
+      ? "number"
+      : "BigNumber";
+  }
+
+  return input.baseType === "bool" ? "boolean" : "string";
+};
+
+// quote keys which aren't valid identifiers
+const toKey = (key: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+
+// convert the group name to PascalCase for use as a type prefix
+const toPascalCase = (name: string) =>
+  name
+    .split(/[^A-Za-z0-9]/)
+    .map((part) => `${part.charAt(0).toUpperCase()}${part.slice(1)}`)
+    .join("");
@@ -0,0 +1,13 @@
+// Export entity type generation
+export { createEntityTypes } from "@/codegen/entities";
+
+// Export event type generation
+export { createEventTypes } from "@/codegen/events";
+
+// Export the subgraph manifest importer
+export { importSubgraph } from "@/codegen/subgraph";
+
+// Export codegen types
+export type { EntityCodegenOptions } from "@/codegen/entities";
+export type { EventCodegenOptions } from "@/codegen/events";
+export type { SubgraphImport, SubgraphImportOptions } from "@/codegen/subgraph";
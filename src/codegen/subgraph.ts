@@ -0,0 +1,340 @@
+// Read the manifest, abis and schema from disk
+import { readFileSync } from "fs";
+import { dirname, resolve } from "path";
+
+// Parse the manifest and the abis
+import { parse } from "yaml";
+import { ethers } from "ethers";
+
+// Read json abis and construct the config
+import { getEventAbi } from "@/sync/config";
+import { SyncConfig, SyncOp } from "@/sync/types";
+
+// chainIds for the network names used by graph-node
+const NETWORKS: Record<string, number> = {
+  mainnet: 1,
+  goerli: 5,
+  sepolia: 11155111,
+  holesky: 17000,
+  optimism: 10,
+  "optimism-sepolia": 11155420,
+  bsc: 56,
+  gnosis: 100,
+  xdai: 100,
+  matic: 137,
+  "polygon-zkevm": 1101,
+  mumbai: 80001,
+  fantom: 250,
+  "zksync-era": 324,
+  mantle: 5000,
+  "mantle-testnet": 5001,
+  base: 8453,
+  "base-sepolia": 84532,
+  "arbitrum-one": 42161,
+  "arbitrum-sepolia": 421614,
+  celo: 42220,
+  avalanche: 43114,
+  linea: 59144,
+  scroll: 534352,
+};
+
+// the parts of a subgraph.yaml data source (or template) we read
+type DataSource = {
+  name: string;
+  network: string;
+  source: {
+    address?: string;
+    abi: string;
+    startBlock?: number;
+  };
+  mapping: {
+    file?: string;
+    abis: { name: string; file: string }[];
+    eventHandlers?: { event: string; handler: string }[];
+    blockHandlers?: { handler: string; filter?: { kind: string } }[];
+    callHandlers?: { function: string; handler: string }[];
+  };
+};
+
+// options accepted by the importer
+export type SubgraphImportOptions = {
+  // name the supagraph (defaults to supagraph)
+  name?: string;
+  // chainIds for networks which aren't known to the importer
+  networks?: Record<string, number>;
+};
+
+// the result of importing a subgraph
+export type SubgraphImport = {
+  // the SyncConfig constructed from the manifest
+  config: SyncConfig;
+  // source files to write (relative to the target dir)
+  files: Record<string, string>;
+};
+
+// read a subgraph.yaml (with its abis and schema) into a SyncConfig and handler stubs
+export const importSubgraph = (
+  file: string,
+  { name = "supagraph", networks = {} }: SubgraphImportOptions = {}
+): SubgraphImport => {
+  // paths in the manifest are relative to the manifest
+  const path = resolve(process.cwd(), file);
+  const dir = dirname(path);
+  const manifest = parse(readFileSync(path, "utf8")) as {
+    schema: { file: string };
+    dataSources?: DataSource[];
+    templates?: DataSource[];
+  };
+
+  // resolve the chainId for each network by name
+  const toChainId = (network: string) => {
+    const chainId = networks[network] ?? NETWORKS[network];
+
+    if (!chainId) {
+      throw new Error(
+        `Unknown network "${network}" - provide its chainId in the networks option`
+      );
+    }
+
+    return chainId;
+  };
+
+  // start with an empty config
+  const config: SyncConfig = {
+    name,
+    providers: {},
+    events: {},
+    contracts: {},
+    schema: readFileSync(resolve(dir, manifest.schema.file), "utf8"),
+  };
+
+  // record every data source and template as an events group (the group is named after the source)
+  [...(manifest.dataSources || []), ...(manifest.templates || [])].forEach(
+    (source) => {
+      // each network needs a provider
+      config.providers[toChainId(source.network)] = { rpcUrl: "" };
+      // record the events used by the handlers as human-readable abis
+      config.events[source.name] = toEvents(source, dir);
+    }
+  );
+
+  // register each data source as a contract (templates are registered at runtime)
+  (manifest.dataSources || []).forEach((source) => {
+    const chainId = toChainId(source.network);
+
+    // event handlers are registered against the contract
+    if (source.mapping.eventHandlers?.length) {
+      config.contracts[source.name] = {
+        chainId,
+        events: source.name,
+        handlers: source.name,
+        address: source.source.address,
+        startBlock: source.source.startBlock || 0,
+        endBlock: "latest",
+      };
+    }
+
+    // block handlers are registered against the network (shared by every source on the chain)
+    if (source.mapping.blockHandlers?.length) {
+      const network = config.contracts[chainId] as SyncOp | undefined;
+
+      config.contracts[chainId] = {
+        chainId,
+        handlers: `${chainId}`,
+        // start from the earliest source
+        startBlock: Math.min(
+          source.source.startBlock || 0,
+          (network?.startBlock as number) ?? Infinity
+        ),
+        endBlock: "latest",
+      };
+    }
+  });
+
+  return {
+    config,
+    files: {
+      "supagraph.config.ts": toConfigSource(config),
+      "supagraph/schema.graphql": config.schema,
+      "supagraph/handlers.ts": toHandlersSource(manifest, toChainId),
+    },
+  };
+};
+
+// get the human-readable events for each of the sources event handlers (named args are read from the abi)
+const toEvents = (source: DataSource, dir: string) => {
+  // find the abi which describes the source
+  const abi = source.mapping.abis.find(
+    ({ name }) => name === source.source.abi
+  );
+  // read the abi from disk
+  const iface = new ethers.utils.Interface(
+    (abi && getEventAbi({ events: {} }, resolve(dir, abi.file))) || []
+  );
+
+  return (source.mapping.eventHandlers || []).map(({ event }) => {
+    // manifests place indexed before the type (`Transfer(indexed address,uint256)`)
+    const sighash = event.replace(/indexed /g, "").replace(/\s/g, "");
+    const fragment = Object.values(iface.events).find(
+      (item) => item.format("sighash") === sighash
+    );
+
+    // fallback to the manifests signature (without arg names) if the abi doesn't describe the event
+    return fragment
+      ? fragment.format("full")
+      : ethers.utils.EventFragment.from(
+          event.replace(/indexed ([^,)]+)/g, "$1 indexed")
+        ).format("full");
+  });
+};
+
+// construct the config file (the schema is read from disk and the rpcUrls from the env)
+const toConfigSource = ({ name, providers, events, contracts }: SyncConfig) =>
+  `// Read the schema from disk
+import { readFileSync } from "fs";
+import { join } from "path";
+
+// Type the config
+import type { SyncConfig } from "supagraph";
+
+// Export the handlers for each group of events
+export { handlers } from "./supagraph/handlers";
+
+// Export the complete supagraph configuration (imported from subgraph.yaml)
+const config: SyncConfig = {
+  // name your supagraph (this will inform mongo table name etc...)
+  name: ${JSON.stringify(name)},
+  // configure providers (set the rpcUrl for each chain in the env)
+  providers: {
+${Object.keys(providers)
+  .map(
+    (chainId) =>
+      `    ${chainId}: {\n      rpcUrl: process.env.RPC_URL_${chainId} || "",\n    },`
+  )
+  .join("\n")}
+  },
+  // register events into named groups (one group per data source and template)
+  events: ${toLiteral(events)},
+  // configure available Contracts and their block details
+  contracts: ${toLiteral(contracts)},
+  // define supagraph schema
+  schema: readFileSync(join(__dirname, "supagraph/schema.graphql"), "utf8"),
+};
+
+export default config;
+`;
+
+// construct the handler stubs (each handler names the mapping it should be ported from)
+const toHandlersSource = (
+  manifest: { dataSources?: DataSource[]; templates?: DataSource[] },
+  toChainId: (network: string) => number
+) => {
+  // block handlers are grouped by chainId (templates are only created for their events)
+  const blockHandlers = (manifest.dataSources || []).reduce((all, source) => {
+    (source.mapping.blockHandlers || []).forEach(({ handler, filter }) => {
+      all[toChainId(source.network)] = [
+        ...(all[toChainId(source.network)] || []),
+        `      // TODO: port ${handler} from ${source.mapping.file}${
+          filter ? ` (the ${filter.kind} filter is not supported)` : ""
+        }`,
+      ];
+    });
+
+    return all;
+  }, {} as Record<number, string[]>);
+
+  // construct a group of handlers for each data source and template
+  const groups = [
+    ...(manifest.dataSources || []),
+    ...(manifest.templates || []),
+  ].map((source) =>
+    [
+      `  ${toKey(source.name)}: {`,
+      ...toEventHandlers(source).map(({ eventName, handler }) =>
+        [
+          `    ${eventName}: async (args, { tx, block, logIndex }) => {`,
+          `      // TODO: port ${handler} from ${source.mapping.file}`,
+          `    },`,
+        ].join("\n")
+      ),
+      ...(source.mapping.callHandlers || []).map(
+        ({ function: fn, handler }) =>
+          `    // call handlers are not supported: ${handler} (${fn})`
+      ),
+      `  },`,
+    ].join("\n")
+  );
+
+  // construct a network group for each chain with block handlers
+  const networks = Object.keys(blockHandlers).map((chainId) =>
+    [
+      `  ${toKey(chainId)}: {`,
+      `    onBlock: async (args, { block }) => {`,
+      ...blockHandlers[+chainId],
+      `    },`,
+      `  },`,
+    ].join("\n")
+  );
+
+  // templates are created at runtime with addSync
+  const templates = (manifest.templates || []).map((template) =>
+    [
+      `// Start syncing the ${template.name} template (call this where the subgraph calls ${template.name}.create(address))`,
+      `export const create${template.name} = async (address: string, startBlock: number) => {`,
+      `  await Promise.all(`,
+      `    ${JSON.stringify(
+        toEventHandlers(template).map(({ eventName }) => eventName)
+      )}.map((eventName) =>`,
+      `      addSync({`,
+      `        chainId: ${toChainId(template.network)},`,
+      `        address,`,
+      `        eventName,`,
+      `        events: ${JSON.stringify(template.name)},`,
+      `        handlers: ${JSON.stringify(template.name)},`,
+      `        startBlock,`,
+      `        endBlock: "latest",`,
+      `        // runtime syncs are persisted in __meta__ and restored on restart`,
+      `        opts: { mode: "runtime" },`,
+      `      })`,
+      `    )`,
+      `  );`,
+      `};`,
+    ].join("\n")
+  );
+
+  return `${[
+    [
+      `// Handlers imported from subgraph.yaml - port each mapping from its AssemblyScript source`,
+      ...(templates.length ? [`import { addSync } from "supagraph";`] : []),
+      ``,
+      `// Types are generated from the schema and abis by \`supagraph codegen\``,
+      `import type { Handlers } from "./types/events";`,
+    ].join("\n"),
+    ...templates,
+    [
+      `// Construct the handlers to register each contract against its handlers`,
+      `export const handlers: Handlers = {`,
+      ...groups,
+      ...networks,
+      `};`,
+    ].join("\n"),
+  ].join("\n\n")}\n`;
+};
+
+// get the event handlers keyed by eventName (overloaded events share a handler)
+const toEventHandlers = (source: DataSource) =>
+  (source.mapping.eventHandlers || []).reduce(
+    (all, { event, handler }) =>
+      all.some(({ eventName }) => eventName === event.split("(")[0])
+        ? all
+        : [...all, { eventName: event.split("(")[0], handler }],
+    [] as { eventName: string; handler: string }[]
+  );
+
+// print a value as an object literal (indented to sit inside the config)
+const toLiteral = (value: unknown) =>
+  JSON.stringify(value, null, 2).replace(/\n/g, "\n  ");
+
+// quote keys which aren't valid identifiers
+const toKey = (key: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
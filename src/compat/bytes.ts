@@ -0,0 +1,126 @@
+/* eslint-disable max-classes-per-file */
+// graph-ts style Bytes and Address (both are Uint8Arrays which render as lowercase 0x prefixed hex)
+
+// Byte array
+export class Bytes extends Uint8Array {
+  // construct from a 0x prefixed (or bare) hex string
+  static fromHexString(hex: string) {
+    return new Bytes(fromHex(hex));
+  }
+
+  // construct from the utf8 encoding of the string
+  static fromUTF8(str: string) {
+    return new Bytes(Buffer.from(str, "utf8"));
+  }
+
+  // construct from the little-endian bytes of a 32bit int
+  static fromI32(n: number) {
+    const bytes = new Bytes(4);
+    new DataView(bytes.buffer).setInt32(0, n, true);
+
+    return bytes;
+  }
+
+  static fromUint8Array(arr: Uint8Array) {
+    return new Bytes(arr);
+  }
+
+  static fromByteArray(arr: Uint8Array) {
+    return new Bytes(arr);
+  }
+
+  static empty() {
+    return new Bytes(0);
+  }
+
+  // read the first 4 bytes as a little-endian int
+  toI32() {
+    return new DataView(this.buffer, this.byteOffset, this.byteLength).getInt32(
+      0,
+      true
+    );
+  }
+
+  toHexString() {
+    return `0x${Buffer.from(this).toString("hex")}`;
+  }
+
+  toHex() {
+    return this.toHexString();
+  }
+
+  toUTF8() {
+    return Buffer.from(this).toString("utf8");
+  }
+
+  toString() {
+    return this.toHexString();
+  }
+
+  // stored as hex
+  toJSON() {
+    return this.toHexString();
+  }
+
+  concat(other: Uint8Array) {
+    const bytes = new Bytes(this.length + other.length);
+    bytes.set(this, 0);
+    bytes.set(other, this.length);
+
+    return bytes;
+  }
+
+  concatI32(n: number) {
+    return this.concat(Bytes.fromI32(n));
+  }
+
+  equals(other: Uint8Array) {
+    return (
+      this.length === other.length &&
+      this.every((byte, index) => byte === other[index])
+    );
+  }
+
+  notEqual(other: Uint8Array) {
+    return !this.equals(other);
+  }
+}
+
+// 20 byte account address
+export class Address extends Bytes {
+  // construct from a 0x prefixed address (checksummed or not)
+  static fromString(address: string) {
+    const bytes = fromHex(address);
+    if (bytes.length !== 20) {
+      throw new Error(`Invalid address: ${address}`);
+    }
+
+    return new Address(bytes);
+  }
+
+  static fromHexString(hex: string) {
+    return Address.fromString(hex);
+  }
+
+  static fromBytes(bytes: Uint8Array) {
+    if (bytes.length !== 20) {
+      throw new Error(`Invalid address length: ${bytes.length}`);
+    }
+
+    return new Address(bytes);
+  }
+
+  static zero() {
+    return new Address(20);
+  }
+}
+
+// parse hex (with or without the 0x prefix) into bytes
+const fromHex = (hex: string) => {
+  const bare = hex.replace(/^0x/i, "");
+  if (!/^[0-9a-f]*$/i.test(bare)) {
+    throw new Error(`Invalid hex string: ${hex}`);
+  }
+
+  return Buffer.from(bare.length % 2 ? `0${bare}` : bare, "hex");
+};
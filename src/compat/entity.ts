@@ -0,0 +1,170 @@
+// graph-ts style Entity and store (backed by supagraphs Store - everything that touches the store is async)
+import { Store } from "@/sync/tooling/persistence/store";
+
+import { Address, Bytes } from "./bytes";
+import { GraphBigDecimal, GraphBigInt } from "./numbers";
+import { Value } from "./value";
+
+// Base class for mapping entities - extend it with getters/setters for each field (as graph codegen does)
+export class Entity {
+  // ref to store the entity under (defaults to the class name)
+  static entityName?: string;
+
+  // the raw values held against each field
+  values: Record<string, unknown>;
+
+  constructor(id?: string | Bytes) {
+    this.values = {};
+    // set the id when given
+    if (typeof id !== "undefined") this.set("id", Value.fromString(toId(id)));
+  }
+
+  // load the entity by id (resolves to null if it doesn't exist yet)
+  static async load<T extends Entity>(
+    this: { new (id?: string | Bytes): T; entityName?: string; name: string },
+    id: string | Bytes
+  ): Promise<T | null> {
+    // get the raw values from the store
+    const values = await getValues(this.entityName || this.name, toId(id));
+
+    // construct the subclass and place the values
+    if (values) {
+      const entity = new this(id);
+      entity.values = values;
+
+      return entity;
+    }
+
+    return null;
+  }
+
+  // ref this entity is stored under
+  get entityName() {
+    return (
+      (this.constructor as typeof Entity).entityName || this.constructor.name
+    );
+  }
+
+  // commit the entity to the store (merged over the stored entity)
+  async save() {
+    const id = this.get("id");
+    if (!id || id.isNull()) {
+      throw new Error(`Cannot save ${this.entityName} entity without an ID`);
+    }
+
+    await store.set(this.entityName, id.toString(), this);
+  }
+
+  get(key: string): Value | null {
+    return typeof this.values[key] === "undefined"
+      ? null
+      : Value.fromRaw(this.values[key]);
+  }
+
+  set(key: string, value: Value) {
+    this.values[key] = value.data;
+  }
+
+  // clear the field (stored as null)
+  unset(key: string) {
+    this.values[key] = null;
+  }
+
+  getString(key: string) {
+    return this.get(key)?.toString();
+  }
+
+  getI32(key: string) {
+    return this.get(key)?.toI32();
+  }
+
+  getBoolean(key: string) {
+    return this.get(key)?.toBoolean();
+  }
+
+  getBigInt(key: string) {
+    return this.get(key)?.toBigInt();
+  }
+
+  getBigDecimal(key: string) {
+    return this.get(key)?.toBigDecimal();
+  }
+
+  getBytes(key: string) {
+    return this.get(key)?.toBytes();
+  }
+
+  getAddress(key: string) {
+    return this.get(key)?.toAddress();
+  }
+
+  setString(key: string, value: string) {
+    this.set(key, Value.fromString(value));
+  }
+
+  setI32(key: string, value: number) {
+    this.set(key, Value.fromI32(value));
+  }
+
+  setBoolean(key: string, value: boolean) {
+    this.set(key, Value.fromBoolean(value));
+  }
+
+  setBigInt(key: string, value: GraphBigInt) {
+    this.set(key, Value.fromBigInt(value));
+  }
+
+  setBigDecimal(key: string, value: GraphBigDecimal) {
+    this.set(key, Value.fromBigDecimal(value));
+  }
+
+  setBytes(key: string, value: Bytes) {
+    this.set(key, Value.fromBytes(value));
+  }
+
+  setAddress(key: string, value: Address) {
+    this.set(key, Value.fromAddress(value));
+  }
+}
+
+// graph-ts style store namespace
+export const store = {
+  // get the entity as a base Entity (use `<Class>.load(id)` to get a typed entity)
+  async get(entityName: string, id: string): Promise<Entity | null> {
+    const values = await getValues(entityName, id);
+
+    // construct a plain entity around the values
+    if (values) {
+      const entity = new Entity();
+      entity.values = values;
+
+      return entity;
+    }
+
+    return null;
+  },
+
+  // merge the entities values over the stored entity and save (this adds the block/chain details)
+  async set(entityName: string, id: string, entity: Entity) {
+    const stored = await Store.get<{ id: string }>(entityName, id);
+    stored.replace({ ...entity.values, id } as { id: string });
+    await stored.save();
+  },
+
+  async remove(entityName: string, id: string) {
+    await Store.remove(entityName, id);
+  },
+};
+
+// ids are stored as strings (Bytes ids as lowercase hex)
+const toId = (id: string | Bytes) =>
+  typeof id === "string" ? id : Bytes.fromUint8Array(id).toHexString();
+
+// get the raw values of the entity from the store (or null if it doesn't exist)
+const getValues = async (entityName: string, id: string) => {
+  const [entity] = await Store.loadMany<{ id: string }>(entityName, [id]);
+
+  return entity
+    ? ({ ...entity.valueOf() } as unknown as Record<string, unknown>)
+    : null;
+};
@@ -0,0 +1,319 @@
+/* eslint-disable max-classes-per-file */
+// graph-ts style ethereum namespace - Events, Blocks and Transactions constructed from supagraph handler args
+import type {
+  Block as SyncBlock,
+  TransactionReceipt as SyncReceipt,
+  TransactionResponse as SyncTransaction,
+} from "@ethersproject/abstract-provider";
+import type { HandlerFn } from "@/sync/types";
+
+import { Address, Bytes } from "./bytes";
+import { BigIntish, GraphBigInt } from "./numbers";
+
+// Event/call parameter value (wraps the raw ethers value)
+export class Value {
+  // the raw value as decoded by ethers
+  data: unknown;
+
+  constructor(data: unknown) {
+    this.data = data;
+  }
+
+  toAddress() {
+    return Address.fromString(`${this.data}`);
+  }
+
+  toBoolean() {
+    return !!this.data;
+  }
+
+  // indexed dynamic values are only available as their hash
+  toBytes() {
+    return Bytes.fromHexString(
+      `${(this.data as { hash: string })?.hash ?? this.data}`
+    );
+  }
+
+  toI32() {
+    return new GraphBigInt(this.data as BigIntish).toI32();
+  }
+
+  toBigInt() {
+    return new GraphBigInt(this.data as BigIntish);
+  }
+
+  toString() {
+    return `${this.data}`;
+  }
+
+  toArray() {
+    return ((this.data as unknown[]) || []).map((item) => new Value(item));
+  }
+
+  // tuples are arrays of values
+  toTuple() {
+    return this.toArray();
+  }
+
+  toAddressArray() {
+    return this.toArray().map((value) => value.toAddress());
+  }
+
+  toBooleanArray() {
+    return this.toArray().map((value) => value.toBoolean());
+  }
+
+  toBytesArray() {
+    return this.toArray().map((value) => value.toBytes());
+  }
+
+  toI32Array() {
+    return this.toArray().map((value) => value.toI32());
+  }
+
+  toBigIntArray() {
+    return this.toArray().map((value) => value.toBigInt());
+  }
+
+  toStringArray() {
+    return this.toArray().map((value) => value.toString());
+  }
+}
+
+// Named event parameter
+export class EventParam {
+  name: string;
+
+  value: Value;
+
+  constructor(name: string, value: Value) {
+    this.name = name;
+    this.value = value;
+  }
+}
+
+// Block the event was emitted in (only hash, number and timestamp are available unless the sync collects blocks)
+export class Block {
+  hash: Bytes;
+
+  parentHash: Bytes | null;
+
+  author: Address | null;
+
+  number: GraphBigInt;
+
+  timestamp: GraphBigInt;
+
+  gasUsed: GraphBigInt | null;
+
+  gasLimit: GraphBigInt | null;
+
+  difficulty: GraphBigInt | null;
+
+  baseFeePerGas: GraphBigInt | null;
+
+  constructor(block: Partial<SyncBlock>) {
+    this.hash = toBytes(block.hash);
+    this.parentHash = block.parentHash ? toBytes(block.parentHash) : null;
+    this.author = block.miner ? Address.fromString(block.miner) : null;
+    this.number = new GraphBigInt(block.number ?? 0);
+    this.timestamp = new GraphBigInt(block.timestamp ?? 0);
+    this.gasUsed = toBigIntOrNull(block.gasUsed);
+    this.gasLimit = toBigIntOrNull(block.gasLimit);
+    this.difficulty = toBigIntOrNull(block.difficulty);
+    this.baseFeePerGas = toBigIntOrNull(block.baseFeePerGas);
+  }
+}
+
+// Transaction the event was emitted in (only hash, from and to are available unless the sync collects txs)
+export class Transaction {
+  hash: Bytes;
+
+  index: GraphBigInt;
+
+  from: Address | null;
+
+  to: Address | null;
+
+  value: GraphBigInt;
+
+  gasLimit: GraphBigInt;
+
+  gasPrice: GraphBigInt;
+
+  input: Bytes;
+
+  nonce: GraphBigInt;
+
+  constructor(tx: Partial<SyncReceipt & SyncTransaction>) {
+    this.hash = toBytes(tx.hash || tx.transactionHash);
+    this.index = new GraphBigInt(tx.transactionIndex ?? 0);
+    this.from = tx.from ? Address.fromString(tx.from) : null;
+    this.to = tx.to ? Address.fromString(tx.to) : null;
+    this.value = new GraphBigInt(tx.value ?? 0);
+    this.gasLimit = new GraphBigInt(tx.gasLimit ?? 0);
+    this.gasPrice = new GraphBigInt(tx.gasPrice ?? tx.effectiveGasPrice ?? 0);
+    this.input = toBytes(tx.data);
+    this.nonce = new GraphBigInt(tx.nonce ?? 0);
+  }
+}
+
+// Receipt of the transaction (only available when the sync collects receipts)
+export class TransactionReceipt {
+  transactionHash: Bytes;
+
+  transactionIndex: GraphBigInt;
+
+  blockHash: Bytes;
+
+  blockNumber: GraphBigInt;
+
+  cumulativeGasUsed: GraphBigInt;
+
+  gasUsed: GraphBigInt;
+
+  contractAddress: Address | null;
+
+  status: GraphBigInt;
+
+  constructor(receipt: Partial<SyncReceipt>) {
+    this.transactionHash = toBytes(receipt.transactionHash);
+    this.transactionIndex = new GraphBigInt(receipt.transactionIndex ?? 0);
+    this.blockHash = toBytes(receipt.blockHash);
+    this.blockNumber = new GraphBigInt(receipt.blockNumber ?? 0);
+    this.cumulativeGasUsed = new GraphBigInt(receipt.cumulativeGasUsed ?? 0);
+    this.gasUsed = new GraphBigInt(receipt.gasUsed ?? 0);
+    this.contractAddress = receipt.contractAddress
+      ? Address.fromString(receipt.contractAddress)
+      : null;
+    this.status = new GraphBigInt(receipt.status ?? 0);
+  }
+}
+
+// Event - extend it with a typed `params` getter (as graph codegen does) or read the converted `params` directly
+export class Event {
+  address: Address;
+
+  logIndex: GraphBigInt;
+
+  transactionLogIndex: GraphBigInt;
+
+  logType: string | null;
+
+  block: Block;
+
+  transaction: Transaction;
+
+  parameters: EventParam[];
+
+  receipt: TransactionReceipt | null;
+
+  constructor(
+    address: Address,
+    logIndex: GraphBigInt,
+    transactionLogIndex: GraphBigInt,
+    logType: string | null,
+    block: Block,
+    transaction: Transaction,
+    parameters: EventParam[],
+    receipt: TransactionReceipt | null = null
+  ) {
+    this.address = address;
+    this.logIndex = logIndex;
+    this.transactionLogIndex = transactionLogIndex;
+    this.logType = logType;
+    this.block = block;
+    this.transaction = transaction;
+    this.parameters = parameters;
+    this.receipt = receipt;
+  }
+
+  // params by name (BigNumbers as BigInts, addresses as Address and any other hex as Bytes) - this is a getter so that subclasses can override it
+  get params(): Record<string, any> {
+    return this.parameters.reduce((params, { name, value }) => {
+      params[name] = toParam(value.data);
+
+      return params;
+    }, {} as Record<string, any>);
+  }
+}
+
+// Adapt a graph-ts style handler (`(event) => void`) into a supagraph handler
+export const withEvent =
+  <E extends Event = Event>(
+    handler: (event: E) => void | Promise<void>,
+    EventClass: new (
+      ...args: ConstructorParameters<typeof Event>
+    ) => E = Event as new (...args: ConstructorParameters<typeof Event>) => E
+  ): HandlerFn =>
+  async (args, { tx, block, logIndex, address }) => {
+    // the receipt is only available if the sync collected it
+    const receipt = (tx as Partial<SyncReceipt>)?.logs
+      ? new TransactionReceipt(tx)
+      : null;
+
+    // construct the event from the handler args
+    await handler(
+      new EventClass(
+        address ? Address.fromString(address) : Address.zero(),
+        new GraphBigInt(logIndex ?? 0),
+        new GraphBigInt(logIndex ?? 0),
+        null,
+        new Block(block || {}),
+        new Transaction(tx || {}),
+        toParameters(args),
+        receipt
+      )
+    );
+  };
+
+// convert ethers Result args (or a plain object) to named parameters in argument order
+export const toParameters = (args: unknown): EventParam[] => {
+  // plain objects are taken in key order
+  if (!Array.isArray(args)) {
+    return Object.keys(args || {}).map(
+      (name) => new EventParam(name, new Value(args[name]))
+    );
+  }
+  // ethers Results assign names (in argument order) after the positional entries
+  const names = Object.keys(args).filter((key) => !/^\d+$/.test(key));
+
+  return args.map((arg, index) => {
+    // take the next name whose value is this arg (unnamed args keep their position)
+    const at = names.findIndex((name) => args[name] === arg);
+    const name = at === -1 ? `${index}` : names.splice(at, 1)[0];
+
+    return new EventParam(name, new Value(arg));
+  });
+};
+
+// convert the raw ethers value to its graph-ts counterpart
+const toParam = (data: unknown): unknown => {
+  // eslint-disable-next-line no-underscore-dangle
+  if ((data as { _isBigNumber: boolean })?._isBigNumber) {
+    return new GraphBigInt(data as BigIntish);
+  }
+  if (Array.isArray(data)) return data.map((item) => toParam(item));
+  // indexed dynamic values are only available as their hash
+  if ((data as { _isIndexed: boolean })?._isIndexed) {
+    return Bytes.fromHexString((data as { hash: string }).hash);
+  }
+  if (typeof data === "string" && /^0x[0-9a-f]{40}$/i.test(data)) {
+    return Address.fromString(data);
+  }
+  if (typeof data === "string" && /^0x([0-9a-f]{2})*$/i.test(data)) {
+    return Bytes.fromHexString(data);
+  }
+
+  return data;
+};
+
+// read an optional hex string as Bytes
+const toBytes = (hex?: string) =>
+  hex ? Bytes.fromHexString(hex) : Bytes.empty();
+
+// read an optional BigNumber as a BigInt
+const toBigIntOrNull = (value?: BigIntish | null) =>
+  value === null || typeof value === "undefined"
+    ? null
+    : new GraphBigInt(value);
@@ -0,0 +1,18 @@
+// Export the graph-ts style numbers (named to match graph-ts)
+export {
+  GraphBigInt as BigInt,
+  GraphBigDecimal as BigDecimal,
+  type BigIntish,
+} from "./numbers";
+// Export Bytes and Address
+export * from "./bytes";
+// Export entity field values
+export * from "./value";
+// Export the Entity base class and store
+export * from "./entity";
+// Export the ethereum namespace
+export * as ethereum from "./ethereum";
+// Export the handler adapter at the top level
+export { withEvent } from "./ethereum";
+// Export the logger
+export * from "./log";
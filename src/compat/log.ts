@@ -0,0 +1,30 @@
+// graph-ts style logger - each `{}` in the message is replaced by the next arg
+export const log = {
+  debug(message: string, args: unknown[] = []) {
+    console.debug(format(message, args));
+  },
+  info(message: string, args: unknown[] = []) {
+    console.info(format(message, args));
+  },
+  warning(message: string, args: unknown[] = []) {
+    console.warn(format(message, args));
+  },
+  error(message: string, args: unknown[] = []) {
+    console.error(format(message, args));
+  },
+  // critical logs halt the handler (and the sync) as they do in graph-node
+  critical(message: string, args: unknown[] = []) {
+    throw new Error(format(message, args));
+  },
+};
+
+// replace each placeholder in order
+const format = (message: string, args: unknown[]) => {
+  let index = 0;
+
+  return message.replace(/{}/g, () => {
+    index += 1;
+
+    return `${args[index - 1]}`;
+  });
+};
@@ -0,0 +1,359 @@
+/* eslint-disable no-bitwise, max-classes-per-file */
+// graph-ts style BigInt and BigDecimal (backed by native bigints and supagraphs fixed point BigDecimal scalar)
+import { BigDecimal as FixedDecimal } from "@/graphql/scalars/BigDecimal";
+
+// anything we're willing to read as a whole number
+export type BigIntish =
+  | GraphBigInt
+  | bigint
+  | number
+  | string
+  | { _isBigNumber: boolean; _hex: string };
+
+// Arbitrary size signed integer (exported as `BigInt`)
+export class GraphBigInt {
+  // the wrapped value
+  value: bigint;
+
+  constructor(value: BigIntish = 0) {
+    this.value = toBigint(value);
+  }
+
+  // construct from a (signed) 32bit int
+  static fromI32(n: number) {
+    return new GraphBigInt(n | 0);
+  }
+
+  // construct from an unsigned 32bit int
+  static fromU32(n: number) {
+    return new GraphBigInt(n >>> 0);
+  }
+
+  // construct from a 64bit int
+  static fromI64(n: number | bigint) {
+    return new GraphBigInt(BigInt.asIntN(64, BigInt(n)));
+  }
+
+  // construct from an unsigned 64bit int
+  static fromU64(n: number | bigint) {
+    return new GraphBigInt(BigInt.asUintN(64, BigInt(n)));
+  }
+
+  // construct from a decimal (or 0x prefixed hex) string
+  static fromString(s: string) {
+    return new GraphBigInt(s);
+  }
+
+  // construct from little-endian bytes as an unsigned value
+  static fromUnsignedBytes(bytes: Uint8Array) {
+    return new GraphBigInt(fromLittleEndian(bytes));
+  }
+
+  // construct from little-endian bytes as a two's complement signed value
+  static fromSignedBytes(bytes: Uint8Array) {
+    return new GraphBigInt(
+      BigInt.asIntN(bytes.length * 8, fromLittleEndian(bytes))
+    );
+  }
+
+  // construct from an ethers BigNumber (or anything else BigIntish)
+  static from(value: BigIntish) {
+    return new GraphBigInt(value);
+  }
+
+  static zero() {
+    return new GraphBigInt(0);
+  }
+
+  // compare two values (-1, 0 or 1)
+  static compare(a: GraphBigInt, b: GraphBigInt) {
+    return Number(a.value > b.value) - Number(a.value < b.value);
+  }
+
+  plus(other: GraphBigInt) {
+    return new GraphBigInt(this.value + other.value);
+  }
+
+  minus(other: GraphBigInt) {
+    return new GraphBigInt(this.value - other.value);
+  }
+
+  times(other: GraphBigInt) {
+    return new GraphBigInt(this.value * other.value);
+  }
+
+  // integer division (truncated towards zero)
+  div(other: GraphBigInt) {
+    return new GraphBigInt(this.value / other.value);
+  }
+
+  // divide to a BigDecimal
+  divDecimal(other: GraphBigDecimal) {
+    return this.toBigDecimal().div(other);
+  }
+
+  mod(other: GraphBigInt) {
+    return new GraphBigInt(this.value % other.value);
+  }
+
+  pow(exp: number) {
+    return new GraphBigInt(this.value ** BigInt(exp));
+  }
+
+  // integer square root (newtons method)
+  sqrt() {
+    if (this.value < BigInt(0)) {
+      throw new Error("Cannot take the square root of a negative BigInt");
+    }
+    // start from the value and walk down until we converge
+    let x = this.value;
+    let y = (x + BigInt(1)) / BigInt(2);
+    while (y < x) {
+      x = y;
+      y = (x + this.value / x) / BigInt(2);
+    }
+
+    return new GraphBigInt(x);
+  }
+
+  neg() {
+    return new GraphBigInt(-this.value);
+  }
+
+  abs() {
+    return new GraphBigInt(this.value < BigInt(0) ? -this.value : this.value);
+  }
+
+  leftShift(bits: number) {
+    return new GraphBigInt(this.value << BigInt(bits));
+  }
+
+  rightShift(bits: number) {
+    return new GraphBigInt(this.value >> BigInt(bits));
+  }
+
+  bitOr(other: GraphBigInt) {
+    return new GraphBigInt(this.value | other.value);
+  }
+
+  bitAnd(other: GraphBigInt) {
+    return new GraphBigInt(this.value & other.value);
+  }
+
+  equals(other: GraphBigInt) {
+    return this.value === other.value;
+  }
+
+  notEqual(other: GraphBigInt) {
+    return this.value !== other.value;
+  }
+
+  lt(other: GraphBigInt) {
+    return this.value < other.value;
+  }
+
+  le(other: GraphBigInt) {
+    return this.value <= other.value;
+  }
+
+  gt(other: GraphBigInt) {
+    return this.value > other.value;
+  }
+
+  ge(other: GraphBigInt) {
+    return this.value >= other.value;
+  }
+
+  isZero() {
+    return this.value === BigInt(0);
+  }
+
+  // does the value fit in a signed 32bit int?
+  isI32() {
+    return BigInt.asIntN(32, this.value) === this.value;
+  }
+
+  toI32() {
+    return Number(BigInt.asIntN(32, this.value));
+  }
+
+  toU32() {
+    return Number(BigInt.asUintN(32, this.value));
+  }
+
+  toI64() {
+    return Number(BigInt.asIntN(64, this.value));
+  }
+
+  toU64() {
+    return Number(BigInt.asUintN(64, this.value));
+  }
+
+  toBigDecimal() {
+    return new GraphBigDecimal(this);
+  }
+
+  toHexString() {
+    return `${this.value < BigInt(0) ? "-" : ""}0x${(this.value < BigInt(0)
+      ? -this.value
+      : this.value
+    ).toString(16)}`;
+  }
+
+  toHex() {
+    return this.toHexString();
+  }
+
+  toString() {
+    return this.value.toString();
+  }
+
+  // stored as a decimal string (the same as ethers BigNumbers are stored)
+  toJSON() {
+    return this.toString();
+  }
+}
+
+// Fixed point decimal (exported as `BigDecimal`) - precision follows the BigDecimal scalar (18 decimals)
+export class GraphBigDecimal {
+  // the wrapped scalar
+  value: FixedDecimal;
+
+  constructor(
+    value: GraphBigInt | GraphBigDecimal | FixedDecimal | string = "0"
+  ) {
+    // copy decimals, convert ints and parse anything else
+    if (value instanceof GraphBigDecimal) {
+      this.value = value.value;
+    } else if (value instanceof GraphBigInt) {
+      this.value = new FixedDecimal(value.value);
+    } else {
+      this.value = new FixedDecimal(value);
+    }
+  }
+
+  static fromString(s: string) {
+    return new GraphBigDecimal(s);
+  }
+
+  static zero() {
+    return new GraphBigDecimal("0");
+  }
+
+  // compare two values (-1, 0 or 1)
+  static compare(a: GraphBigDecimal, b: GraphBigDecimal) {
+    return Number(a.value._n > b.value._n) - Number(a.value._n < b.value._n);
+  }
+
+  plus(other: GraphBigDecimal) {
+    return fromShifted(this.value._n + other.value._n);
+  }
+
+  minus(other: GraphBigDecimal) {
+    return fromShifted(this.value._n - other.value._n);
+  }
+
+  times(other: GraphBigDecimal) {
+    return fromShifted(
+      divRound(this.value._n * other.value._n, FixedDecimal.SHIFT)
+    );
+  }
+
+  div(other: GraphBigDecimal) {
+    if (other.value._n === BigInt(0)) {
+      throw new Error("Cannot divide a BigDecimal by zero");
+    }
+
+    return fromShifted(
+      divRound(this.value._n * FixedDecimal.SHIFT, other.value._n)
+    );
+  }
+
+  neg() {
+    return fromShifted(-this.value._n);
+  }
+
+  // drop everything past the given number of decimals
+  truncate(decimals: number) {
+    const factor =
+      BigInt(10) ** BigInt(Math.max(0, FixedDecimal.DECIMALS - decimals));
+
+    return fromShifted((this.value._n / factor) * factor);
+  }
+
+  equals(other: GraphBigDecimal) {
+    return this.value._n === other.value._n;
+  }
+
+  notEqual(other: GraphBigDecimal) {
+    return this.value._n !== other.value._n;
+  }
+
+  lt(other: GraphBigDecimal) {
+    return this.value._n < other.value._n;
+  }
+
+  le(other: GraphBigDecimal) {
+    return this.value._n <= other.value._n;
+  }
+
+  gt(other: GraphBigDecimal) {
+    return this.value._n > other.value._n;
+  }
+
+  ge(other: GraphBigDecimal) {
+    return this.value._n >= other.value._n;
+  }
+
+  isZero() {
+    return this.value._n === BigInt(0);
+  }
+
+  // graph-ts drops the trailing `.0` from whole numbers
+  toString() {
+    return this.value.toString().replace(/\.0$/, "");
+  }
+
+  toJSON() {
+    return this.toString();
+  }
+}
+
+// read anything BigIntish into a native bigint
+const toBigint = (value: BigIntish): bigint => {
+  if (value instanceof GraphBigInt) return value.value;
+  // eslint-disable-next-line no-underscore-dangle
+  if ((value as { _isBigNumber: boolean })?._isBigNumber) {
+    // eslint-disable-next-line no-underscore-dangle
+    return BigInt((value as { _hex: string })._hex);
+  }
+  // BigInt() only accepts a sign on decimal strings
+  if (typeof value === "string" && /^-0x/i.test(value)) {
+    return -BigInt(value.slice(1));
+  }
+
+  return BigInt(value as bigint | number | string);
+};
+
+// read little-endian bytes as an unsigned bigint
+const fromLittleEndian = (bytes: Uint8Array) =>
+  bytes.reduceRight(
+    (value, byte) => (value << BigInt(8)) | BigInt(byte),
+    BigInt(0)
+  );
+
+// divide rounding half away from zero (when the scalar is configured to round)
+const divRound = (dividend: bigint, divisor: bigint) =>
+  dividend / divisor +
+  (FixedDecimal.ROUNDED
+    ? ((dividend * BigInt(2)) / divisor) % BigInt(2)
+    : BigInt(0));
+
+// construct a decimal from an already shifted bigint
+const fromShifted = (n: bigint) => {
+  const decimal = new GraphBigDecimal();
+  // the zero is constructed fresh so we're free to replace its slot
+  decimal.value._n = n;
+
+  return decimal;
+};
@@ -0,0 +1,191 @@
+// graph-ts style Value - wraps the raw value held in the store and converts it on read
+import { Address, Bytes } from "./bytes";
+import { BigIntish, GraphBigDecimal, GraphBigInt } from "./numbers";
+
+// the kinds of value an entity can hold
+export enum ValueKind {
+  STRING = 0,
+  INT = 1,
+  BIGDECIMAL = 2,
+  BOOL = 3,
+  ARRAY = 4,
+  NULL = 5,
+  BYTES = 6,
+  BIGINT = 7,
+}
+
+// Entity field value (the data is held in the same form that supagraph stores it)
+export class Value {
+  kind: ValueKind;
+
+  // the raw (serialised) value
+  data: unknown;
+
+  constructor(kind: ValueKind, data: unknown) {
+    this.kind = kind;
+    this.data = data;
+  }
+
+  // wrap a raw value read from the store
+  static fromRaw(data: unknown): Value {
+    // eslint-disable-next-line no-nested-ternary
+    return data === null || typeof data === "undefined"
+      ? Value.fromNull()
+      : Array.isArray(data)
+      ? Value.fromArray(data.map((item) => Value.fromRaw(item)))
+      : new Value(toKind(data), serialise(data));
+  }
+
+  static fromNull() {
+    return new Value(ValueKind.NULL, null);
+  }
+
+  static fromString(s: string) {
+    return new Value(ValueKind.STRING, s);
+  }
+
+  static fromI32(n: number) {
+    return new Value(ValueKind.INT, n);
+  }
+
+  static fromBoolean(b: boolean) {
+    return new Value(ValueKind.BOOL, b);
+  }
+
+  static fromBigInt(n: GraphBigInt) {
+    return new Value(ValueKind.BIGINT, n.toString());
+  }
+
+  static fromBigDecimal(n: GraphBigDecimal) {
+    return new Value(ValueKind.BIGDECIMAL, n.toString());
+  }
+
+  static fromBytes(bytes: Bytes) {
+    return new Value(ValueKind.BYTES, bytes.toHexString());
+  }
+
+  static fromAddress(address: Address) {
+    return Value.fromBytes(address);
+  }
+
+  static fromArray(values: Value[]) {
+    return new Value(
+      ValueKind.ARRAY,
+      values.map((value) => value.data)
+    );
+  }
+
+  static fromStringArray(values: string[]) {
+    return Value.fromArray(values.map((value) => Value.fromString(value)));
+  }
+
+  static fromI32Array(values: number[]) {
+    return Value.fromArray(values.map((value) => Value.fromI32(value)));
+  }
+
+  static fromBooleanArray(values: boolean[]) {
+    return Value.fromArray(values.map((value) => Value.fromBoolean(value)));
+  }
+
+  static fromBigIntArray(values: GraphBigInt[]) {
+    return Value.fromArray(values.map((value) => Value.fromBigInt(value)));
+  }
+
+  static fromBigDecimalArray(values: GraphBigDecimal[]) {
+    return Value.fromArray(values.map((value) => Value.fromBigDecimal(value)));
+  }
+
+  static fromBytesArray(values: Bytes[]) {
+    return Value.fromArray(values.map((value) => Value.fromBytes(value)));
+  }
+
+  isNull() {
+    return this.kind === ValueKind.NULL;
+  }
+
+  toString() {
+    return `${this.data}`;
+  }
+
+  toI32() {
+    return Number(this.data);
+  }
+
+  toBoolean() {
+    return !!this.data;
+  }
+
+  toBigInt() {
+    return new GraphBigInt(this.data as BigIntish);
+  }
+
+  toBigDecimal() {
+    return new GraphBigDecimal(`${this.data}`);
+  }
+
+  toBytes() {
+    return Bytes.fromHexString(`${this.data}`);
+  }
+
+  toAddress() {
+    return Address.fromString(`${this.data}`);
+  }
+
+  toArray() {
+    return ((this.data as unknown[]) || []).map((item) => Value.fromRaw(item));
+  }
+
+  toStringArray() {
+    return this.toArray().map((value) => value.toString());
+  }
+
+  toI32Array() {
+    return this.toArray().map((value) => value.toI32());
+  }
+
+  toBooleanArray() {
+    return this.toArray().map((value) => value.toBoolean());
+  }
+
+  toBigIntArray() {
+    return this.toArray().map((value) => value.toBigInt());
+  }
+
+  toBigDecimalArray() {
+    return this.toArray().map((value) => value.toBigDecimal());
+  }
+
+  toBytesArray() {
+    return this.toArray().map((value) => value.toBytes());
+  }
+}
+
+// infer the kind of a raw value (strings might hold BigInts/Bytes but we can only know that on read)
+const toKind = (data: unknown) => {
+  // eslint-disable-next-line no-underscore-dangle
+  if ((data as { _isBigNumber: boolean })?._isBigNumber)
+    return ValueKind.BIGINT;
+  if (data instanceof GraphBigInt) return ValueKind.BIGINT;
+  if (data instanceof GraphBigDecimal) return ValueKind.BIGDECIMAL;
+  if (data instanceof Uint8Array) return ValueKind.BYTES;
+  if (typeof data === "number") return ValueKind.INT;
+  if (typeof data === "boolean") return ValueKind.BOOL;
+
+  return ValueKind.STRING;
+};
+
+// convert class instances to the form they're stored in
+const serialise = (data: unknown) => {
+  if (data instanceof Uint8Array)
+    return Bytes.fromUint8Array(data).toHexString();
+  if (
+    // eslint-disable-next-line no-underscore-dangle
+    (data as { _isBigNumber: boolean })?._isBigNumber ||
+    data instanceof GraphBigInt ||
+    data instanceof GraphBigDecimal
+  ) {
+    return data.toString();
+  }
+
+  return data;
+};
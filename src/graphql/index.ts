@@ -18,6 +18,7 @@ import { toCamelCase } from "../utils/toCamelCase";
 import { createDefs, readSchema } from "./schema";
 import {
   caseInsensitiveMatch,
+  createMetaQuery,
   createMultiQuery,
   createSingularQuery,
   tidyDefaultQuery,
@@ -41,8 +42,11 @@ import { renderGraphiQL } from "./graphiql";
 // Mongo helpers
 export { createQuery, unwindResult } from "./mongo";
 
-// Export default resolvers for mongo/in-memory(tmp) db stores
-export { mongoResolver, memoryResolver } from "./resolvers";
+// Postgres helpers
+export { createSqlQuery } from "./postgres";
+
+// Export default resolvers for mongo/postgres/in-memory(tmp) db stores
+export { mongoResolver, postgresResolver, memoryResolver } from "./resolvers";
 
 // Opeartion enum
 export { Operation } from "./types";
@@ -184,7 +188,15 @@ export const createSupagraph = <
         BigDecimal: GraphQLBigDecimal,
         Timestamp: GraphQLTimestamp,
         Query: {
-          _meta: () => ({}),
+          // expose the sync state recorded by the sync engine (resolved alongside the entities)
+          _meta: createMetaQuery(async () => {
+            // make sure the entities have been resolved
+            await promisedEntities();
+
+            // __meta__ isn't part of the schema so we take it directly from the resolution
+            return (entities as Entities & { __resolved: Awaited<Entities> })
+              .__resolved.__meta__;
+          }, name),
           ...Object.keys(parsedSchema)
             .filter((entity) => {
               return (
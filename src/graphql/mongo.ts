@@ -58,6 +58,20 @@ export interface FieldsProjection {
   [name: string]: 1;
 }
 
+// Block height to resolve immutable entities at (time-travel queries)
+export type BlockHeight = {
+  number?: number;
+  chainId?: number;
+  timestamp?: number;
+};
+
+// Constraints on the latest state a query resolves (these are checked against the synced blocks rather than time-travelled to)
+export type BlockConstraint = {
+  number_gte?: number;
+  hash?: string;
+  chainId?: number;
+};
+
 // Type definitions for MapResult and MapResultKey
 export type MapResult = { [key: string]: MapResultKey };
 export type MapResultKey = false | MapResult;
@@ -260,7 +274,7 @@ function getArgs(
 }
 
 // Generate a map of the selected fields from GraphQLResolveInfo
-function fieldsMap(
+export function fieldsMap(
   info: GraphQLResolveInfo,
   options?: FieldsListOptions
 ): MapResult {
@@ -297,7 +311,7 @@ function fieldsMap(
 }
 
 // Create a list of the selected fields from GraphQLResolveInfo
-function fieldsList(
+export function fieldsList(
   info: GraphQLResolveInfo,
   options: FieldsListOptions = {}
 ): string[] {
@@ -314,7 +328,7 @@ function fieldsList(
 }
 
 // Create a list of the selected args from GraphQLResolveInfo
-function fieldsArgs(
+export function fieldsArgs(
   info: GraphQLResolveInfo,
   options: FieldsListOptions = {}
 ): Record<string, any> {
@@ -339,7 +353,11 @@ function fieldsArgs(
 }
 
 // Extract values with either are or are not entities
-function getValues(schema: SimpleSchema, entity: string, matches = true) {
+export function getValues(
+  schema: SimpleSchema,
+  entity: string,
+  matches = true
+) {
   return (
     (schema[entity] as Key[])?.filter((vals) => {
       return vals.type && (VALUE_TYPES.indexOf(vals.type) === -1) !== matches;
@@ -637,7 +655,7 @@ function generateMongoFilter(filter: GraphqlFilter): Record<string, any> {
 }
 
 // Collate all args for all conditions in the ast marked against this entity - mutate useArgStore as a side-effect to allow lookbehinds
-function collateWheres(
+export function collateWheres(
   schema: SimpleSchema,
   entity: string,
   ast: any,
@@ -783,6 +801,102 @@ function createArgs(args: Record<string, any>) {
   };
 }
 
+// Extract the block height from the args.block arg (unwrapping any variables)
+export function getBlock(args: Record<string, any>): BlockHeight | undefined {
+  // collect each of the given props as numbers
+  const height = getBlockArgs(args, ["number", "chainId", "timestamp"]);
+
+  // the chainId only scopes the block number
+  return height &&
+    (height.number !== undefined || height.timestamp !== undefined)
+    ? height
+    : undefined;
+}
+
+// Extract the constraints on the latest block from the args.block arg (unwrapping any variables)
+export function getBlockConstraint(
+  args: Record<string, any>
+): BlockConstraint | undefined {
+  const constraint = getBlockArgs(args, ["number_gte", "chainId"], ["hash"]);
+
+  // the chainId only scopes the constraints
+  return constraint && (constraint.number_gte !== undefined || constraint.hash)
+    ? constraint
+    : undefined;
+}
+
+// Collect the given props from the args.block arg (numbers are parsed and strings are taken as is)
+function getBlockArgs(
+  args: Record<string, any>,
+  numbers: string[],
+  strings: string[] = []
+) {
+  // variables will have been placed as a [{$toString}, value] pair
+  const block = Array.isArray(args?.block) ? args.block[1] : args?.block;
+
+  // collect each of the given props
+  const props = [...numbers, ...strings].reduce((carr, key) => {
+    // nested variables will also be placed as a pair
+    const value = Array.isArray(block?.[key]) ? block[key][1] : block?.[key];
+
+    return value !== undefined && value !== null
+      ? {
+          ...carr,
+          [key]: strings.includes(key) ? `${value}` : parseInt(`${value}`, 10),
+        }
+      : carr;
+  }, {} as Record<string, any>);
+
+  // only return the props if something was set
+  return block && typeof block === "object" && Object.keys(props).length
+    ? props
+    : undefined;
+}
+
+// Construct the stages to select the latest entry for each id at the given block height (from the full history)
+function createHistory(block: BlockHeight) {
+  return [
+    // only include entries written at or before the block
+    {
+      $match: {
+        // block numbers only bound the given chain (entities from other chains are left at their latest entry)
+        ...(block.number !== undefined && block.chainId !== undefined
+          ? {
+              $or: [
+                { _chain_id: { $ne: block.chainId } },
+                { _block_num: { $lte: block.number } },
+              ],
+            }
+          : {}),
+        ...(block.number !== undefined && block.chainId === undefined
+          ? { _block_num: { $lte: block.number } }
+          : {}),
+        ...(block.timestamp !== undefined
+          ? { _block_ts: { $lte: block.timestamp } }
+          : {}),
+      },
+    },
+    // sort so that the most recent entry is first
+    {
+      $sort: {
+        _block_ts: -1,
+      },
+    },
+    // take the first entry for each id
+    {
+      $group: {
+        _id: "$id",
+        latestDocument: {
+          $first: "$$ROOT",
+        },
+      },
+    },
+    {
+      $replaceRoot: { newRoot: "$latestDocument" },
+    },
+  ];
+}
+
 // Produce a lookup aggregate stage for each nested entity in a query
 function createLookup(
   schema: SimpleSchema,
@@ -791,7 +905,8 @@ function createLookup(
   ast: any,
   context: Record<string, Record<string, unknown>>,
   map: MapResult,
-  useArgStore: Record<string, unknown> = {}
+  useArgStore: Record<string, unknown> = {},
+  useBlock?: BlockHeight
 ) {
   // return a map to return a lookup filter
   return (vals: Key): Record<string, any> => {
@@ -803,7 +918,8 @@ function createLookup(
       $lookup: {
         from:
           toCamelCase(vals.type.replace(/\[|\]|!/g, "")) +
-          (!mutable ? "_snapshot" : ""),
+          // when time-travelling we need to read from the full history
+          (!mutable && !useBlock ? "_snapshot" : ""),
         // supply the outer join field to the lookup pipeline
         let: {
           joinOn:
@@ -847,7 +963,9 @@ function createLookup(
             // use the store at the given position (I think)
             useArgStore,
             // pass derivedFrom field to add to projection for immutable projections
-            vals.derivedFrom
+            vals.derivedFrom,
+            // resolve the joined entities at the same block
+            useBlock
           ),
         ].filter((v) => v),
         // use the path of the current reference to id the position
@@ -1133,7 +1251,8 @@ export function createQuery(
   useMap?: MapResult,
   useMatch?: { $match: { $expr: { $eq: string[] } } },
   useArgStore: Record<string, unknown> = {},
-  extraProjection: string | false = false
+  extraProjection: string | false = false,
+  useBlock?: BlockHeight
 ) {
   // variables need to be injected into queries
   const { variables } = context.params as Record<
@@ -1169,6 +1288,15 @@ export function createQuery(
     useArgStore
   );
 
+  // the block given at the root of the query applies to every join
+  const block = useBlock || getBlock(args);
+
+  // immutable entities can be resolved at any block by reading the latest entry at that height from the full history
+  const history = !mutable && block ? createHistory(block) : [];
+
+  // joins on id can be matched before the history is grouped (every entry in the group shares the id)
+  const isIdMatch = useMatch?.$match?.$expr?.$eq?.[0] === "$id";
+
   // construct filter
   const filter = [
     args?.where
@@ -1208,7 +1336,15 @@ export function createQuery(
   aggregates.push(
     ...([
       // perform the match before the sort and groupBy to limit matches
-      useMatch?.$match
+      useMatch?.$match && (!history.length || isIdMatch)
+        ? {
+            $match: useMatch?.$match,
+          }
+        : false,
+      // select the state of each entity at the given block
+      ...history,
+      // other joins can only be matched against the state at the block
+      useMatch?.$match && history.length && !isIdMatch
         ? {
             $match: useMatch?.$match,
           }
@@ -1241,7 +1377,9 @@ export function createQuery(
             context,
             map,
             // any arguments defined in this object relate to args on this entity
-            (useArgStore[toCamelCase(entity)] || {}) as Record<string, unknown>
+            (useArgStore[toCamelCase(entity)] || {}) as Record<string, unknown>,
+            // pass the block through to the joins
+            block
           )
         ),
       // this means we're querying based on a nested match
@@ -1329,8 +1467,8 @@ export function unwindResult(
           // check for derived fields to switch between selecting single entries or collections
           ...(((entityField?.type.indexOf("[") === -1 && {
             [key]:
-              typeof rootEntity[key] === "object"
-                ? rootEntity[key][0].id
+              rootEntity[key] && typeof rootEntity[key] === "object"
+                ? rootEntity[key][0]?.id
                 : rootEntity[key],
           }) ||
             // if we're working a value we place it at key
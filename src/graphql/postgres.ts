@@ -0,0 +1,465 @@
+// General supagraph typings and constants
+import { Key, SimpleSchema } from "./types";
+
+// We want to control the casing of the entities as we collect them
+import { toCamelCase } from "../utils/toCamelCase";
+
+// Reuse the ast walkers from the mongo query builder (the ast is the same regardless of the db)
+import {
+  MapResult,
+  BlockHeight,
+  getBlock,
+  fieldsMap,
+  fieldsArgs,
+  fieldsList,
+  getValues,
+  collateWheres,
+  regexFlagsMap,
+  graphqlToMongoOperatorMap,
+} from "./mongo";
+
+// Interface for a parameterised query (this can be passed straight to pg's client.query)
+export interface SqlQuery {
+  text: string;
+  values: unknown[];
+}
+
+// Options carried through every level of the query
+interface SqlQueryOptions {
+  schema: SimpleSchema;
+  mutable: boolean;
+  ast: any;
+  map: MapResult;
+  name: string;
+  variables: Record<string, unknown>;
+  values: unknown[];
+  tables?: string[];
+  block?: BlockHeight;
+}
+
+// Map of the comparison operators which we apply numerically on numeric-like values
+const comparisonOperatorMap: Record<string, string> = {
+  _gt: ">",
+  _gte: ">=",
+  _lt: "<",
+  _lte: "<=",
+};
+
+// Match against the longest operator first so that eg. `_not_in` isn't read as `_in`
+const OPERATORS = Object.keys(graphqlToMongoOperatorMap).sort(
+  (a, b) => b.length - a.length
+);
+
+// Numeric-like strings are compared as numbers (this matches mongos numericOrdering collation)
+const NUMERIC_REGEXP = /^-?[0-9]+(\.[0-9]+)?$/;
+
+// Select nothing when the entity has not been written to yet
+const EMPTY_SOURCE = "(SELECT NULL::jsonb AS data WHERE false)";
+
+// Quote an identifier (schema/table names)
+export const quote = (identifier: string) =>
+  `"${identifier.replace(/"/g, '""')}"`;
+
+// Quote a string literal (field names)
+const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+// Push the value into the values array and return its placeholder
+const placeholder = (values: unknown[], value: unknown) =>
+  `$${values.push(value)}`;
+
+// getArgs wraps string/variable values in a [{$toString}, value] pair - extract the value
+const unwrap = (value: unknown) =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  (value[0] as { $toString?: string })?.$toString
+    ? value[1]
+    : value;
+
+// Check if we're holding a nested entity filter
+const isNested = (value: unknown) =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Cast numeric-like text values to numeric (everything else is null)
+const numeric = (text: string) =>
+  `(CASE WHEN ${text} ~ '^-?[0-9]+([.][0-9]+)?$' THEN (${text})::numeric END)`;
+
+// Select the array held at the field (or an empty array if the field holds anything else)
+const elements = (expr: string, field: string) =>
+  `(CASE WHEN jsonb_typeof(${expr}->${literal(
+    field
+  )}) = 'array' THEN ${expr}->${literal(field)} ELSE '[]'::jsonb END)`;
+
+// Select the latest document for each id from the entities table
+function createSource(
+  entity: string,
+  { name, mutable, tables, block, values }: SqlQueryOptions
+) {
+  // tables are named by the camelCased entity name
+  const table = toCamelCase(entity);
+
+  // if the table hasn't been created yet then there is nothing to select
+  if (tables && tables.indexOf(table) === -1) {
+    return EMPTY_SOURCE;
+  }
+
+  // fully qualified table name
+  const from = `${quote(name)}.${quote(table)}`;
+
+  // when time-travelling only include entries written at or before the block
+  const conditions = [
+    // block numbers only bound the given chain (entities from other chains are left at their latest entry)
+    block?.number !== undefined &&
+      (block.chainId !== undefined
+        ? `(_chain_id <> ${placeholder(
+            values,
+            block.chainId
+          )} OR _block_num <= ${placeholder(values, block.number)})`
+        : `_block_num <= ${placeholder(values, block.number)}`),
+    block?.timestamp !== undefined &&
+      `_block_ts <= ${placeholder(values, block.timestamp)}`,
+  ].filter((condition) => condition);
+
+  // immutable tables hold an entry for every block - take the most recent for each id
+  return mutable
+    ? from
+    : `(SELECT DISTINCT ON (id) data FROM ${from}${
+        conditions.length ? ` WHERE ${conditions.join(" AND ")}` : ""
+      } ORDER BY id, _block_ts DESC)`;
+}
+
+// Create a single condition from a graphql where key
+function createCondition(
+  text: string,
+  operator: string,
+  value: unknown,
+  values: unknown[]
+) {
+  // comparisons against numeric-like values are made numerically
+  if (comparisonOperatorMap[operator]) {
+    return NUMERIC_REGEXP.test(`${value}`)
+      ? `${numeric(text)} ${comparisonOperatorMap[operator]} ${placeholder(
+          values,
+          `${value}`
+        )}::numeric`
+      : `${text} ${comparisonOperatorMap[operator]} ${placeholder(
+          values,
+          `${value}`
+        )}`;
+  }
+  // match any of the given values
+  if (operator === "_in" || operator === "_not_in") {
+    const match = `${text} = ANY(${placeholder(
+      values,
+      ((value as unknown[]) || []).map((val) => `${val}`)
+    )}::text[])`;
+
+    return operator === "_in" ? match : `(${match}) IS NOT TRUE`;
+  }
+  // string filters are applied as regular expressions (as they are in mongo)
+  if (["$regex", "$not"].indexOf(graphqlToMongoOperatorMap[operator]) !== -1) {
+    // transform the value into a pattern
+    const pattern =
+      (operator.indexOf("starts_with") !== -1 ? "^" : "") +
+      value +
+      (operator.indexOf("ends_with") !== -1 ? "$" : "");
+
+    return `${text} ${operator.indexOf("_not_") === 0 ? "!~" : "~"}${
+      regexFlagsMap[operator] ? "*" : ""
+    } ${placeholder(values, pattern)}`;
+  }
+  // null checks
+  if (value === null || value === undefined) {
+    return `${text} ${operator === "_not" ? "IS NOT NULL" : "IS NULL"}`;
+  }
+
+  // straight (in)equality check
+  return `${text} ${
+    operator === "_not" ? "IS DISTINCT FROM" : "="
+  } ${placeholder(values, `${value}`)}`;
+}
+
+// Create the conditions for a set of args.where against the document held in expr
+function createConditions(
+  schema: SimpleSchema,
+  entity: string,
+  expr: string,
+  where: Record<string, unknown>,
+  values: unknown[],
+  depth = 0
+): string[] {
+  // use the fields to guide what can be referenced as an entity
+  const entityFields = getValues(schema, entity, false) || [];
+
+  return Object.keys(where || {}).reduce((conditions, key) => {
+    // extract the value from the arg
+    const value = unwrap(where[key]);
+
+    // nested filters are applied against the joined entities (allowing for subgraph style `field_` keys)
+    if (isNested(value)) {
+      // find the field we're filtering on
+      const field = entityFields.find(
+        (vals) => vals.name === key.replace(/_$/, "")
+      );
+      // alias to hold each joined document
+      const alias = `e${depth}`;
+
+      return field
+        ? [
+            ...conditions,
+            `EXISTS (SELECT 1 FROM jsonb_array_elements(${elements(
+              expr,
+              field.name
+            )}) AS ${alias}(doc) WHERE ${
+              createConditions(
+                schema,
+                field.type.replace(/\[|\]|!/g, ""),
+                `${alias}.doc`,
+                value as Record<string, unknown>,
+                values,
+                depth + 1
+              ).join(" AND ") || "true"
+            })`,
+          ]
+        : conditions;
+    }
+
+    // split the operator from the field name
+    const operator =
+      OPERATORS.find((op) => key.length > op.length && key.endsWith(op)) || "";
+
+    return [
+      ...conditions,
+      createCondition(
+        `${expr}->>${literal(key.slice(0, key.length - operator.length))}`,
+        operator,
+        value,
+        values
+      ),
+    ];
+  }, [] as string[]);
+}
+
+// Create the order clause for the document held in expr
+function createOrder(expr: string, args: Record<string, any>) {
+  // use given sort and direction or default to id (to keep it consistent)
+  const text = `${expr}->>${literal(unwrap(args?.orderBy) || "id")}`;
+  const direction = args?.orderDirection === "desc" ? "DESC" : "ASC";
+
+  // sort numerically first then by text
+  return `ORDER BY ${numeric(text)} ${direction}, ${text} ${direction}`;
+}
+
+// Create the pagination offsets and limits
+function createPaging(args: Record<string, any>) {
+  return `LIMIT ${Math.min(
+    500,
+    parseInt(unwrap(args?.first) || "25", 10) || 25
+  )} OFFSET ${parseInt(unwrap(args?.skip) || "0", 10) || 0}`;
+}
+
+// Create the condition to join the child document to its parent
+function createJoin(parent: string, vals: Key, child: string) {
+  // single entities are joined on the id held in the parents field
+  if (vals.type[0] !== "[") {
+    return `${child}->>'id' = ${parent}->>${literal(vals.name)}`;
+  }
+  // derived collections are joined on the parents id
+  if (vals.derivedFrom) {
+    return `${child}->>${literal(vals.derivedFrom)} = ${parent}->>'id'`;
+  }
+
+  // collections of ids are joined on each of the parents ids
+  return `${child}->>'id' IN (SELECT jsonb_array_elements_text(${elements(
+    parent,
+    vals.name
+  )}))`;
+}
+
+// Construct the select for the entity at the given path (recursively selecting every joined entity)
+function createSelect(
+  entity: string,
+  options: SqlQueryOptions,
+  depth: number,
+  usePath?: string,
+  useJoin?: string,
+  useArgStore: Record<string, unknown> = {}
+): string {
+  const { schema, ast, map, variables, values } = options;
+
+  // aliases for this level (these must be unique along every path of the query)
+  const table = `t${depth}`;
+  const row = `r${depth}`;
+  const doc = `d${depth}`;
+
+  // extract top-level args/fields from map
+  const args = fieldsArgs(ast, { map, path: usePath, variables });
+  const fields = fieldsList(ast, { map, path: usePath, variables });
+
+  // extract the entity fields
+  const entityFields = getValues(schema, entity, false) || [];
+
+  // extract any additional fields defined in the args.where that might not be defined in the response query
+  const argFields = collateWheres(
+    schema,
+    entity,
+    ast,
+    usePath,
+    map,
+    useArgStore
+  );
+
+  // split the wheres that can be applied directly to the table from those that need the joins
+  const where = (args?.where || {}) as Record<string, unknown>;
+  const nestedWhere = Object.keys(where).reduce(
+    (carr, key) =>
+      isNested(unwrap(where[key])) ? { ...carr, [key]: where[key] } : carr,
+    {} as Record<string, unknown>
+  );
+  const tableWhere = Object.keys(where).reduce(
+    (carr, key) =>
+      !isNested(unwrap(where[key])) ? { ...carr, [key]: where[key] } : carr,
+    {} as Record<string, unknown>
+  );
+
+  // if we're filtering on the joins then we can only paginate after the joins are made
+  const isFiltered = Object.keys(nestedWhere).length > 0;
+
+  // collect all conditions that can be applied directly to the table
+  const conditions = [
+    useJoin,
+    ...createConditions(schema, entity, `${table}.data`, tableWhere, values),
+    args?.id
+      ? `${table}.data->>'id' = ${placeholder(values, `${unwrap(args.id)}`)}`
+      : false,
+  ].filter((condition) => condition);
+
+  // for each entity on the query we need to create a join...
+  const joins = Array.from(new Set([...entityFields, ...argFields]))
+    // exclude any fields not mentioned in the query
+    .filter(
+      (v) => v && (fields.indexOf(v.name) !== -1 || argFields.indexOf(v) !== -1)
+    )
+    // aggregate the joined documents into an array placed at the fields name
+    .map((vals) => {
+      // dot-delim path of the joined entity
+      const path = usePath ? `${usePath}.${vals.name}` : vals.name;
+      // alias for the joined documents
+      const joined = `c${depth + 1}`;
+
+      return `${literal(
+        vals.name
+      )}, COALESCE((SELECT jsonb_agg(${joined}.doc) FROM (${createSelect(
+        vals.type.replace(/\[|\]|!/g, ""),
+        options,
+        depth + 1,
+        path,
+        createJoin(`${row}.data`, vals, `t${depth + 1}.data`),
+        (useArgStore[toCamelCase(entity)] || {}) as Record<string, unknown>
+      )}) ${joined}), ${
+        // leave the original value in place if we fail to join a single entity
+        vals.type[0] === "["
+          ? "'[]'::jsonb"
+          : `${row}.data->${literal(vals.name)}`
+      })`;
+    });
+
+  // select the documents from the table (paginating here if we can)
+  const select = `SELECT ${table}.data FROM ${createSource(
+    entity,
+    options
+  )} ${table}${conditions.length ? ` WHERE ${conditions.join(" AND ")}` : ""}${
+    !isFiltered
+      ? ` ${createOrder(`${table}.data`, args)} ${createPaging(args)}`
+      : ""
+  }`;
+
+  // place the joined entities into the documents
+  const joinSelect = `SELECT ${
+    joins.length
+      ? `${row}.data || jsonb_build_object(${joins.join(", ")})`
+      : `${row}.data`
+  } AS doc FROM (${select}) ${row}`;
+
+  // apply the nested filters and always order the final result
+  return `SELECT ${doc}.doc FROM (${joinSelect}) ${doc}${
+    isFiltered
+      ? ` WHERE ${createConditions(
+          schema,
+          entity,
+          `${doc}.doc`,
+          nestedWhere,
+          values
+        ).join(" AND ")}`
+      : ""
+  } ${createOrder(`${doc}.doc`, args)}${
+    isFiltered ? ` ${createPaging(args)}` : ""
+  }`;
+}
+
+// Construct the sql query that will pull all documents to fulfill the graphql query
+export function createSqlQuery(
+  schema: SimpleSchema,
+  entity: string,
+  mutable: boolean,
+  ast: any,
+  context: Record<string, Record<string, unknown>>,
+  name = "supagraph",
+  tables?: string[]
+): SqlQuery {
+  // variables need to be injected into queries
+  const { variables } = (context.params || {}) as {
+    variables?: Record<string, unknown>;
+  };
+
+  // collect every value as a param
+  const values: unknown[] = [];
+
+  // should be indexed in the schema - we can use this to guide the query joins
+  const map = fieldsMap(ast, {
+    variables,
+  });
+
+  // walk the ast from the root entity
+  const text = createSelect(
+    entity,
+    {
+      schema,
+      mutable,
+      ast,
+      map,
+      name,
+      variables,
+      values,
+      tables,
+      // the block given at the root of the query applies to every join
+      block: getBlock(fieldsArgs(ast, { map, variables })),
+    },
+    0
+  );
+
+  // each row holds a single doc - these need to be ran through unwindResult
+  return {
+    text,
+    values,
+  };
+}
+
+// Create the indexes for every field we might filter/join on
+export function createSqlIndexes(
+  schema: SimpleSchema,
+  entity: string,
+  name = "supagraph"
+) {
+  // fully qualified table name
+  const table = toCamelCase(entity);
+
+  // index every non-derived field on the entity
+  return ((schema[entity] as Key[]) || [])
+    .filter((key) => !key.derivedFrom && key.type[0] !== "[")
+    .map(
+      (key) =>
+        `CREATE INDEX IF NOT EXISTS ${quote(`${table}_${key.name}`)} ON ${quote(
+          name
+        )}.${quote(table)} ((data->>${literal(key.name)}))`
+    );
+}
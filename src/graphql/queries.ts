@@ -181,6 +181,8 @@ export const createMultiQuery = (
                     {
                       id: clone[key_.name] as string,
                       where: where as WhereInterface,
+                      // resolve the joined entity at the same block
+                      block: args.block,
                     },
                     context,
                     ast
@@ -192,7 +194,7 @@ export const createMultiQuery = (
                 // resolve children
                 clone[key_.name] = (await query(
                   clone,
-                  { where: where as Where },
+                  { where: where as Where, block: args.block },
                   context,
                   ast
                 )) as unknown as Record<string, unknown>[];
@@ -298,6 +300,80 @@ export const createMultiQuery = (
   };
 };
 
+// the sync state of a single chain (as recorded by the sync engine in __meta__)
+type MetaBlock = {
+  chainId: number;
+  number: number;
+  hash: string | null;
+  timestamp: number | null;
+  parentHash: string | null;
+};
+
+// for the MetaQuery we expose the sync state recorded against each chain in the __meta__ entities
+export const createMetaQuery = (
+  meta_: () => unknown | Promise<unknown>,
+  name?: string
+) => {
+  // return a runtime resolver to build the _meta response (matching graph-nodes _meta shape)
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  return async (_parent: EntityRecord, args: Args) => {
+    // resolve the meta entries (these might be given as a function/promise like any other entity)
+    let from = await Promise.resolve(meta_());
+
+    // use a function call to get the entries
+    if (typeof from === "function") {
+      from = await Promise.resolve(from());
+    }
+
+    // resolve any indexed entries
+    const entries = (
+      Array.isArray(from) ? from : Object.values(from || {})
+    ) as Record<string, unknown>[];
+
+    // only the entries keyed by chainId hold sync pointers (the rest hold index/snapshot markers)
+    const chains = entries.filter(
+      (entry) =>
+        entry &&
+        /^\d+$/.test(`${entry.id}`) &&
+        typeof entry.latestBlock !== "undefined"
+    );
+
+    // construct a block for each chain
+    const blocks: MetaBlock[] = chains
+      .map((entry) => ({
+        chainId: +(entry.id as string),
+        number: +(entry.latestBlock as number) || 0,
+        hash: (entry.latestBlockHash as string) || null,
+        timestamp: +(entry.latestBlockTime as number) || null,
+        // we don't record the parentHash of the latest block
+        parentHash: null,
+      }))
+      .sort((a, b) => a.chainId - b.chainId);
+
+    // report against the requested chain or against the chain which is furthest behind
+    const block =
+      (typeof args?.block?.chainId !== "undefined"
+        ? blocks.find(({ chainId }) => chainId === +args.block.chainId)
+        : [...blocks].sort(
+            (a, b) => (a.timestamp || a.number) - (b.timestamp || b.number)
+          )[0]) ||
+      ({
+        number: 0,
+        hash: null,
+        timestamp: null,
+        parentHash: null,
+      } as MetaBlock);
+
+    return {
+      block,
+      blocks,
+      deployment: name || "supagraph",
+      hasIndexingErrors: chains.some((entry) => !!entry.hasIndexingErrors),
+      locked: chains.some((entry) => !!entry.locked),
+    };
+  };
+};
+
 // tidy up a query
 export const tidyDefaultQuery = (query: string) => {
   // want to remove some leading whitespace
@@ -1,4 +1,6 @@
-import { MongoClient } from "mongodb";
+import { Db, MongoClient } from "mongodb";
+import type { Pool } from "pg";
+import { GraphQLError } from "graphql";
 
 import {
   Args,
@@ -16,7 +18,13 @@ import {
   createQuery,
   unwindResult,
   createMaterialisedViews,
+  fieldsArgs,
+  getBlock,
+  getBlockConstraint,
+  BlockHeight,
+  BlockConstraint,
 } from "./mongo";
+import { createSqlQuery, createSqlIndexes, quote } from "./postgres";
 
 // Filter key content to only the named fields (no plural field information)
 export const filteredKeys = (schema: SimpleSchema) => {
@@ -28,7 +36,30 @@ export const filteredKeys = (schema: SimpleSchema) => {
 };
 
 // this resolver hooks directly into the DB to expose entities as raw arrays of objects
-export const memoryResolver = async ({ name }: { name: string }) => {
+export const memoryResolver = async ({
+  name,
+  db: useDb,
+}: {
+  name: string;
+  db?: DB | Promise<DB>;
+}) => {
+  // when given a db (ie. SQLite) we query it directly for every request (entities are read on demand)
+  if (useDb) {
+    // resolve the db connection
+    const store = await useDb;
+    // return a proxy to expose the resolver for any request
+    return new Proxy({} as Record<string, unknown>, {
+      get: async (target, key) => {
+        // promise methods pass straight through
+        if (key === "then" || key === "catch" || key === "finally") {
+          return target[key];
+        }
+
+        // get the latest state of every entry of the entity (missing entities resolve empty)
+        return () => store.get(toCamelCase(key as string)).catch(() => []);
+      },
+    }) as Entities;
+  }
   // create a new db connection
   const db = await DB.create({ kv: {}, name });
   // extract the kv store as entities
@@ -103,6 +134,70 @@ export async function mongoIndexer({
   );
 }
 
+// Check the block can be resolved against the synced chains (block numbers can only be compared on a single chain - when more than one chain is synced the block must name its chainId)
+async function checkBlockHeight(
+  block: BlockHeight | false | undefined,
+  constraint: BlockConstraint | undefined,
+  getChains: () => Promise<Record<string, unknown>[]>
+) {
+  // only fetch the chains once (ignoring any entries which don't hold a sync pointer)
+  const chains = (block || constraint ? await getChains() : []).filter(
+    ({ latestBlock }) => latestBlock !== undefined
+  );
+
+  if (
+    ((block && block.number !== undefined) ||
+      constraint?.number_gte !== undefined) &&
+    (block || constraint).chainId === undefined &&
+    chains.length > 1
+  ) {
+    // surface the message to the client (plain errors are masked)
+    throw new GraphQLError(
+      "A chainId must be given with the block number when more than one chain is synced"
+    );
+  }
+
+  // the latest state can only be resolved once the chain has been synced up to the requested block
+  if (constraint?.number_gte !== undefined) {
+    const chain = chains.find(
+      ({ id }) => constraint.chainId === undefined || +id === constraint.chainId
+    );
+    const latestBlock = (chain && +chain.latestBlock) || 0;
+
+    if (latestBlock < constraint.number_gte) {
+      throw new GraphQLError(
+        `Chain ${
+          chain?.id ?? constraint.chainId
+        } has only been synced up to block number ${latestBlock} and data for block number ${
+          constraint.number_gte
+        } is therefore not yet available`
+      );
+    }
+  }
+
+  // we don't record the hash of every block, so only the latest block synced on a chain can be resolved by hash (and that is the latest state)
+  if (
+    constraint?.hash &&
+    !chains.some(
+      ({ id, latestBlockHash }) =>
+        (constraint.chainId === undefined || +id === constraint.chainId) &&
+        `${latestBlockHash}`.toLowerCase() === constraint.hash.toLowerCase()
+    )
+  ) {
+    throw new GraphQLError(
+      `Block hash ${constraint.hash} can't be resolved - only the latest block synced on each chain can be queried by hash (query by number and chainId instead)`
+    );
+  }
+}
+
+// Fetch the sync pointers for each chain (ignoring the index and snapshot markers)
+async function mongoMeta(mongo: Db) {
+  return mongo
+    .collection("__meta__")
+    .find({ latestBlock: { $exists: true } })
+    .toArray();
+}
+
 // Construct mongo resolver by connecting to db and constructing queries from the graphql ast on-the-fly
 export function mongoResolver({
   name,
@@ -122,7 +217,7 @@ export function mongoResolver({
     await mongoIndexer({ name, client, schema });
 
     // map the schema entities to a resolver function to pull the full query from mongodb
-    return filteredKeys(schema).reduce((carr, entity) => {
+    const resolvers = filteredKeys(schema).reduce((carr, entity) => {
       // define a resolver for this entity
       const resolver = async (
         _key: Key,
@@ -134,13 +229,20 @@ export function mongoResolver({
         // console.log("doing entity", entity, context?.result);
         // no result means we're on the root leaf of the query, extract all intel from the AST and query mongo for everything all-at-once...
         if (!context?.result) {
-          // if we have a prequery then it now to construct views
-          const prequery = createMaterialisedViews(
-            schema,
-            entity,
-            mutable,
-            ast
+          // extract the root args
+          const args = fieldsArgs(ast, {
+            variables: context.params?.variables,
+          });
+          // when a block is given we read immutable entities from their full history rather than the snapshot
+          const block = !mutable && getBlock(args);
+          // make sure the block is on a single chain before we time-travel (and that the latest state satisfies any constraints)
+          await checkBlockHeight(block, getBlockConstraint(args), () =>
+            mongoMeta(mongo)
           );
+          // if we have a prequery then it now to construct views
+          const prequery = block
+            ? {}
+            : createMaterialisedViews(schema, entity, mutable, ast);
           // run through any views that need to be created
           if (Object.values(prequery).length) {
             // pull the meta collection to look for our last snapshot entry
@@ -193,7 +295,7 @@ export function mongoResolver({
 
           // connect to the entity collection
           const collection = mongo.collection(
-            `${toCamelCase(entity)}${!mutable ? "_snapshot" : ""}`
+            `${toCamelCase(entity)}${!mutable && !block ? "_snapshot" : ""}`
           );
           // get the result from the complete query
           const result = collection.aggregate(query, {
@@ -230,5 +332,158 @@ export function mongoResolver({
         [entity]: resolver,
       };
     }, {} as Entities);
+
+    return {
+      ...resolvers,
+      // expose the sync pointers for _meta (ignoring the index and snapshot markers)
+      __meta__: async () => mongoMeta(mongo),
+    } as unknown as Entities;
+  };
+}
+
+// Fetch the names of all tables which have been created in the schema
+async function postgresTables(client: Pool, name: string) {
+  // the tables are created by the sync engine as entities are first written
+  const { rows } = await client.query<{ table_name: string }>(
+    "SELECT table_name FROM information_schema.tables WHERE table_schema = $1",
+    [name || "supagraph"]
+  );
+
+  return rows.map((row) => row.table_name);
+}
+
+// Fetch the sync pointers for each chain (the table is created on the first sync)
+async function postgresMeta(client: Pool, name: string) {
+  return (await postgresTables(client, name)).indexOf("__meta__") !== -1
+    ? (
+        await client.query<{ data: Record<string, unknown> }>(
+          `SELECT data FROM ${quote(name || "supagraph")}."__meta__"`
+        )
+      ).rows.map((row) => row.data)
+    : [];
+}
+
+// Create the index of every field of every entity according to the schema
+export async function postgresIndexer({
+  name,
+  client,
+  schema,
+}: {
+  name: string;
+  client: Pool | Promise<Pool>;
+  schema: SimpleSchema;
+}) {
+  // fetch the db connection
+  const pg = await client;
+  // we can only index tables that exist (missing tables will be indexed on the next revalidate)
+  const tables = await postgresTables(pg, name);
+
+  // save all indexes to db
+  return Promise.all(
+    filteredKeys(schema)
+      .filter((entity) => tables.indexOf(toCamelCase(entity)) !== -1)
+      .map(async (entity) => {
+        // create each index in turn (IF NOT EXISTS will skip any we already hold)
+        // eslint-disable-next-line no-restricted-syntax
+        for (const index of createSqlIndexes(
+          schema,
+          entity,
+          name || "supagraph"
+        )) {
+          // eslint-disable-next-line no-await-in-loop
+          await pg.query(index);
+        }
+        return entity;
+      })
+  );
+}
+
+// Construct postgres resolver by connecting to db and constructing a single sql query from the graphql ast on-the-fly
+export function postgresResolver({
+  name,
+  client,
+  mutable = false,
+}: {
+  name: string;
+  client: Pool | Promise<Pool>;
+  mutable?: boolean;
+}) {
+  // we return a schema resolver to map the entities against postgres resolvers (using the queries AST)
+  return async (schema: SimpleSchema) => {
+    // fetch the db connection
+    const pg = await client;
+
+    // store any changes in the schema against the index (this will be checked again after every build/compile in dev or after a revalidate)
+    await postgresIndexer({ name, client: pg, schema });
+
+    // map the schema entities to a resolver function to pull the full query from postgres
+    const resolvers = filteredKeys(schema).reduce((carr, entity) => {
+      // define a resolver for this entity
+      const resolver = async (
+        _key: Key,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        [_parent, _args, context, ast]: [EntityRecord, Args, any, any],
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        _operation: Operation
+      ) => {
+        // no result means we're on the root leaf of the query, extract all intel from the AST and query postgres for everything all-at-once...
+        if (!context?.result) {
+          // extract the root args
+          const args = fieldsArgs(ast, {
+            variables: context.params?.variables,
+          });
+          // make sure the block is on a single chain before we time-travel (and that the latest state satisfies any constraints)
+          await checkBlockHeight(
+            !mutable && getBlock(args),
+            getBlockConstraint(args),
+            () => postgresMeta(pg, name)
+          );
+          // we walk the AST through all args and all fields and recreate a sql query to request all the information required to satisfy the query the one request
+          const query = createSqlQuery(
+            schema,
+            entity,
+            mutable,
+            ast,
+            context,
+            name || "supagraph",
+            // entities which haven't been written yet will select from an empty set
+            await postgresTables(pg, name)
+          );
+
+          // get the result from the complete query
+          const { rows } = await pg.query<{ doc: Record<string, unknown> }>(
+            query.text,
+            query.values
+          );
+
+          // unwind the result (flatMap till we get all entries by collection name) and store the result into the context
+          // so that subsequent queries can pull from the already queried result
+          context.result = unwindResult(
+            schema,
+            entity,
+            rows.map((row) => row.doc)
+          );
+        }
+
+        // return every document of this entity type in the result (supagraph will post-filter to get to the correct result)
+        return context?.result[entity] || [];
+      };
+
+      // disable limits on this resolver (we won't make any skips in the set)
+      resolver.disableSkips = true;
+
+      // return a resolver to gather the entity from the full AST
+      return {
+        ...carr,
+        // set the postgres resolver for the entity...
+        [entity]: resolver,
+      };
+    }, {} as Entities);
+
+    return {
+      ...resolvers,
+      // expose the sync pointers for _meta (the table is created on the first sync)
+      __meta__: async () => postgresMeta(pg, name),
+    } as unknown as Entities;
   };
 }
@@ -182,18 +182,35 @@ export const createDefs = (_schema: SimpleSchema) => {
       desc
     }
   
-    ${
-      ``
-      // need to define block props here
+    # Block height to resolve immutable entities at (by number on chainId or by timestamp) or to check the latest state against (by hash or number_gte)
+    input Block_height {
+      # graph-node takes the hash as Bytes (as with entity fields, Bytes are given as Strings so the hash keeps its 0x prefix)
+      hash: String
+      number: Int
+      number_gte: Int
+      chainId: Int
+      timestamp: Int
+    }
+    # The latest block processed on a chain
+    type _Block_ {
+      chainId: Int
+      number: Int!
+      hash: String
+      timestamp: Int
+      parentHash: String
     }
-    # Meta information about the current block
-    type Meta {
-      info: String
+    # Meta information about the current sync state
+    type _Meta_ {
+      block: _Block_!
+      blocks: [_Block_!]!
+      deployment: String!
+      hasIndexingErrors: Boolean!
+      locked: Boolean!
     }
   
     # Define available queries (singular and multi based on the provided entity types)
     type Query {
-      _meta: Meta\n${Object.keys(_schema)
+      _meta(block: Block_height): _Meta_\n${Object.keys(_schema)
         .filter((entity) => {
           return (
             !entity.match(/-plural-form$/) && !entity.match(/-single-form$/)
@@ -209,9 +226,9 @@ export const createDefs = (_schema: SimpleSchema) => {
           );
 
           // construct each of the schema definitions
-          const singular = `${singleForm}(id: String!): ${entity}${`\n`}`;
-          const plural = `${pluralForm}(block: BigInt, first: Int, skip: Int, orderBy: ${entity}_orderBy, orderDirection: OrderDirection, where: ${entity}_filter): [${entity}]${`\n`}`;
-          const filter = `${entity}_filter(block: BigInt, first: Int, skip: Int, orderBy: ${entity}_orderBy, orderDirection: OrderDirection, where: ${entity}_filter): [${entity}]`;
+          const singular = `${singleForm}(id: String!, block: Block_height): ${entity}${`\n`}`;
+          const plural = `${pluralForm}(block: Block_height, first: Int, skip: Int, orderBy: ${entity}_orderBy, orderDirection: OrderDirection, where: ${entity}_filter): [${entity}]${`\n`}`;
+          const filter = `${entity}_filter(block: Block_height, first: Int, skip: Int, orderBy: ${entity}_orderBy, orderDirection: OrderDirection, where: ${entity}_filter): [${entity}]`;
 
           // these are deliberately spaced for formatting (contained within query (4 spaces deep))
           return `${``}    ${singular}    ${plural}    ${filter}`;
@@ -231,7 +248,7 @@ export const createDefs = (_schema: SimpleSchema) => {
           const children = (_schema[entity] as Key[]).reduce((res, child) => {
             const type = child.type.replace(/\[|\]|!/g, "");
             if (_schema[type] && child.type[0] === "[") {
-              return `${res}\n    ${child.name}(block: BigInt, first: Int, skip: Int, orderBy: ${type}_orderBy, orderDirection: OrderDirection, where: ${type}_filter): ${child.type}`;
+              return `${res}\n    ${child.name}(block: Block_height, first: Int, skip: Int, orderBy: ${type}_orderBy, orderDirection: OrderDirection, where: ${type}_filter): ${child.type}`;
             }
             if (_schema[type]) {
               return `${res}\n    ${child.name}(id: String): ${child.type}`;
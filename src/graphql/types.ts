@@ -17,6 +17,11 @@ export type EntityRecord = Record<
 
 export type Args = {
   id?: string;
+  block?: {
+    number?: number;
+    chainId?: number;
+    timestamp?: number;
+  };
   where?: Where;
   skip?: string;
   first?: string;
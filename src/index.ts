@@ -4,3 +4,7 @@ export * from "./sync";
 export * from "./graphql";
 // Export everything from ./utils
 export * from "./utils";
+// Export everything from ./codegen
+export * from "./codegen";
+// Export the graph-ts compatibility layer under graph
+export * as graph from "./compat";
@@ -5,13 +5,23 @@ import {
 } from "@ethersproject/abstract-provider";
 import { JsonRpcProvider, WebSocketProvider } from "@ethersproject/providers";
 import { ethers, providers } from "ethers";
+import { readFileSync } from "fs";
+import { resolve } from "path";
 import { getAddress } from "ethers/lib/utils";
 
 import { getEngine, Store } from "@/sync/tooling/persistence/store";
 import { getNewSyncEvents } from "@/sync/tooling/network/events";
 import { getProvider } from "@/sync/tooling/network/providers";
 
-import { Sync, HandlerFn, SyncConfig, Handlers, CronSchedule } from "./types";
+import {
+  Sync,
+  HandlerFn,
+  SyncConfig,
+  SyncCreates,
+  SyncFilter,
+  Handlers,
+  CronSchedule,
+} from "./types";
 
 // sync operations will be appended in the route.ts file using addSync
 export const syncs: Sync[] = [];
@@ -32,10 +42,17 @@ export async function addSync<T extends Record<string, unknown>>(
           mode?: string;
           collectBlocks?: boolean;
           collectTxReceipts?: boolean;
+          traceCalls?: boolean;
         };
         address?: string;
         events?: string | ethers.Contract["abi"];
+        creates?: SyncCreates[];
+        filters?: SyncFilter;
+        every?: number;
+        callFilter?: string[];
         against?: Sync[];
+        // set false to register without collecting the syncs events (the caller will collect them)
+        append?: boolean;
       },
   startBlock?: number | "latest",
   endBlock?: number | "latest",
@@ -47,6 +64,7 @@ export async function addSync<T extends Record<string, unknown>>(
     mode?: string;
     collectBlocks?: boolean;
     collectTxReceipts?: boolean;
+    traceCalls?: boolean;
   },
   address?: string,
   events?: string | ethers.Contract["abi"],
@@ -110,6 +128,10 @@ export async function addSync<T extends Record<string, unknown>>(
       },
       events: chainIdOrParams.events!,
       handlers: chainIdOrParams.handlers!,
+      creates: chainIdOrParams.creates,
+      filters: chainIdOrParams.filters,
+      every: chainIdOrParams.every,
+      callFilter: chainIdOrParams.callFilter,
       onEvent: chainIdOrParams.onEvent!,
     };
   }
@@ -141,8 +163,12 @@ export async function addSync<T extends Record<string, unknown>>(
       `${params.chainId.toString()}-${getAddress(params.address)}`) ||
     params.chainId.toString();
 
-  // when provided an address - we're mapping a contract...
-  if (params.address && params.events) {
+  // when provided an address we're mapping a contract - without one we're mapping the event from any contract...
+  if (
+    params.events &&
+    (params.address ||
+      !["onBlock", "onTransaction", "withPromises"].includes(params.eventName))
+  ) {
     // record the event interface so we can reconstruct args to feed to callback
     engine.eventIfaces[`${cbAddress}-${params.eventName}`] =
       engine.eventIfaces[`${cbAddress}-${params.eventName}`] ||
@@ -153,7 +179,7 @@ export async function addSync<T extends Record<string, unknown>>(
   if (engine.handlers) {
     // record the eventNames callback to execute on final sorted list
     engine.callbacks[`${cbAddress}-${params.eventName || "false"}`] =
-      engine.handlers[params.handlers][params.eventName] || onEvent;
+      engine.handlers[params.handlers]?.[params.eventName] || params.onEvent;
   } else {
     // record the eventNames callback to execute on final sorted list
     engine.callbacks[`${cbAddress}-${params.eventName || "false"}`] = onEvent;
@@ -189,7 +215,11 @@ export async function addSync<T extends Record<string, unknown>>(
   params.opts.mode = params.opts.mode ?? "config";
 
   // if appendEvents is defined, then we're inside a sync op
-  if (engine.syncing && typeof engine.appendEvents === "function") {
+  if (
+    engine.syncing &&
+    typeof engine.appendEvents === "function" &&
+    (typeof chainIdOrParams === "number" || chainIdOrParams.append !== false)
+  ) {
     // mark that this was added at runtime if not marked in some other way
     params.opts.mode =
       params.opts.mode !== "config" ? params.opts.mode : "runtime";
@@ -289,6 +319,33 @@ export const delSync = async (
   }
 };
 
+// resolve a contracts events from a named group in config.events, a path to a json abi (or build artifact) or an inline abi
+export const getEventAbi = (
+  config: Pick<SyncConfig, "events">,
+  events?: string | ethers.Contract["abi"]
+): ethers.Contract["abi"] => {
+  // named groups take precedence over paths
+  if (
+    typeof events === "string" &&
+    !Object.hasOwnProperty.call(config.events || {}, events) &&
+    events.endsWith(".json")
+  ) {
+    // read the abi relative to the calling project
+    const json = JSON.parse(
+      readFileSync(resolve(process.cwd(), events), { encoding: "utf8" })
+    );
+
+    // build artifacts carry the abi alongside the bytecode
+    return Array.isArray(json) ? json : json.abi;
+  }
+
+  return typeof events === "string"
+    ? (config as unknown as { events: Record<string, string[]> })?.events?.[
+        events
+      ]
+    : events || [];
+};
+
 // set the sync by config & handler object
 export const setSyncs = async (
   config: SyncConfig,
@@ -305,8 +362,19 @@ export const setSyncs = async (
   engine.syncs = collection;
   engine.handlers = handlers;
   engine.eventAbis = config.events || {};
+  engine.templates = config.templates || {};
   engine.providers = {};
 
+  // stash the templates events so they can be reused each time the template is spawned
+  Object.keys(engine.templates).forEach((name) => {
+    if (typeof engine.templates[name].events === "string") {
+      engine.eventAbis[engine.templates[name].events as string] = getEventAbi(
+        config,
+        engine.templates[name].events
+      );
+    }
+  });
+
   // should we clear the against on a setSyncs?
   collection.length = 0;
 
@@ -331,13 +399,7 @@ export const setSyncs = async (
           : syncOp.handlers || handlers[name];
 
       // extract events
-      const events =
-        typeof syncOp.events === "string" &&
-        Object.hasOwnProperty.call(config, "events")
-          ? (config as unknown as { events: Record<string, string[]> })?.events[
-              syncOp.events
-            ]
-          : syncOp.events || [];
+      const events = getEventAbi(config, syncOp.events);
 
       // configure JsonRpcProvider for contracts chainId (@TODO: can we switch this out for a WebSocketProvider?)
       engine.providers[syncOp.chainId] = engine.providers[syncOp.chainId] || {};
@@ -352,27 +414,55 @@ export const setSyncs = async (
         engine.providers[syncOp.chainId][0] ||
         new providers.JsonRpcProvider(rpcUrl);
 
+      // factory events are synced even when they have no handler of their own
+      const creates = toCreates(syncOp.creates);
+
+      // a sync is registered against each address (these are batched together when we collect events)
+      const addresses = Array.isArray(syncOp.address)
+        ? syncOp.address
+        : [syncOp.address];
+
       // for each handler register a sync
       await Promise.all(
-        Object.keys(mapping || []).map(async (eventName) => {
-          await addSync({
-            chainId: syncOp.chainId ?? (name as unknown as number),
-            events,
-            eventName,
-            address: syncOp.address,
-            startBlock: syncOp.startBlock,
-            endBlock: syncOp.endBlock,
-            provider: engine.providers[syncOp.chainId][0],
-            opts: {
-              mode: syncOp.mode || "config",
-              collectBlocks:
-                syncOp.collectBlocks || eventName === "onBlock" || false,
-              collectTxReceipts: syncOp.collectTxReceipts || false,
-            },
-            handlers: syncOp.handlers ?? (name as unknown as string),
-            onEvent: mapping[eventName],
-            against: collection,
-          });
+        [
+          ...new Set([
+            ...Object.keys(mapping || []),
+            ...creates.map(({ event }) => event),
+          ]),
+        ].map(async (eventName) => {
+          // network handlers are only registered once
+          for (const address of ["onBlock", "onTransaction"].includes(eventName)
+            ? addresses.slice(0, 1)
+            : addresses) {
+            await addSync({
+              chainId: syncOp.chainId ?? (name as unknown as number),
+              events,
+              eventName,
+              address,
+              startBlock: syncOp.startBlock,
+              endBlock: syncOp.endBlock,
+              provider: engine.providers[syncOp.chainId][0],
+              opts: {
+                mode: syncOp.mode || "config",
+                collectBlocks:
+                  syncOp.collectBlocks || eventName === "onBlock" || false,
+                collectTxReceipts: syncOp.collectTxReceipts || false,
+                traceCalls: syncOp.traceCalls || false,
+              },
+              handlers: syncOp.handlers ?? (name as unknown as string),
+              onEvent: mapping?.[eventName] || noop,
+              creates: creates.length ? creates : undefined,
+              filters: syncOp.filters?.[eventName],
+              // block filters only apply to onBlock
+              ...(eventName === "onBlock"
+                ? {
+                    every: syncOp.every,
+                    callFilter: toCallFilter(syncOp.callFilter),
+                  }
+                : {}),
+              against: collection,
+            });
+          }
         })
       );
     })
@@ -405,3 +495,20 @@ export const setSchedule = async (
   // return the schedule
   return engine.cronSchedule;
 };
+
+// normalise the factory declarations to an array
+export const toCreates = (creates?: SyncCreates | SyncCreates[]) =>
+  // eslint-disable-next-line no-nested-ternary
+  Array.isArray(creates) ? creates : creates ? [creates] : [];
+
+// normalise the onBlock call filter to an array of addresses
+export const toCallFilter = (callFilter?: string | string[]) =>
+  // eslint-disable-next-line no-nested-ternary
+  Array.isArray(callFilter)
+    ? callFilter
+    : callFilter
+    ? [callFilter]
+    : undefined;
+
+// handler for syncs without one of their own (factory events without a handler only spawn templates)
+export const noop: HandlerFn = () => {};
@@ -20,13 +20,18 @@ import {
   getNewSyncEventsSorted,
   getNewSyncEventsTxReceipts,
   processEvents,
+  processWindows,
   releaseSyncPointerLocks,
   getNetworks,
+  getConfirmedBlock,
   restoreSyncOps,
   updateSyncsOpsMeta,
   Ingestor,
   createIngestor,
   createListeners,
+  addFactorySyncs,
+  ADDRESS_LIMIT,
+  PROGRESS_INTERVAL,
 } from "@/sync/tooling";
 
 // Import sortSyncs method from config
@@ -52,6 +57,9 @@ export { fetchDataWithRetries } from "@/sync/tooling/network/fetch";
 // Export root level persistence tooling
 export { DB } from "@/sync/tooling/persistence/db";
 export { Mongo } from "@/sync/tooling/persistence/mongo";
+export { Postgres } from "@/sync/tooling/persistence/postgres";
+export { SQLite } from "@/sync/tooling/persistence/sqlite";
+export { KeyIndex } from "@/sync/tooling/persistence/keyIndex";
 
 // Export level-db entity store to handlers via engine
 export {
@@ -69,8 +77,17 @@ export {
   processPromiseQueue,
 } from "@/sync/tooling/promises";
 
+// Export template tooling to spawn factory created contracts
+export { addTemplateSync, addFactorySyncs } from "@/sync/tooling/templates";
+
 // Export sync config tooling
-export { addSync, delSync, setSyncs, sortSyncs } from "@/sync/config";
+export {
+  addSync,
+  delSync,
+  setSyncs,
+  sortSyncs,
+  getEventAbi,
+} from "@/sync/config";
 
 // Export all shared types
 export type {
@@ -80,8 +97,13 @@ export type {
   HandlerFns,
   Migration,
   LatestEntity,
+  FindOptions,
+  QueryOptions,
   Sync,
   SyncOp,
+  SyncCreates,
+  SyncFilter,
+  SyncTemplate,
   SyncConfig,
   SyncResponse,
   SyncEvent,
@@ -103,6 +125,7 @@ export const sync = async ({
   silent = false,
   readOnly = false,
   processTimeout = 30e3,
+  windowSize = undefined,
   numBlockWorkers = undefined,
   numTransactionWorkers = undefined,
   printIngestionErrors = false,
@@ -127,6 +150,8 @@ export const sync = async ({
   silent?: boolean;
   readOnly?: boolean;
   processTimeout?: number;
+  // the no. of blocks to collect from each chain in each window of the catchup
+  windowSize?: number;
   // the number of block workers to use for processing (sets concurrency for ingestor block processing)
   numBlockWorkers?: number;
   // the number of transaction workers to use for processing (sets concurrency for ingestor transaction processing)
@@ -157,6 +182,35 @@ export const sync = async ({
   engine.readOnly = config.readOnly ?? readOnly;
   // set the max time a process (block handler) can run for (in ms)
   engine.processTimeout = config.processTimeout ?? processTimeout;
+  // set the no. of events to process between committing progress during catchup
+  engine.progressInterval = config.progressInterval ?? PROGRESS_INTERVAL;
+  // set the no. of blocks in each window of the catchup (undefined to collect every event before processing)
+  engine.windowSize = config.windowSize ?? windowSize;
+  // set the number of confirmations each chain must reach before a block is processed
+  engine.confirmations = Object.keys(config?.providers || {}).reduce(
+    (confirmations, chainId) => {
+      // default to processing blocks as soon as they are announced (and never wait on a negative no. of blocks)
+      confirmations[+chainId] = Math.max(
+        0,
+        +(config.providers[+chainId].confirmations || 0)
+      );
+
+      return confirmations;
+    },
+    {} as Record<number, number>
+  );
+  // set the number of addresses each chain will accept in a single getLogs request
+  engine.addressLimits = Object.keys(config?.providers || {}).reduce(
+    (addressLimits, chainId) => {
+      // default to the common provider limit
+      addressLimits[+chainId] = +(
+        config.providers[+chainId].addressLimit || ADDRESS_LIMIT
+      );
+
+      return addressLimits;
+    },
+    {} as Record<number, number>
+  );
   // set concurrency according to config/fallback to 100
   engine.concurrency = config.concurrency ?? 100;
   // collect each events abi iface
@@ -319,6 +373,9 @@ export const sync = async ({
       );
     };
 
+    // allow factory events to spawn templates as they're discovered
+    engine.addFactorySyncs = addFactorySyncs;
+
     // expose all logic to get new events since last sync
     engine.catchup = async (): Promise<SyncResponse> => {
       try {
@@ -331,33 +388,59 @@ export const sync = async ({
         // get the latest block for each of these
         await Promise.all(
           [...currentChainIds].map(async (chainId) => {
-            // toBlock is always "latest" from when we collect the events
-            engine.latestBlocks[chainId] = await currentSyncProviders[
-              chainId
-            ].getBlock("latest");
+            // toBlock is always "latest" (less the required confirmations) from when we collect the events
+            engine.latestBlocks[chainId] = await getConfirmedBlock(
+              currentSyncProviders[chainId],
+              engine.confirmations?.[chainId]
+            );
           })
         );
 
-        // pull all syncs to this point (supply engine.syncs directly to gather full list of events)
-        const { events } = await getNewSyncEvents(
-          engine.syncs,
-          collectAnyBlocks,
-          collectAnyTxReceipts,
-          collectBlocks,
-          collectTxReceipts,
-          cleanup,
-          start,
-          silent
-        );
+        // the result of this catchup
+        let response: SyncResponse;
+
+        // collect and process the events in windows to bound memory (an interrupted full catchup is always resumed in full)
+        if (
+          engine.windowSize &&
+          !start &&
+          !stop &&
+          !engine.progress?.processed
+        ) {
+          // process every window and get back a count on how many events we encountered on each chain
+          response = await processWindows(
+            migrations,
+            config,
+            collectAnyBlocks,
+            collectAnyTxReceipts,
+            collectBlocks,
+            collectTxReceipts,
+            silent
+          );
+        } else {
+          // pull all syncs to this point (supply engine.syncs directly to gather full list of events)
+          const { events } = await getNewSyncEvents(
+            engine.syncs,
+            collectAnyBlocks,
+            collectAnyTxReceipts,
+            collectBlocks,
+            collectTxReceipts,
+            cleanup,
+            start,
+            silent
+          );
 
-        // apply any migrations that fit the event range
-        await applyMigrations(migrations, config, events);
+          // apply any migrations that fit the event range
+          await applyMigrations(migrations, config, events);
 
-        // sort the pending events
-        await engine.appendEvents(events, engine.flags.silent ?? false);
+          // sort the pending events
+          await engine.appendEvents(events, engine.flags.silent ?? false);
 
-        // process the events and get back a count on how many we encountered
-        const processed = await processEvents();
+          // process the events and get back a count on how many we encountered
+          response = {
+            events,
+            processed: await processEvents(),
+          };
+        }
 
         // update storage with any new syncOps added in the sync
         if (engine.handlers && engine.syncOps.meta) {
@@ -369,10 +452,7 @@ export const sync = async ({
         }
 
         // process the events in the queue
-        return {
-          events,
-          processed,
-        };
+        return response;
       } catch (e) {
         // assign error to engine
         engine.error = e;
@@ -449,14 +529,17 @@ export const sync = async ({
       runTime: Number((endTime - startTime) / 1000).toPrecision(4),
       chainIds: Array.from(chainIds),
       processed: newEvents.processed,
-      eventsByChain: Array.from(chainIds).reduce(
-        (all, chainId) => ({
-          ...all,
-          [chainId]: newEvents.events.filter((vals) => vals.chainId === chainId)
-            .length,
-        }),
-        {}
-      ),
+      eventsByChain:
+        newEvents.eventsByChain ||
+        Array.from(chainIds).reduce(
+          (all, chainId) => ({
+            ...all,
+            [chainId]: newEvents.events.filter(
+              (vals) => vals.chainId === chainId
+            ).length,
+          }),
+          {}
+        ),
       startBlocksByChain: Object.keys(engine.startBlocks).reduce(
         (all, chainId) => ({
           ...all,
@@ -4,5 +4,7 @@ export * from "@/sync/tooling/persistence";
 
 // export top level concepts
 export * from "@/sync/tooling/migrations";
+export * from "@/sync/tooling/pipeline";
 export * from "@/sync/tooling/processing";
 export * from "@/sync/tooling/promises";
+export * from "@/sync/tooling/templates";
@@ -78,10 +78,18 @@ export const applyMigrations = async (
         // use the latest detected block and fix it so we don't apply latest again
         migration.blockNumber = engine.latestBlocks[migration.chainId].number;
       }
+      // the range we're collecting events over (a windowed catchup only collects one chain at a time)
+      const range = engine.window
+        ? engine.window[migration.chainId]
+        : {
+            fromBlock: engine.startBlocks[migration.chainId],
+            toBlock: engine.latestBlocks[migration.chainId].number,
+          };
       // check this will be triggered here...
       if (
-        migration.blockNumber >= engine.startBlocks[migration.chainId] &&
-        migration.blockNumber <= engine.latestBlocks[migration.chainId].number
+        range &&
+        migration.blockNumber >= range.fromBlock &&
+        migration.blockNumber <= range.toBlock
       ) {
         // assign the callback (masquarade this as valid for the context)
         engine.callbacks[
@@ -153,8 +161,10 @@ export const applyMigrations = async (
           migrationCount += 1;
         }
       }
-      // clean up migrations after adding events (we can only use a migration once as it is associated with a blockNumber)
-      delete migrations[migrationKey];
+      // clean up migrations after adding events (we can only use a migration once as it is associated with a blockNumber - windows keep the migrations they haven't reached yet)
+      if (!engine.window || (range && migration.blockNumber <= range.toBlock)) {
+        delete migrations[migrationKey];
+      }
     }
     // if we're starting the process here then print the discovery
     if (
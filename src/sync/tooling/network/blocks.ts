@@ -130,6 +130,30 @@ export const blocksFromRange = async (
   }
 };
 
+// check if the block lands on every nth block from the start (every block passes when every isn't set)
+export const isEveryBlock = (
+  blockNumber: number,
+  every?: number,
+  startBlock?: number | "latest"
+) =>
+  !every ||
+  (((+blockNumber - (typeof startBlock === "number" ? startBlock : 0)) %
+    every) +
+    every) %
+    every ===
+    0;
+
+// get the latest block which has been buried under the required no. of confirmations (we never reach back past genesis)
+export const getConfirmedBlock = async (
+  provider: JsonRpcProvider | WebSocketProvider,
+  confirmations: number = 0
+) =>
+  provider.getBlock(
+    confirmations > 0
+      ? Math.max(0, (await provider.getBlockNumber()) - confirmations)
+      : "latest"
+  );
+
 // wrap the blocks response to set and to cast type
 export const wrapBlockRes = async (
   entries: number[],
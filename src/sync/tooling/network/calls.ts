@@ -0,0 +1,438 @@
+import {
+  BlockWithTransactions,
+  TransactionResponse,
+} from "@ethersproject/abstract-provider";
+import { JsonRpcProvider, WebSocketProvider } from "@ethersproject/providers";
+import { ethers } from "ethers";
+import { getAddress } from "ethers/lib/utils";
+
+import { withRetries } from "@/utils/withRetries";
+
+import { getEngine } from "@/sync/tooling/persistence/store";
+import { processPromiseQueue } from "@/sync/tooling/promises";
+
+import { createBlockRanges } from "@/sync/tooling/network/blocks";
+import {
+  getBlockByNumber,
+  getTransactionReceipt,
+} from "@/sync/tooling/network/fetch";
+
+// call handlers are registered as `onCall:<function>` (the function can be given by name, signature or selector)
+export const CALL_HANDLER_PREFIX = "onCall:";
+
+// the maximum no. of blocks to be attempted in any one trace_filter call
+export const TRACE_RANGE_LIMIT = 1000;
+
+// a call trace as returned by trace_block/trace_filter
+export type CallTrace = {
+  type: string;
+  action: {
+    callType?: string;
+    from: string;
+    to: string;
+    input: string;
+    value: string;
+  };
+  error?: string;
+  blockHash: string;
+  blockNumber: number;
+  transactionHash: string;
+  transactionPosition: number;
+  traceAddress: number[];
+};
+
+// a call to the handlers function (shaped like a log so that it can be stored and processed alongside them)
+export type SyncCall = ethers.Event & {
+  // the caller (the tx sender for top-level calls)
+  from: string;
+  // the position of the call in the tx trace (empty for top-level calls)
+  traceAddress: number[];
+};
+
+// check if the handler is a call handler
+export const isCallHandler = (eventName?: string) =>
+  !!eventName?.startsWith(CALL_HANDLER_PREFIX);
+
+// get the function fragment for the call handler (null if the function isn't in the abi)
+export const getCallFragment = (
+  iface: ethers.utils.Interface,
+  eventName: string
+) => {
+  try {
+    return iface.getFunction(eventName.slice(CALL_HANDLER_PREFIX.length));
+  } catch {
+    return null;
+  }
+};
+
+// match the calls to the function on the address (top-level calls from the blocks txs or every call from the blocks traces)
+export const getBlockCalls = (
+  iface: ethers.utils.Interface,
+  fragment: ethers.utils.FunctionFragment,
+  address: string,
+  block: BlockWithTransactions,
+  traces?: CallTrace[]
+): SyncCall[] => {
+  // the selector the calldata must start with
+  const selector = iface.getSighash(fragment);
+
+  // every successful call made against the address is in the traces
+  if (traces) {
+    return traces
+      .filter(
+        (trace) =>
+          trace.type === "call" &&
+          trace.action.callType === "call" &&
+          !trace.error &&
+          !!trace.action.to &&
+          getAddress(trace.action.to) === getAddress(address) &&
+          trace.action.input.toLowerCase().startsWith(selector)
+      )
+      .map((trace) =>
+        toCall(iface, fragment, {
+          address: trace.action.to,
+          from: trace.action.from,
+          input: trace.action.input,
+          blockHash: trace.blockHash,
+          blockNumber: +trace.blockNumber,
+          transactionHash: trace.transactionHash,
+          transactionIndex: +trace.transactionPosition,
+          traceAddress: trace.traceAddress,
+        })
+      )
+      .filter((call) => call);
+  }
+
+  // otherwise we can only see the top-level calls (the caller must check the tx succeeded)
+  return (block.transactions || [])
+    .filter(
+      (tx: TransactionResponse & { input?: string }) =>
+        !!tx.to &&
+        getAddress(tx.to) === getAddress(address) &&
+        (tx.input ?? tx.data ?? "").toLowerCase().startsWith(selector)
+    )
+    .map((tx: TransactionResponse & { input?: string }) =>
+      toCall(iface, fragment, {
+        address: tx.to,
+        from: tx.from,
+        input: tx.input ?? tx.data,
+        blockHash: block.hash,
+        blockNumber: +block.number,
+        transactionHash: tx.hash,
+        transactionIndex: +(tx as { transactionIndex?: number })
+          .transactionIndex,
+        traceAddress: [],
+      })
+    )
+    .filter((call) => call);
+};
+
+// check if the block holds a successful call to any of the addresses (top-level calls from the blocks txs (checked against their receipts) or every call from the blocks traces)
+export const hasCallTo = (
+  addresses: string[],
+  block: BlockWithTransactions,
+  traces?: CallTrace[],
+  receipts?: Record<string, { status?: number }>
+) => {
+  // compare checksummed addresses
+  const targets = addresses.map((address) => getAddress(address));
+
+  // every successful call is in the traces
+  if (traces) {
+    return traces.some(
+      (trace) =>
+        trace.type === "call" &&
+        !trace.error &&
+        !!trace.action.to &&
+        targets.includes(getAddress(trace.action.to))
+    );
+  }
+
+  // otherwise we can only see the top-level calls (skipping the txs which reverted)
+  return (block.transactions || []).some(
+    (tx) =>
+      !!tx.to &&
+      targets.includes(getAddress(tx.to)) &&
+      (!receipts?.[tx.hash] || +receipts[tx.hash].status !== 0)
+  );
+};
+
+// get the block numbers in the range which hold a call to any of the addresses
+export const getCallBlocks = async (
+  addresses: string[],
+  fromBlock: number,
+  toBlock: number,
+  provider: JsonRpcProvider | WebSocketProvider,
+  traceCalls: boolean
+) => {
+  // get the global engine
+  const engine = await getEngine();
+  // collect each matching block once
+  const result = new Set<number>();
+  // trace in larger ranges than we can scan blocks
+  const ranges = createBlockRanges(
+    fromBlock,
+    toBlock,
+    traceCalls ? TRACE_RANGE_LIMIT : 10
+  );
+  // construct a reqStack so that we're only processing x reqs at a time
+  const stack: ((reqStack: (() => Promise<any>)[]) => Promise<void>)[] = [];
+
+  // iterate the ranges and collect the blocks holding calls in that range
+  for (const [from, to] of ranges) {
+    stack.push(async () => {
+      if (traceCalls) {
+        // trace_filter only returns the calls made to the addresses
+        const traces = await withRetries<CallTrace[]>(() =>
+          provider.send("trace_filter", [
+            {
+              fromBlock: ethers.utils.hexValue(from),
+              toBlock: ethers.utils.hexValue(to),
+              toAddress: addresses,
+            },
+          ])
+        );
+        // record the blocks for the calls that succeeded
+        traces
+          .filter((trace) => trace.type === "call" && !trace.error)
+          .forEach((trace) => result.add(+trace.blockNumber));
+      } else {
+        // check each block in turn
+        for (let number = from; number <= to; number += 1) {
+          const block = await getBlockByNumber(provider, number);
+          if (
+            hasCallTo(
+              addresses,
+              block,
+              undefined,
+              await getCallReceipts(addresses, block, provider)
+            )
+          ) {
+            result.add(number);
+          }
+        }
+      }
+    });
+  }
+
+  // wait for the promiseQueue to resolve
+  await processPromiseQueue(stack, engine.concurrency, true);
+
+  return result;
+};
+
+// get the traces for every call made in the block
+export const getBlockTraces = async (
+  provider: JsonRpcProvider | WebSocketProvider,
+  blockNumber: number
+) =>
+  withRetries<CallTrace[]>(() =>
+    provider.send("trace_block", [ethers.utils.hexValue(blockNumber)])
+  );
+
+// wrap the calls response to set and to cast type
+const wrapCallRes = async (
+  eventName: string,
+  entries: SyncCall[],
+  provider: JsonRpcProvider | WebSocketProvider,
+  toBlock: number,
+  collectTxReceipt: boolean,
+  collectBlock: boolean
+) => {
+  return Promise.all(
+    entries.map(async (entry) => {
+      return {
+        address: entry.address,
+        type: eventName,
+        data: entry as ethers.Event,
+        number: toBlock,
+        blockNumber: entry.blockNumber,
+        chainId: provider.network.chainId,
+        collectTxReceipt,
+        collectBlock,
+        from: entry.from,
+        txIndex: +entry.transactionIndex,
+        logIndex: entry.logIndex,
+      };
+    })
+  );
+};
+
+// pull new calls to the function on the address
+export const getNewCalls = async (
+  address: string,
+  events: ethers.Contract["abi"] | undefined,
+  eventName: string,
+  fromBlock: number,
+  toBlock: number,
+  provider: JsonRpcProvider | WebSocketProvider,
+  traceCalls: boolean,
+  collectTxReceipt: boolean,
+  collectBlock: boolean
+) => {
+  // get the global engine
+  const engine = await getEngine();
+  // collect the calls by tx and position in the trace
+  const result = new Map<string, SyncCall>();
+  // parse the abi for the function
+  const iface = new ethers.utils.Interface(events || []);
+  const fragment = getCallFragment(iface, eventName);
+  // can only add calls if the function exists on the abi
+  if (fragment) {
+    // trace in larger ranges than we can scan blocks
+    const ranges = createBlockRanges(
+      fromBlock,
+      toBlock,
+      traceCalls ? TRACE_RANGE_LIMIT : 10
+    );
+    // construct a reqStack so that we're only processing x reqs at a time
+    const stack: ((reqStack: (() => Promise<any>)[]) => Promise<void>)[] = [];
+
+    // iterate the ranges and collect all calls in that range
+    for (const [from, to] of ranges) {
+      stack.push(async () => {
+        // collect every call in the range
+        const calls = traceCalls
+          ? getBlockCalls(
+              iface,
+              fragment,
+              address,
+              {} as BlockWithTransactions,
+              await withRetries<CallTrace[]>(() =>
+                provider.send("trace_filter", [
+                  {
+                    fromBlock: ethers.utils.hexValue(from),
+                    toBlock: ethers.utils.hexValue(to),
+                    toAddress: [address],
+                  },
+                ])
+              )
+            )
+          : await scanCalls(iface, fragment, address, from, to, provider);
+        // record each call once
+        calls.forEach((call) => {
+          result.set(
+            `${call.transactionHash}-${call.traceAddress.join("-")}`,
+            call
+          );
+        });
+      });
+    }
+
+    // wait for the promiseQueue to resolve
+    await processPromiseQueue(stack, engine.concurrency, true);
+  }
+
+  // wrap the calls with the known type
+  return wrapCallRes(
+    eventName,
+    Array.from(result.values()),
+    provider,
+    toBlock,
+    collectTxReceipt,
+    collectBlock
+  );
+};
+
+// scan each block in the range for successful top-level calls
+const scanCalls = async (
+  iface: ethers.utils.Interface,
+  fragment: ethers.utils.FunctionFragment,
+  address: string,
+  from: number,
+  to: number,
+  provider: JsonRpcProvider | WebSocketProvider
+) => {
+  // all calls in the range
+  const calls: SyncCall[] = [];
+  // fetch each block in turn
+  while (from <= to) {
+    // match the calls in the blocks txs
+    const matched = getBlockCalls(
+      iface,
+      fragment,
+      address,
+      await getBlockByNumber(provider, from),
+      undefined
+    );
+    // only keep the calls from txs which didn't revert
+    for (const call of matched) {
+      const receipt = await getTransactionReceipt(
+        provider,
+        call.transactionHash
+      );
+      if (+receipt.status !== 0) calls.push(call);
+    }
+    // move from for next tick
+    from += 1;
+  }
+
+  return calls;
+};
+
+// get the receipts for the blocks txs which call any of the addresses (so that we can skip the txs which reverted)
+const getCallReceipts = async (
+  addresses: string[],
+  block: BlockWithTransactions,
+  provider: JsonRpcProvider | WebSocketProvider
+) => {
+  // compare checksummed addresses
+  const targets = addresses.map((address) => getAddress(address));
+  // the receipts by tx hash
+  const receipts: Record<string, { status?: number }> = {};
+  // only the txs sent to the addresses
+  for (const tx of block.transactions || []) {
+    if (tx.to && targets.includes(getAddress(tx.to))) {
+      receipts[tx.hash] = await getTransactionReceipt(provider, tx.hash);
+    }
+  }
+
+  return receipts;
+};
+
+// decode the call into a log shaped record (null if the calldata doesn't decode against the function)
+const toCall = (
+  iface: ethers.utils.Interface,
+  fragment: ethers.utils.FunctionFragment,
+  {
+    address,
+    from,
+    input,
+    blockHash,
+    blockNumber,
+    transactionHash,
+    transactionIndex,
+    traceAddress,
+  }: {
+    address: string;
+    from: string;
+    input: string;
+    blockHash: string;
+    blockNumber: number;
+    transactionHash: string;
+    transactionIndex: number;
+    traceAddress: number[];
+  }
+) => {
+  try {
+    return {
+      address: getAddress(address),
+      from: getAddress(from),
+      data: input,
+      topics: [],
+      blockHash,
+      blockNumber,
+      transactionHash,
+      transactionIndex,
+      // calls are processed before the logs they emit
+      logIndex: -1,
+      removed: false,
+      event: fragment.name,
+      eventSignature: fragment.format(),
+      args: iface.decodeFunctionData(fragment, input),
+      traceAddress,
+    } as unknown as SyncCall;
+  } catch {
+    return null;
+  }
+};
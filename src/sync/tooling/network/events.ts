@@ -7,11 +7,17 @@ import { ethers } from "ethers";
 
 import { cwd } from "@/utils";
 import { toEventData } from "@/utils/toEventData";
+import { toParsedLog } from "@/utils/toParsedLog";
 
 import { getEngine } from "@/sync/tooling/persistence/store";
 import { processPromiseQueue } from "@/sync/tooling/promises";
 
-import { createBlockRanges, getNewBlocks } from "@/sync/tooling/network/blocks";
+import {
+  createBlockRanges,
+  getNewBlocks,
+  isEveryBlock,
+  wrapBlockRes,
+} from "@/sync/tooling/network/blocks";
 import {
   exists,
   readJSON,
@@ -19,7 +25,8 @@ import {
   saveJSON,
   saveLatestRunCapture,
 } from "@/sync/tooling/persistence/disk";
-import { Sync, SyncStage, SyncEvent } from "@/sync/types";
+import { saveSyncProgress } from "@/sync/tooling/persistence/progress";
+import { Sync, SyncStage, SyncEvent, SyncFilter } from "@/sync/types";
 import {
   BlockWithTransactions,
   TransactionResponse,
@@ -30,156 +37,198 @@ import {
   getFnResultForProp,
   getTransactionReceipt,
 } from "./fetch";
+import { getCallBlocks, getNewCalls, isCallHandler } from "./calls";
+import { getLogs, RANGE_LIMIT } from "./logs";
 import { getNetworks } from "./providers";
 import { getNewTransactions } from "./transactions";
 
-// the maximum no. of blocks to be attempted in any one queryFilter call
-export const RANGE_LIMIT = 100000;
+// the default maximum no. of addresses to place in any one getLogs call
+export const ADDRESS_LIMIT = 500;
 
-// collect events from the given range
-const eventsFromRange = async (
-  chainId: number,
-  contract: ethers.Contract,
-  event: string,
+// a set of address syncs whose logs are collected in the same requests
+type EventsBatch = {
+  // the block each address should be collected from
+  fromBlocks: Record<string, number>;
+  // the batches logs by checksum address (requested by the first member to collect)
+  logs?: Promise<Record<string, ethers.Event[]>>;
+};
+
+// syncs can only share requests when they share an abi, range and filters
+const toBatchKey = (
+  { chainId, eventName, handlers, filters }: Sync,
+  toBlock: number
+) =>
+  `${chainId}-${handlers}-${eventName}-${toBlock}-${JSON.stringify(
+    filters || []
+  )}`;
+
+// the range of blocks the sync will be collected over in this pass
+const getSyncRange = async ({ chainId, startBlock, endBlock }: Sync) => {
+  // retrieve the engine backing the Store
+  const engine = await getEngine();
+  // set the block frame (go back a block as a safety check (1 confirmation) - resuming towards the block an interrupted run was collecting to)
+  const lastBlock = !Number.isNaN(+endBlock)
+    ? +endBlock
+    : engine.progress?.toBlocks[chainId] ??
+      +engine.latestBlocks[chainId].number - 1;
+  // starting from the last block we synced to or from latestBlock (if startBlock===latest), or from given startBlock if newDB
+  const firstBlock =
+    startBlock === "latest"
+      ? +engine.latestBlocks[chainId].number + 1
+      : (engine.latestEntity[chainId]?.latestBlock &&
+          +engine.latestEntity[chainId].latestBlock + 1) ||
+        startBlock;
+
+  // a windowed catchup only collects the blocks inside the current window
+  return {
+    fromBlock: engine.window?.[chainId]
+      ? Math.max(+firstBlock, engine.window[chainId].fromBlock)
+      : +firstBlock,
+    toBlock: engine.window?.[chainId]
+      ? Math.min(lastBlock, engine.window[chainId].toBlock)
+      : lastBlock,
+  };
+};
+
+// check if an interrupted run has already captured the syncs events over the same range
+const isResumed = async (
+  { chainId, eventName }: Sync,
+  captured: string,
   fromBlock: number,
-  toBlock: number,
-  reqStack: (() => Promise<any>)[],
-  result: Set<ethers.Event>,
-  silent: boolean
+  toBlock: number
 ) => {
-  // use catch to check for error state and collect range by halfing if we exceed 10000 events
-  const res: ethers.Event[] = await new Promise<ethers.Event[]>(
-    (resolve, reject) => {
-      const timer = setTimeout(() => {
-        reject(new Error("Query timeout exceeded"));
-      }, 120000);
-
-      // run the queryFilter
-      contract
-        .queryFilter(contract.filters[event](), fromBlock, toBlock)
-        .then((results) => {
-          clearTimeout(timer);
-          resolve(results);
-        })
-        .catch((e) => {
-          clearTimeout(timer);
-          reject(e);
-        });
-    }
-  ).catch(async (e) => {
-    reqStack.push(async () => {
-      // eslint-disable-next-line @typescript-eslint/no-use-before-define
-      await cancelAndSplit(
-        chainId,
-        contract,
-        event,
-        fromBlock,
-        toBlock,
-        reqStack,
-        result,
-        silent
-      )(e);
-    });
-    // split the req and try again
-    return [];
-  });
-
-  if (res.length) {
-    // add each item to the result
-    res.forEach((resEvent) => {
-      result.add({
-        ...resEvent,
-      } as ethers.Event);
-    });
-  }
+  // retrieve the engine backing the Store
+  const engine = await getEngine();
+  // the range this syncs events were captured over by an interrupted run
+  const fetched = engine.progress?.fetched[`${captured}-${eventName}`];
+
+  // we can only reuse the capture if it covers the same range
+  return (
+    fetched?.fromBlock === fromBlock &&
+    fetched?.toBlock === toBlock &&
+    exists("events", `latestRun-${captured}-${eventName}-${chainId}.csv`)
+  );
 };
 
-// cancel this frame and split the range in two to reattempt the call
-const cancelAndSplit =
-  (
-    chainId: number,
-    contract: ethers.Contract,
-    event: string,
-    fromBlock: number,
-    toBlock: number,
-    reqStack: (() => Promise<any>)[],
-    result: Set<ethers.Event>,
-    silent: boolean
-  ) =>
-  async (e: any) => {
-    // connection timeout - reattempt the same range
-    if (e.code === "TIMEOUT" || e.code === "NETWORK_ERROR") {
-      // reattempt without splitting...
-      await eventsFromRange(
-        chainId,
-        contract,
-        event,
-        fromBlock,
-        toBlock,
-        reqStack,
-        result,
-        silent
-      );
-    } else if (
-      toBlock - fromBlock > 1 &&
-      // check the error code
-      ([
-        // processing response error
-        "-32002",
-        // check for 10000 limit (this is infura specific - we have a 10,000 event limit per req)
-        "-32005",
-        // if there is a server error, its probably because the range is too large
-        "SERVER_ERROR",
-      ].includes(e.code) ||
-        e.message === "Query timeout exceeded")
-      // API rate limit exceeded
+// group every address sync that will collect its events from the network by the requests they can share (before anything is collected)
+const createEventsBatches = async (
+  syncOps: Sync[],
+  start?: keyof typeof SyncStage | false
+) => {
+  // the batches by key
+  const batches: Record<string, EventsBatch> = {};
+
+  // eslint-disable-next-line no-restricted-syntax
+  for (const opSync of syncOps) {
+    const { chainId, address, eventName, events } = opSync;
+    // only contract events are collected by address (and only when we're not restarting from their capture)
+    if (
+      address &&
+      (!start ||
+        SyncStage[start] === SyncStage.events ||
+        !exists(
+          "events",
+          `latestRun-${chainId}-${getAddress(
+            address
+          )}-${eventName}-${chainId}.csv`
+        )) &&
+      events &&
+      !NETWORK_EVENTS.includes(eventName) &&
+      !isCallHandler(eventName)
     ) {
-      // split the range in two and try again...
-      const middle = Math.round((fromBlock + toBlock) / 2);
-
-      // get events from two ranges and bubble the result (this will combine all results recursively and add blocks)
-      await Promise.all([
-        eventsFromRange(
-          chainId,
-          contract,
-          event,
+      // the range this sync will collect
+      // eslint-disable-next-line no-await-in-loop
+      const { fromBlock, toBlock } = await getSyncRange(opSync);
+      // skip syncs with nothing to collect or that will read their capture from disk
+      if (
+        toBlock >= fromBlock &&
+        // eslint-disable-next-line no-await-in-loop
+        !(await isResumed(
+          opSync,
+          `${chainId}-${getAddress(address)}`,
           fromBlock,
-          middle,
-          reqStack,
-          result,
-          silent
-        ),
-        eventsFromRange(
-          chainId,
-          contract,
-          event,
-          middle,
-          toBlock,
-          reqStack,
-          result,
-          silent
-        ),
-      ]);
-    } else {
-      if (!silent) console.log("Failed unknown error", e);
-      // reattempt without splitting...
-      await eventsFromRange(
-        chainId,
-        contract,
-        event,
-        fromBlock,
+          toBlock
+        ))
+      ) {
+        // join the batch from the syncs own fromBlock
+        const key = toBatchKey(opSync, toBlock);
+        const checksum = getAddress(address);
+        batches[key] = batches[key] || { fromBlocks: {} };
+        batches[key].fromBlocks[checksum] = Math.min(
+          batches[key].fromBlocks[checksum] ?? fromBlock,
+          fromBlock
+        );
+      }
+    }
+  }
+
+  return batches;
+};
+
+// collect the syncs events from the batch it was grouped into (the batch is requested once for every member)
+const getBatchedEvents = async (
+  batches: Record<string, EventsBatch>,
+  opSync: Sync,
+  fromBlock: number,
+  toBlock: number,
+  collectTxReceipt: boolean,
+  collectBlock: boolean,
+  silent: boolean
+) => {
+  const { address, eventName, events, provider, filters } = opSync;
+  // find the syncs batch (syncs which weren't grouped (or grouped over a later range) are collected alone)
+  const key = toBatchKey(opSync, toBlock);
+  const checksum = getAddress(address);
+  const batch =
+    batches[key]?.fromBlocks[checksum] <= fromBlock
+      ? batches[key]
+      : { fromBlocks: { [checksum]: fromBlock } };
+  // request the logs for every member of the batch from the earliest block
+  batch.logs =
+    batch.logs ||
+    (async () => {
+      const members = Object.keys(batch.fromBlocks);
+      const logs = await getNewLogs(
+        members.length === 1 ? members[0] : members,
+        events,
+        eventName,
+        Math.min(...Object.values(batch.fromBlocks)),
         toBlock,
-        reqStack,
-        result,
-        silent
+        provider,
+        silent,
+        filters
       );
-    }
-  };
+
+      // index the logs by the emitting address
+      return logs.reduce((byAddress, log) => {
+        const emitter = getAddress(log.address);
+        byAddress[emitter] = byAddress[emitter] || [];
+        byAddress[emitter].push(log);
+
+        return byAddress;
+      }, {} as Record<string, ethers.Event[]>);
+    })();
+  // wait for the batch to resolve and take this addresses logs from its own fromBlock
+  const logs = ((await batch.logs)[checksum] || []).filter(
+    (log) => log.blockNumber >= fromBlock
+  );
+
+  // wrap the events with the known type
+  return wrapEventRes(
+    eventName,
+    true,
+    logs,
+    provider,
+    toBlock,
+    collectTxReceipt,
+    collectBlock
+  );
+};
 
 // wrap the events response to set and to cast type
 const wrapEventRes = async (
   event: string,
-  address: string,
+  byAddress: boolean,
   entries: ethers.Event[],
   provider: JsonRpcProvider | WebSocketProvider,
   toBlock: number,
@@ -189,7 +238,8 @@ const wrapEventRes = async (
   return Promise.all(
     entries.map(async (entry) => {
       return {
-        address,
+        // events from address-less syncs are carried without an address
+        address: byAddress ? entry.address : undefined,
         type: event,
         data: entry,
         number: toBlock,
@@ -204,17 +254,16 @@ const wrapEventRes = async (
   );
 };
 
-// pull new events from the contract
-export const getNewEvents = async (
-  address: string | undefined,
+// pull new logs from the contract(s) (or from any contract when no address is given)
+export const getNewLogs = async (
+  address: string | string[] | undefined,
   events: ethers.Contract["abi"] | undefined,
   eventName: string,
   fromBlock: number,
   toBlock: number,
   provider: JsonRpcProvider | WebSocketProvider,
-  collectTxReceipt: boolean,
-  collectBlock: boolean,
-  silent: boolean
+  silent: boolean,
+  filters?: SyncFilter
 ) => {
   // get the global engine
   const engine = await getEngine();
@@ -222,41 +271,61 @@ export const getNewEvents = async (
   const result = new Set<ethers.Event>();
   // get the chainId
   const { chainId } = provider.network;
-  // only proceed if the contract is known...
-  if (address && events) {
-    // connect to contract and filter for events to build data-set
-    const contract = new ethers.Contract(address, events, provider);
-    // can only add events if they exist on the contract
-    if (contract.filters[eventName]) {
-      // create a new eventRange for each 500,000 blocks (to process in parallel)
-      const ranges = createBlockRanges(fromBlock, toBlock, RANGE_LIMIT);
-      // construct a reqStack so that we're only processing x reqs at a time
-      const stack: ((reqStack: (() => Promise<any>)[]) => Promise<void>)[] = [];
-
-      // iterate the ranges and collect all events in that range
-      for (const [from, to] of ranges) {
-        stack.push(async (reqStack) => {
-          // what if result is just built by ref? then we dont have to await failures etc...
-          await eventsFromRange(
-            chainId,
-            contract,
-            eventName,
+  // parse the abi for the event
+  const iface = events && new ethers.utils.Interface(events);
+  const fragment =
+    iface && Object.values(iface.events).find(({ name }) => name === eventName);
+  // can only add events if they exist on the abi
+  if (fragment) {
+    // encode the topics once (throwing on invalid filters before we start querying)
+    const topics = iface.encodeFilterTopics(fragment, filters || []);
+    // request the address when we have one, each chunk of addresses when we have a list, or any contract which emits the event when we don't
+    const chunks =
+      typeof address === "string"
+        ? [address]
+        : createAddressChunks(
+            address,
+            engine.addressLimits?.[chainId] || ADDRESS_LIMIT
+          );
+    // create a new eventRange for each RANGE_LIMIT blocks (to process in parallel)
+    const ranges = createBlockRanges(fromBlock, toBlock, RANGE_LIMIT);
+    // construct a reqStack so that we're only processing x reqs at a time
+    const stack: ((reqStack: (() => Promise<any>)[]) => Promise<void>)[] = [];
+
+    // iterate the ranges and collect all events in that range
+    for (const [from, to] of ranges) {
+      for (const chunk of chunks) {
+        stack.push(async () => {
+          // get every log with matching topics (the range is split to fit the provider)
+          const logs = await getLogs(
+            provider,
+            { address: chunk, topics },
             from,
             to,
-            reqStack,
-            result,
             silent
           );
+          // decode the args (logs which share the topic but not the shape are skipped - ie. erc721 Transfers against an erc20 Transfer)
+          logs.forEach((log) => {
+            const parsed = toParsedLog(iface, log);
+            if (parsed) {
+              result.add({
+                ...log,
+                event: fragment.name,
+                eventSignature: fragment.format(),
+                args: parsed.args,
+              } as ethers.Event);
+            }
+          });
         });
       }
-
-      // wait for the promiseQueue to resolve
-      await processPromiseQueue(stack, engine.concurrency, true);
     }
+
+    // wait for the promiseQueue to resolve
+    await processPromiseQueue(stack, engine.concurrency, true);
   }
 
   // dedupe on hash and logIndex
-  const all = Array.from(
+  return Array.from(
     new Map(
       Array.from(result).map((val) => [
         `${val.transactionHash}-${val.logIndex}`,
@@ -264,11 +333,37 @@ export const getNewEvents = async (
       ])
     )
   ).map((v) => v[1]);
+};
+
+// pull new events from the contract(s) and wrap them as SyncEvents
+export const getNewEvents = async (
+  address: string | string[] | undefined,
+  events: ethers.Contract["abi"] | undefined,
+  eventName: string,
+  fromBlock: number,
+  toBlock: number,
+  provider: JsonRpcProvider | WebSocketProvider,
+  collectTxReceipt: boolean,
+  collectBlock: boolean,
+  silent: boolean,
+  filters?: SyncFilter
+) => {
+  // collect the deduped logs
+  const all = await getNewLogs(
+    address,
+    events,
+    eventName,
+    fromBlock,
+    toBlock,
+    provider,
+    silent,
+    filters
+  );
 
   // wrap the events with the known type
   return wrapEventRes(
     eventName,
-    address,
+    !!address,
     all,
     provider,
     toBlock,
@@ -291,6 +386,9 @@ export const getNewSyncEvents = async (
   // collate the addresses we use in the processing
   const addresses: Record<string, string> = {};
 
+  // address syncs for the same event are grouped before we start so that they're collected in the same requests
+  const batches = await createEventsBatches(syncOps, start);
+
   // retrieve the engine backing the Store
   const engine = await getEngine();
 
@@ -318,7 +416,6 @@ export const getNewSyncEvents = async (
         address,
         eventName,
         provider,
-        startBlock,
         endBlock,
         opts,
         events: eventsAbi,
@@ -335,8 +432,12 @@ export const getNewSyncEvents = async (
         engine.callbacks[`${addresses[address || chainId]}-${eventName}`] ||
         onEvent;
 
-      // when provided an address - we're mapping a contract...
-      if (address && eventsAbi) {
+      // when provided an address we're mapping a contract - without an address we're mapping the event from any contract...
+      const isContractEvent =
+        !!eventsAbi && !NETWORK_EVENTS.includes(eventName);
+
+      // record the event interface for contract events
+      if (isContractEvent) {
         // record the event interface so we can reconstruct args to feed to callback
         engine.eventIfaces[`${addresses[address || chainId]}-${eventName}`] =
           engine.eventIfaces[`${addresses[address || chainId]}-${eventName}`] ||
@@ -358,23 +459,35 @@ export const getNewSyncEvents = async (
         if (start && SyncStage[start] > SyncStage.events) {
           engine.flags.start = start = "blocks";
         }
-        // set the block frame (go back a block as a safety check (1 confirmation))
-        const toBlock = !Number.isNaN(+endBlock)
-          ? +endBlock
-          : +engine.latestBlocks[chainId].number - 1;
-        // starting from the last block we synced to or from latestBlock (if startBlock===latest), or from given startBlock if newDB
-        const fromBlock =
-          startBlock === "latest"
-            ? +engine.latestBlocks[chainId].number + 1
-            : (engine.latestEntity[chainId]?.latestBlock &&
-                +engine.latestEntity[chainId].latestBlock + 1) ||
-              startBlock;
-
-        // mark engine as newDb
-        if (!engine.latestEntity[chainId]?.latestBlock) {
+        // the range of blocks we're collecting
+        const { fromBlock, toBlock } = await getSyncRange(opSync);
+
+        // mark engine as newDb (unless an interrupted run has already committed entities)
+        if (
+          !engine.latestEntity[chainId]?.latestBlock &&
+          !engine.progress?.processed
+        ) {
           engine.newDb = true;
         }
 
+        // pin the chains range so that a resumed run collects the same events
+        if (
+          engine.progress &&
+          Number.isNaN(+endBlock) &&
+          typeof engine.progress.toBlocks[chainId] === "undefined"
+        ) {
+          engine.progress.toBlocks[chainId] = toBlock;
+          await saveSyncProgress();
+        }
+
+        // reuse the capture if an interrupted run has already collected this range
+        const resumed = await isResumed(
+          opSync,
+          addresses[address || chainId],
+          fromBlock,
+          toBlock
+        );
+
         // record the startBlock
         engine.startBlocks[chainId] = fromBlock;
 
@@ -390,19 +503,52 @@ export const getNewSyncEvents = async (
           );
 
         // greater than the prev fromBlock
-        if (address && toBlock >= fromBlock && eventName !== "withPromises") {
-          // all new events to be processed in this sync (only make the req if we will be querying a new block)
-          newEvents = await getNewEvents(
-            address,
-            eventsAbi,
-            eventName,
-            fromBlock,
-            toBlock,
-            provider,
-            opts?.collectTxReceipts || collectTxReceipts || false,
-            opts?.collectBlocks || collectBlocks || false,
-            !!silent
+        if (resumed) {
+          // read in the events we've already fetched
+          newEvents = await readLatestRunCapture(
+            `${cwd}events-latestRun-${
+              addresses[address || chainId]
+            }-${eventName}-${chainId}.csv`
           );
+        } else if (isCallHandler(eventName) && toBlock >= fromBlock) {
+          // calls can only be matched against a contract
+          newEvents = address
+            ? await getNewCalls(
+                address,
+                eventsAbi,
+                eventName,
+                fromBlock,
+                toBlock,
+                provider,
+                opts?.traceCalls || false,
+                opts?.collectTxReceipts || collectTxReceipts || false,
+                opts?.collectBlocks || collectBlocks || false
+              )
+            : [];
+        } else if (isContractEvent && toBlock >= fromBlock) {
+          // all new events to be processed in this sync (only make the req if we will be querying a new block)
+          newEvents = address
+            ? await getBatchedEvents(
+                batches,
+                opSync,
+                fromBlock,
+                toBlock,
+                opts?.collectTxReceipts || collectTxReceipts || false,
+                opts?.collectBlocks || collectBlocks || false,
+                !!silent
+              )
+            : await getNewEvents(
+                address,
+                eventsAbi,
+                eventName,
+                fromBlock,
+                toBlock,
+                provider,
+                opts?.collectTxReceipts || collectTxReceipts || false,
+                opts?.collectBlocks || collectBlocks || false,
+                !!silent,
+                opSync.filters
+              );
         } else if (eventName === "onTransaction" && toBlock >= fromBlock) {
           // get new events using getBlockAndTransactions - onTransaction will always be triggered first - save the blocks as we process them
           newEvents = await getNewTransactions(
@@ -414,16 +560,14 @@ export const getNewSyncEvents = async (
           );
         } else if (eventName === "onBlock" && toBlock >= fromBlock) {
           // get new event for each block in the range (will use data pulled when doing onTransaction if opSync for onTransaction exists)
-          newEvents = await getNewBlocks(
-            fromBlock,
-            toBlock,
-            provider,
-            !!silent
-          );
+          newEvents =
+            opSync.every || opSync.callFilter
+              ? await getFilteredBlocks(opSync, fromBlock, toBlock, provider)
+              : await getNewBlocks(fromBlock, toBlock, provider, !!silent);
         }
 
         // don't save if we're just going to delete it
-        if (!cleanup) {
+        if (!cleanup && !resumed) {
           // record the entities run so we can step back to this spot
           await saveLatestRunCapture(
             `${cwd}events-latestRun-${
@@ -431,6 +575,13 @@ export const getNewSyncEvents = async (
             }-${eventName}-${chainId}.csv`,
             newEvents
           );
+          // record that this syncs events are captured so an interrupted run doesn't need to fetch them again
+          if (engine.progress) {
+            engine.progress.fetched[
+              `${addresses[address || chainId]}-${eventName}`
+            ] = { fromBlock, toBlock };
+            await saveSyncProgress();
+          }
         }
       } else if (
         !start ||
@@ -457,6 +608,58 @@ export const getNewSyncEvents = async (
         );
       }
 
+      // spawn the templates created by any factory events so that the new contracts events are collected in this pass
+      if (
+        engine.addFactorySyncs &&
+        opSync.creates?.some(({ event }) => event === eventName)
+      ) {
+        // syncs spawned from these events
+        const spawned = [];
+        // parse the args with the factories iface
+        const iface =
+          engine.eventIfaces[`${addresses[address || chainId]}-${eventName}`];
+        // spawn in event order
+        for (const newEvent of newEvents) {
+          const eventData = toEventData(newEvent.data);
+          // register without collecting (we collect everything spawned together below)
+          spawned.push(
+            ...(await engine.addFactorySyncs(
+              opSync,
+              eventName,
+              iface.parseLog({
+                topics: eventData.topics,
+                data: eventData.data,
+              }).args,
+              +newEvent.blockNumber,
+              false
+            ))
+          );
+        }
+        // collect the spawned syncs events (spawned factories will spawn their own templates)
+        if (spawned.length) {
+          const { events: spawnedEvents } = await getNewSyncEvents(
+            spawned,
+            collectAnyBlocks,
+            collectAnyTxReceipts,
+            collectBlocks,
+            collectTxReceipts,
+            cleanup,
+            start,
+            true
+          );
+          // log the spawned syncs in place of their individual logs
+          if (!silent)
+            console.log(
+              `  Spawned ${spawned.length} template syncs from ${eventName}::${
+                syncProviders[chainId].network.name
+              }(${chainId})${address ? `::${address}` : ``} → new events:`,
+              spawnedEvents.length
+            );
+          // include the spawned events in this syncs events
+          newEvents = newEvents.concat(spawnedEvents);
+        }
+      }
+
       // append any newly discovered events to the collection
       if (!silent && eventName !== "withPromises")
         console.log(
@@ -674,7 +877,11 @@ export const getNewSyncEventsSorted = async (
         ? txSort
         : logSort !== 0
         ? logSort
-        : migSort;
+        : migSort !== 0
+        ? migSort
+        : // keep the order stable between runs so that an interrupted run can be resumed
+          (a.chainId || 0) - (b.chainId || 0) ||
+          `${a.type}`.localeCompare(`${b.type}`);
     });
 
     // don't save if we're just going to delete it...
@@ -708,3 +915,46 @@ export const getNewSyncEventsSorted = async (
 
   return sorted;
 };
+
+// get an onBlock event for only the blocks which pass the syncs filters (the blocks are fetched when we collect the events blocks)
+const getFilteredBlocks = async (
+  sync: Sync,
+  fromBlock: number,
+  toBlock: number,
+  provider: JsonRpcProvider | WebSocketProvider
+) => {
+  // the blocks holding calls to the filtered addresses
+  const withCalls =
+    sync.callFilter &&
+    (await getCallBlocks(
+      sync.callFilter,
+      fromBlock,
+      toBlock,
+      provider,
+      sync.opts?.traceCalls || false
+    ));
+  // collect the blocks that will fire
+  const blocks: number[] = [];
+  for (let number = fromBlock; number <= toBlock; number += 1) {
+    if (
+      isEveryBlock(number, sync.every, sync.startBlock) &&
+      (!withCalls || withCalls.has(number))
+    ) {
+      blocks.push(number);
+    }
+  }
+
+  // wrap the blocks with the known type
+  return wrapBlockRes(blocks, provider, toBlock);
+};
+
+// events which are raised against the network rather than emitted by contracts
+export const NETWORK_EVENTS = ["onBlock", "onTransaction", "withPromises"];
+
+// split the addresses into chunks of at most limit addresses (without addresses we make a single address-less request)
+const createAddressChunks = (addresses: string[] | undefined, limit: number) =>
+  addresses
+    ? Array.from({ length: Math.ceil(addresses.length / limit) }, (_, index) =>
+        addresses.slice(index * limit, (index + 1) * limit)
+      )
+    : [undefined];
@@ -203,6 +203,13 @@ export const fetchDataWithRetries = async <T>(
       // return the result
       if (data.result) return data.result as T;
 
+      // throw the rpc error so that the caller can act on its message
+      if (data.error) {
+        throw Object.assign(new Error(data.error.message), {
+          code: data.error.code,
+        });
+      }
+
       // throw to retry/end
       throw new Error("No response");
     },
@@ -1,7 +1,9 @@
 // index everything exported in the @/sync/tooling/network namespace
 export * from "@/sync/tooling/network/blocks";
+export * from "@/sync/tooling/network/calls";
 export * from "@/sync/tooling/network/events";
 export * from "@/sync/tooling/network/fetch";
 export * from "@/sync/tooling/network/ingestor";
+export * from "@/sync/tooling/network/logs";
 export * from "@/sync/tooling/network/providers";
 export * from "@/sync/tooling/network/transactions";
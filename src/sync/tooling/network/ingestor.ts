@@ -12,7 +12,10 @@ import { Migration, Sync, SyncConfig } from "@/sync/types";
 import { withHeapDump } from "@/utils/withHeapDump";
 
 // Supagraph block processing to divert events to user supplied handlers
-import { processListenerBlock } from "@/sync/tooling/processing";
+import {
+  processListenerBlock,
+  processListenerReorg,
+} from "@/sync/tooling/processing";
 
 // Fetch data using fetch against a provider RPC url
 import { fetchDataWithRetries } from "@/sync/tooling/network/fetch";
@@ -24,8 +27,14 @@ interface Block {
 }
 interface BlockData {
   number: number;
+  hash: string;
+  parentHash: string;
   transactions: { hash: string }[];
 }
+interface BlockHash {
+  number: number;
+  hash: string;
+}
 interface Tx {
   chainId: number;
   hash: string;
@@ -105,6 +114,12 @@ export class Ingestor {
   // The maximum number of retries before throwing an error when fetching
   private maxRetries: number = 3;
 
+  // The number of processed block hashes to keep per chain (the deepest reorg we can recover from)
+  private reorgDepth: number = 64;
+
+  // Window of recently processed block hashes by chainId (used to detect reorgs)
+  private blockHashes: Record<number, BlockHash[]> = {};
+
   // The number of workers to use for block data fetching
   private numBlockWorkers: number = 10;
 
@@ -132,6 +147,7 @@ export class Ingestor {
     rpcUrls = {},
     silent = false,
     maxRetries = 3,
+    reorgDepth = 64,
     numBlockWorkers = 10,
     numTransactionWorkers = 22,
   }: {
@@ -139,6 +155,7 @@ export class Ingestor {
     rpcUrls?: Record<number, string>;
     silent?: boolean;
     maxRetries?: number;
+    reorgDepth?: number;
     numBlockWorkers?: number;
     numTransactionWorkers?: number;
   }) {
@@ -148,6 +165,7 @@ export class Ingestor {
     this.rpcUrls = { ...this.rpcUrls, ...rpcUrls };
     // worker env options
     this.maxRetries = maxRetries;
+    this.reorgDepth = reorgDepth;
     this.numBlockWorkers = numBlockWorkers;
     this.numTransactionWorkers = numTransactionWorkers;
     // should we be printing logs/switch-heap-dump
@@ -188,6 +206,86 @@ export class Ingestor {
     this.incomingBlockQueue.push(block);
   }
 
+  // Record the hash of a processed block into the chains window
+  public recordBlock(chainId: number, block: BlockData) {
+    // reorg handling is disabled
+    if (!this.reorgDepth) return;
+    // drop anything at or above this height (we're replacing it with the canonical entry)
+    const window = (this.blockHashes[chainId] || []).filter(
+      (entry) => entry.number < +block.number
+    );
+    // push the new entry to the end of the window
+    window.push({
+      number: +block.number,
+      hash: block.hash,
+    });
+    // only keep the most recent reorgDepth entries
+    this.blockHashes[chainId] = window.slice(-this.reorgDepth);
+  }
+
+  // Check the block against the window and return the common ancestors blockNumber if the chain has reorged
+  public async findCommonAncestor(
+    chainId: number,
+    block: BlockData
+  ): Promise<number | undefined> {
+    // get the window for this chain
+    const window = this.blockHashes[chainId] || [];
+    // find the entry we expect to be the parent of this block
+    const parent = window.find((entry) => entry.number === +block.number - 1);
+
+    // if we havent seen the parent (or it matches) then there's nothing to resolve
+    if (!parent || parent.hash === block.parentHash) {
+      return undefined;
+    }
+
+    // walk back through the canonical chain until we find a hash that we've already processed
+    let { parentHash } = block;
+    for (
+      let number = +block.number - 1;
+      number >= window[0].number;
+      number -= 1
+    ) {
+      // find the entry we processed at this height
+      const entry = window.find((processed) => processed.number === number);
+      // the first match is the common ancestor
+      if (entry && entry.hash === parentHash) {
+        return number;
+      }
+      // step back to the canonical parent of this height
+      parentHash = (
+        await this.fetchBlockDataWithRetries(chainId, number, false)
+      ).parentHash;
+    }
+
+    // we can't recover if the reorg is deeper than the window
+    throw new Error(
+      `Reorg on chainId ${chainId} is deeper than ${this.reorgDepth} blocks - restart`
+    );
+  }
+
+  // Fetch a block and all of its receipts directly (bypassing the queues)
+  public async fetchBlockEntry(
+    chainId: number,
+    number: number
+  ): Promise<BlockEntry> {
+    // collect the block with its transactions
+    const block = await this.fetchBlockDataWithRetries(chainId, number);
+    // collect every receipt in the block
+    const receipts = await Promise.all(
+      block.transactions
+        .filter((v) => v)
+        .map(async (tx) => this.fetchTxDataWithRetries(chainId, tx))
+    );
+
+    // return in the same shape as the saveStream entries
+    return {
+      block,
+      receipts,
+      chainId,
+      number,
+    };
+  }
+
   // Logic to start the workers in both pools - this will enable block & tx fetching but not processing...
   public async startWorkers() {
     // if we havent started the listeners yet
@@ -633,11 +731,15 @@ export class Ingestor {
   }
 
   // Fetch the block data from the appropriate RPC
-  private async fetchBlockDataWithRetries(chainId: number, number: number) {
+  private async fetchBlockDataWithRetries(
+    chainId: number,
+    number: number,
+    withTransactions: boolean = true
+  ) {
     return fetchDataWithRetries<BlockData>(
       this.getRpcUrl(chainId),
       "eth_getBlockByNumber",
-      [`0x${number.toString(16)}`, true],
+      [`0x${number.toString(16)}`, withTransactions],
       this.maxRetries,
       this.silent
     );
@@ -732,6 +834,50 @@ export async function createIngestor(
   // get all chainIds for defined networks
   const { syncProviders } = await getNetworks();
 
+  // we can only recover from a reorg if the db can drop the orphaned entries (otherwise we don't track the blocks at all)
+  const canRollback = !!engine.db?.canRollback;
+  if (!canRollback && !engine.flags?.silent) {
+    console.log(
+      "\nReorg handling is disabled - the db does not retain history (use an immutable db to recover from reorgs)\n"
+    );
+  }
+
+  // process a block through the handlers and record its hash
+  const processBlock = async (ingestor: Ingestor, block: BlockEntry) => {
+    // attempt to process the block
+    await processListenerBlock(
+      // supply the config (incase we adjust providers mid sync)
+      config,
+      // blockNumber being processed...
+      +block.number,
+      // the chainId it belongs to...
+      +block.chainId,
+      // pass through the length of the queue for reporting and for deciding if we should be saving or not
+      ingestor.blockQueueLength,
+      // pass in the block and receipt data
+      {
+        // this is the full block with TransactionResponses
+        block: block.block,
+        // this is an index of all receipts against their txHash
+        receipts: block.receipts.reduce((receipts, receipt) => {
+          // index the receipts against their hash
+          receipts[receipt.transactionHash] = receipt;
+
+          // return all indexed receipts
+          return receipts;
+        }, {}),
+      },
+      // process indexedOps [by chain] each tick to associate any new syncs (cache and invalidate?)
+      await getIndexedSyncOps(),
+      // pass through the config flags...
+      engine.flags.collectBlocks,
+      engine.flags.collectTxReceipts,
+      engine.flags.silent
+    );
+    // record the hash so that we can check the next blocks parentHash against it
+    ingestor.recordBlock(+block.chainId, block.block);
+  };
+
   // return the new ingestor
   return new Ingestor({
     // place a withBlock function to handle processing
@@ -760,36 +906,33 @@ export async function createIngestor(
         );
         // try catch the attempt and throw to errorHandler with errors (to close connection)
         try {
-          // attempt to process the block
-          await processListenerBlock(
-            // supply the config (incase we adjust providers mid sync)
-            config,
-            // blockNumber being processed...
-            +block.number,
-            // the chainId it belongs to...
+          // check that this block builds on the blocks we've already processed
+          const ancestor = await ingestor.findCommonAncestor(
             +block.chainId,
-            // pass through the length of the queue for reporting and for deciding if we should be saving or not
-            ingestor.blockQueueLength,
-            // pass in the block and receipt data
-            {
-              // this is the full block with TransactionResponses
-              block: block.block,
-              // this is an index of all receipts against their txHash
-              receipts: block.receipts.reduce((receipts, receipt) => {
-                // index the receipts against their hash
-                receipts[receipt.transactionHash] = receipt;
-
-                // return all indexed receipts
-                return receipts;
-              }, {}),
-            },
-            // process indexedOps [by chain] each tick to associate any new syncs (cache and invalidate?)
-            await getIndexedSyncOps(),
-            // pass through the config flags...
-            engine.flags.collectBlocks,
-            engine.flags.collectTxReceipts,
-            engine.flags.silent
+            block.block
           );
+          // if the chain has reorged we need to drop the orphaned blocks and replay the canonical chain
+          if (typeof ancestor === "number") {
+            // rollback all entity writes after the common ancestor
+            await processListenerReorg(
+              +block.chainId,
+              ancestor,
+              engine.flags.silent
+            );
+            // process every canonical block between the ancestor and this block
+            for (
+              let number = ancestor + 1;
+              number < +block.number;
+              number += 1
+            ) {
+              await processBlock(
+                ingestor,
+                await ingestor.fetchBlockEntry(+block.chainId, number)
+              );
+            }
+          }
+          // process the new block
+          await processBlock(ingestor, block);
         } catch (e) {
           // reject on the handler (this will close the connection)
           errorHandler.reject(e);
@@ -806,6 +949,8 @@ export async function createIngestor(
       // return all urls indexed against chainId
       return rpcUrls;
     }, {}),
+    // how many blocks deep we can recover from a reorg (0 disables reorg handling)
+    reorgDepth: canRollback ? config.reorgDepth : 0,
     // pass through workers config
     numBlockWorkers,
     numTransactionWorkers,
@@ -910,7 +1055,12 @@ async function attachListeners(
   const listeners = await Promise.all(
     Object.keys(syncProviders).map(async (chainId) => {
       // construct a listener to attach to the provider
-      const listener = createListener(ingestor, controls, +chainId);
+      const listener = createListener(
+        ingestor,
+        controls,
+        +chainId,
+        engine.confirmations?.[+chainId] || 0
+      );
       // construct an error handler to attach to the provider
       const handler = createErrorHandler(errorHandlers);
 
@@ -945,15 +1095,18 @@ function createListener(
     inSync: boolean;
     listening?: boolean;
   },
-  chainId: number
+  chainId: number,
+  confirmations: number = 0
 ) {
   // return a closure to keep ref over the listener (for detach)
   return (number: number) => {
+    // only enqueue the block once it has been buried under the required number of confirmations
+    const confirmed = +number - Math.max(0, confirmations);
     // console.log("\nPushing block:", blockNumber, "on chainId:", chainId);
-    if (controls.listening) {
+    if (controls.listening && confirmed >= 0) {
       // push to the block stack to signal the block is retrievable (needs to be fetched and resolved by ingestor)
       ingestor.addBlock({
-        number: +number,
+        number: confirmed,
         chainId: +chainId,
       });
     }
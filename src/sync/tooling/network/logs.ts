@@ -0,0 +1,148 @@
+import { ethers } from "ethers";
+import { Log } from "@ethersproject/abstract-provider";
+import { JsonRpcProvider, WebSocketProvider } from "@ethersproject/providers";
+
+import { getEngine } from "@/sync/tooling/persistence/store";
+
+import { fetchDataWithRetries } from "@/sync/tooling/network/fetch";
+
+// the maximum no. of blocks to be attempted in any one eth_getLogs call
+export const RANGE_LIMIT = 100000;
+
+// the no. of times we'll attempt a range before splitting it on an unrecognised error
+export const LOGS_ATTEMPTS = 3;
+
+// the filter to place on each eth_getLogs request (without an address we match logs from any contract)
+export type LogsFilter = {
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+};
+
+// read the range size from the providers error (returns null if the error isn't about the size of the request)
+export const toRangeSize = (message: string, span: number) => {
+  // the provider suggested a range which will succeed ("Try with this block range [0x1, 0x2]")
+  const suggested = message.match(/\[(0x[0-9a-f]+),\s*(0x[0-9a-f]+)\]/i);
+  if (suggested) {
+    const size = parseInt(suggested[2], 16) - parseInt(suggested[1], 16) + 1;
+
+    return { size: size > 0 && size < span ? size : Math.floor(span / 2) };
+  }
+
+  // the provider told us the most blocks it will accept ("exceed maximum block range: 5000", "up to a 2K block range")
+  const limit =
+    /range/i.test(message) &&
+    message.match(
+      /(?:max(?:imum)?|limit(?:ed)?(?: to)?|up to)(?: a| of)?(?: block range)?[:\s]*(\d[\d,]*)(k?)\b/i
+    );
+  if (limit) {
+    const size =
+      +limit[1].replace(/,/g, "") * (limit[2].toLowerCase() === "k" ? 1000 : 1);
+
+    return size > 0 && size < span
+      ? { size, limit: size }
+      : { size: Math.floor(span / 2) };
+  }
+
+  // too many results or the request took too long
+  if (
+    /range|more than|too many|too large|response size|timeout|timed out|abort/i.test(
+      message
+    )
+  ) {
+    return { size: Math.floor(span / 2) };
+  }
+
+  return null;
+};
+
+// get all logs matching the filter in the range (the range is split to fit the provider and the best size is remembered for later requests)
+export const getLogs = async (
+  provider: JsonRpcProvider | WebSocketProvider,
+  filter: LogsFilter,
+  fromBlock: number,
+  toBlock: number,
+  silent: boolean
+) => {
+  // get the global engine
+  const engine = await getEngine();
+  // requests are sent directly to the rpc (when it's served over http)
+  const { url } = provider.connection;
+  // the range we're requesting from this provider (shared by every request against it)
+  engine.logRanges = engine.logRanges || {};
+  engine.logRanges[url] = engine.logRanges[url] || {
+    size: RANGE_LIMIT,
+    limit: RANGE_LIMIT,
+  };
+  const range = engine.logRanges[url];
+  // all logs in the range
+  const logs: Log[] = [];
+  // attempts made against the current range
+  let attempts = 0;
+
+  // walk the range one request at a time
+  while (fromBlock <= toBlock) {
+    // never request more than the provider will accept
+    const to = Math.min(
+      fromBlock + Math.max(1, Math.min(range.size, range.limit)) - 1,
+      toBlock
+    );
+    const span = to - fromBlock + 1;
+
+    try {
+      // the filter for this range
+      const params = [
+        {
+          ...filter,
+          fromBlock: ethers.utils.hexValue(fromBlock),
+          toBlock: ethers.utils.hexValue(to),
+        },
+      ];
+      // get every log in this range (only http rpcs can be fetched directly, anything else is sent over the providers own connection)
+      const res: unknown[] = /^https?:\/\//i.test(url)
+        ? await fetchDataWithRetries<unknown[]>(
+            url,
+            "eth_getLogs",
+            params,
+            1,
+            silent
+          )
+        : await provider.send("eth_getLogs", params);
+      // format the logs as ethers would
+      logs.push(...res.map((log) => provider.formatter.filterLog(log)));
+      // grow back towards the limit when the full range succeeded
+      if (span === range.size) {
+        range.size = Math.min(range.size * 2, range.limit);
+      }
+      // move from for next tick
+      fromBlock = to + 1;
+      attempts = 0;
+    } catch (e) {
+      // check if the provider is telling us how big the request can be
+      const resized = span > 1 && toRangeSize(`${e?.message}`, span);
+      if (resized) {
+        // remember the providers hard limit
+        if (resized.limit) range.limit = resized.limit;
+        // reattempt with the smaller range
+        range.size = resized.size;
+        attempts = 0;
+      } else if (attempts + 1 < LOGS_ATTEMPTS) {
+        // reattempt the same range
+        attempts += 1;
+        if (!silent) console.log("Failed to get logs, retrying", e);
+        // wait before the next attempt
+        await new Promise((resolve) => {
+          setTimeout(resolve, attempts * 1000);
+        });
+      } else if (span > 1) {
+        // split the range in two and try again...
+        range.size = Math.floor(span / 2);
+        attempts = 0;
+      } else {
+        // we can't get the logs for a single block
+        throw e;
+      }
+    }
+  }
+
+  return logs;
+};
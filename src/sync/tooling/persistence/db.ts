@@ -2,7 +2,14 @@
 import dotenv from "dotenv";
 
 // Import types used by db
-import { BatchOp, Engine, KV } from "@/sync/types";
+import {
+  BatchOp,
+  CacheMetrics,
+  CachePolicy,
+  Engine,
+  KV,
+  QueryOptions,
+} from "@/sync/types";
 
 // Import node-persist to power the local db store (this could be replace with something like sqlite)
 import Storage from "node-persist";
@@ -10,6 +17,12 @@ import Storage from "node-persist";
 // Get the user land current working directory
 import { cwd } from "@/utils";
 
+// Track the entries held in the kv store to keep it within budget
+import { LRU } from "@/sync/tooling/persistence/lru";
+
+// Filter the entries in memory when we can't query them at source
+import { queryEntries } from "@/sync/tooling/persistence/query";
+
 // load the .env to check NODE_ENV (only used for this purpose)
 dotenv.config();
 
@@ -32,11 +45,28 @@ export class DB {
 
   useStorage?: boolean;
 
+  // bounds placed on the kv store
+  cachePolicy?: CachePolicy;
+
+  // tracks the recency and size of every entry in the kv store (only defined when we have a cachePolicy)
+  cache?: LRU<null>;
+
+  // hit/miss record for the kv store
+  metrics: CacheMetrics;
+
+  // are batches written atomically? (when set the sync pointers are committed in the same batch as the entities)
+  transactional?: boolean;
+
   // construct a kv store
-  constructor(kv: KV, engine?: Engine) {
+  constructor(kv: KV, engine?: Engine, cachePolicy?: CachePolicy) {
     // restore given kv
     this.kv = kv || {};
     this.engine = engine || ({} as Engine);
+    // start the metrics
+    this.metrics = { hits: 0, misses: 0, evictions: 0, entries: 0, bytes: 0 };
+    // record the policy and start tracking the kv
+    this.cachePolicy = cachePolicy;
+    this.resetCache();
   }
 
   static async create({
@@ -44,13 +74,15 @@ export class DB {
     name,
     reset,
     engine,
+    cache,
   }: {
     kv: KV;
     name?: string;
     reset?: boolean;
     engine?: Engine;
+    cache?: CachePolicy;
   } & Record<string, unknown>) {
-    const db = new this(kv, engine);
+    const db = new this(kv, engine, cache);
     await db.update({ kv, name, reset });
     return db as DB & Record<string, any>;
   }
@@ -89,6 +121,89 @@ export class DB {
 
     // restore the kv store
     this.kv = kvs;
+    // track the restored entries (evicting anything over budget)
+    this.resetCache();
+  }
+
+  // start tracking every entry held in the kv store against the cachePolicy
+  resetCache() {
+    // only bound the kv if we've been given limits
+    this.cache =
+      this.cachePolicy?.maxEntries || this.cachePolicy?.maxBytes
+        ? new LRU<null>(this.cachePolicy.maxBytes, {
+            maxEntries: this.cachePolicy.maxEntries,
+            // entries held in an open checkpoint haven't been committed yet
+            canEvict: (key) =>
+              !this.engine?.stage?.checkpoints?.some(({ keyValueMap }) =>
+                keyValueMap.has(key)
+              ),
+            // drop the entry from the kv (it will be read from the db on next access)
+            onEvict: (key) => {
+              const [ref, id] = key.split(".");
+              if (this.kv[ref]) delete this.kv[ref][id];
+            },
+          })
+        : undefined;
+    // record everything we're currently holding
+    if (this.cache) {
+      Object.keys(this.kv).forEach((ref) => {
+        Object.keys(this.kv[ref] || {}).forEach((id) => this.cached(ref, id));
+      });
+    }
+    // reset the record
+    this.recordMetrics();
+  }
+
+  // record a write into the kv store against the cachePolicy (this should only be called after the value has been committed)
+  cached(ref: string, id: string) {
+    if (this.cache) {
+      // track the entry if its present
+      if (this.kv[ref]?.[id]) {
+        this.cache.set(`${ref}.${id}`, null, LRU.sizeOf(this.kv[ref][id]));
+      } else {
+        this.cache.delete(`${ref}.${id}`);
+      }
+      // update the record
+      this.recordMetrics();
+    }
+  }
+
+  // record a read against the kv store
+  lookup(ref: string, id: string) {
+    // get the value from the kv store
+    const val = this.kv[ref]?.[id];
+
+    // mark as recently used
+    if (val) this.cache?.get(`${ref}.${id}`);
+
+    // record the hit/miss
+    this.metrics[val ? "hits" : "misses"] += 1;
+    this.recordMetrics();
+
+    return val;
+  }
+
+  // are misses answered by the kv alone? (warmDb loads every entry into the kv but anything evicted since must be read back from the db)
+  get warm() {
+    return !!this.engine?.warmDb && !this.cache?.evictions;
+  }
+
+  // can the db drop the entries written after a block? (only immutable dbs which override rollback retain the history to restore)
+  get canRollback() {
+    return (
+      !(this as { mutable?: boolean }).mutable &&
+      this.rollback !== DB.prototype.rollback
+    );
+  }
+
+  // expose the cache performance to the engine
+  recordMetrics() {
+    // copy the cache state into the metrics
+    this.metrics.evictions = this.cache?.evictions || 0;
+    this.metrics.entries = this.cache?.length || 0;
+    this.metrics.bytes = this.cache?.bytes || 0;
+    // place against the engine
+    if (this.engine) this.engine.cacheMetrics = this.metrics;
   }
 
   async get(key: string) {
@@ -97,12 +212,35 @@ export class DB {
 
     if (ref && id) {
       // console.log(`getting ${key}`);
-      const val = this.kv[ref]?.[id];
+      const val = this.lookup(ref, id);
 
       // return the value
       if (val) return val;
+
+      // evicted entries are restored from storage
+      if (this.cache && this.useStorage) {
+        const stored = await Storage?.get?.(key);
+
+        // place back into the kv
+        if (stored) {
+          this.kv[ref] = this.kv[ref] || {};
+          this.kv[ref][id] = stored;
+          this.cached(ref, id);
+
+          return stored;
+        }
+      }
     }
-    if (ref && !id) {
+    if (ref && !id && this.cache && this.useStorage) {
+      // the kv might not hold every entry so we read them all from storage
+      const keys = ((await Storage?.keys?.()) || []).filter(
+        (storedKey) => storedKey.indexOf(`${ref}.`) === 0
+      );
+
+      // return the collection
+      if (keys.length)
+        return Promise.all(keys.map((storedKey) => Storage?.get?.(storedKey)));
+    } else if (ref && !id) {
       // console.log(`getting ${ref}`);
       const val = this.kv[ref];
 
@@ -114,6 +252,18 @@ export class DB {
     throw new NotFound("Not Found");
   }
 
+  // get the entries of the ref which match the where clause (sorted and paginated) - adapters should override this to run the query at source
+  async query(ref: string, options: QueryOptions = {}) {
+    // read every entry for the ref (missing refs hold no entries)
+    const values = ((await this.get(ref).catch(() => [])) || []) as Record<
+      string,
+      unknown
+    >[];
+
+    // filter, sort and paginate in memory
+    return queryEntries(values, options);
+  }
+
   async put(key: string, val: Record<string, unknown>) {
     // spit the key and get from kv store
     const [ref, id] = key.split(".");
@@ -128,6 +278,9 @@ export class DB {
       // set into cache
       if (this.useStorage) await Storage?.set?.(key, val);
 
+      // track the entry
+      this.cached(ref, id);
+
       return true;
     }
 
@@ -148,6 +301,9 @@ export class DB {
       // clear from storage
       if (this.useStorage) await Storage?.del?.(key);
 
+      // stop tracking the entry
+      this.cached(ref, id);
+
       return true;
     }
 
@@ -167,17 +323,33 @@ export class DB {
           this.kv[ref][id] = val.value;
           // set into cache
           if (this.useStorage) await Storage?.set?.(val.key, val.value);
+          // track the entry
+          this.cached(ref, id);
         } else if (val.type === "del") {
           // console.log(`batch - delete ${val.key}`);
           delete this.kv[ref][id];
           // clear from storage
           if (this.useStorage) await Storage?.del?.(val.key);
+          // stop tracking the entry
+          this.cached(ref, id);
         }
       })
     );
 
     return true;
   }
+
+  // drop all entries written on chainId after the given blockNumber (used to recover from reorgs)
+  async rollback(chainId: number, blockNumber: number) {
+    // the kv store only holds the latest state for each key - there is no history to restore to
+    if (!this.engine?.flags?.silent) {
+      console.log(
+        `Unable to rollback chainId ${chainId} to block ${blockNumber} - history is not retained by this db`
+      );
+    }
+
+    return false;
+  }
 }
 
 export default DB;
@@ -1,7 +1,13 @@
 // index everything exported in the @/sync/tooling/persistence namespace
 export * from "@/sync/tooling/persistence/db";
 export * from "@/sync/tooling/persistence/disk";
+export * from "@/sync/tooling/persistence/keyIndex";
+export * from "@/sync/tooling/persistence/lru";
 export * from "@/sync/tooling/persistence/mongo";
+export * from "@/sync/tooling/persistence/postgres";
+export * from "@/sync/tooling/persistence/progress";
+export * from "@/sync/tooling/persistence/query";
+export * from "@/sync/tooling/persistence/sqlite";
 export * from "@/sync/tooling/persistence/stage";
 export * from "@/sync/tooling/persistence/meta";
 export * from "@/sync/tooling/persistence/store";
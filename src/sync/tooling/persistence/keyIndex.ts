@@ -0,0 +1,303 @@
+/* eslint-disable no-bitwise */
+// KeyIndex records which keys exist in a db (bloom filter per ref) and caches recently read values (LRU) so that we can skip lookups for entities that don't exist yet
+import { promises as fs } from "fs";
+import { dirname } from "path";
+
+// Get the user land current working directory
+import { cwd } from "@/utils";
+
+// Bounded cache for recently read values
+import { LRU } from "@/sync/tooling/persistence/lru";
+
+// options accepted when constructing a KeyIndex
+export type KeyIndexOptions = {
+  // name of the index file (defaults to the db name)
+  name?: string;
+  // number of keys we expect to hold in each ref before the error rate starts to climb
+  capacity?: number;
+  // acceptable false positive rate at capacity
+  errorRate?: number;
+  // memory budget (in bytes) for the LRU value cache
+  maxBytes?: number;
+  // should the filters be persisted to disk between runs?
+  persist?: boolean;
+};
+
+// serialised form of a bloom filter
+type BloomFilterJSON = {
+  size: number;
+  hashes: number;
+  bits: string;
+};
+
+// 32bit FNV-1a hash with a seed (used to derive the k hash positions)
+const fnv1a = (key: string, seed: number) => {
+  // start from the offset basis mixed with the seed
+  let hash = (2166136261 ^ seed) >>> 0;
+  // mix in each char of the key
+  for (let i = 0; i < key.length; i += 1) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 16777619) >>> 0;
+  }
+
+  return hash >>> 0;
+};
+
+// Probabilistic set membership - has() can return false positives but never false negatives
+export class BloomFilter {
+  // number of bits in the filter
+  size: number;
+
+  // number of hash positions set for each key
+  hashes: number;
+
+  // the bit array
+  bits: Uint8Array;
+
+  constructor(size: number, hashes: number, bits?: Uint8Array) {
+    // record the shape
+    this.size = size;
+    this.hashes = hashes;
+    // start with every bit cleared
+    this.bits = bits || new Uint8Array(Math.ceil(size / 8));
+  }
+
+  // construct a filter which holds the given capacity at the given error rate
+  static forCapacity(capacity: number, errorRate: number) {
+    // optimal number of bits for n items at p error rate
+    const size = Math.max(
+      8,
+      Math.ceil((-capacity * Math.log(errorRate)) / Math.LN2 ** 2)
+    );
+    // optimal number of hash functions for the size
+    const hashes = Math.max(1, Math.round((size / capacity) * Math.LN2));
+
+    return new BloomFilter(size, hashes);
+  }
+
+  // restore a filter from its serialised form
+  static fromJSON({ size, hashes, bits }: BloomFilterJSON) {
+    return new BloomFilter(
+      size,
+      hashes,
+      new Uint8Array(Buffer.from(bits, "base64"))
+    );
+  }
+
+  // get the bit positions for the key (using double hashing)
+  positions(key: string) {
+    // two independent hashes
+    const h1 = fnv1a(key, 0);
+    const h2 = fnv1a(key, h1) || 1;
+
+    // derive k positions from the pair
+    return Array.from(
+      { length: this.hashes },
+      (_, i) => (h1 + i * h2) % this.size
+    );
+  }
+
+  // record the key
+  add(key: string) {
+    this.positions(key).forEach((position) => {
+      this.bits[position >> 3] |= 1 << (position & 7);
+    });
+  }
+
+  // check if the key might have been recorded
+  has(key: string) {
+    return this.positions(key).every(
+      (position) => (this.bits[position >> 3] & (1 << (position & 7))) !== 0
+    );
+  }
+
+  // serialise the filter
+  toJSON(): BloomFilterJSON {
+    return {
+      size: this.size,
+      hashes: this.hashes,
+      bits: Buffer.from(this.bits).toString("base64"),
+    };
+  }
+}
+
+// Index of every key held in a db (per ref) with a bounded cache of recently read values
+export class KeyIndex {
+  // location of the persisted filters
+  file: string;
+
+  // capacity used when creating a new filter
+  capacity: number;
+
+  // error rate used when creating a new filter
+  errorRate: number;
+
+  // should we write the filters to disk?
+  persist: boolean;
+
+  // a filter for each ref that has been seeded
+  filters: Record<string, BloomFilter>;
+
+  // recently read values by key
+  values: LRU<Record<string, unknown>>;
+
+  // have the persisted filters been read?
+  loaded?: Promise<void>;
+
+  // refs being seeded from the db
+  seeding: Record<string, Promise<void>>;
+
+  // keys added to refs while they were being seeded
+  pending: Record<string, string[]>;
+
+  // have the filters changed since they were last saved?
+  dirty: boolean;
+
+  // has the persisted file been removed because it no longer holds every key?
+  stale: boolean;
+
+  constructor({
+    name,
+    capacity = 1000000,
+    errorRate = 0.01,
+    maxBytes = 64 * 1024 * 1024,
+    persist = true,
+  }: KeyIndexOptions = {}) {
+    // place the file alongside the rest of the local artifacts
+    this.file = `${cwd}${name || "supagraph"}.index.json`;
+    // record the filter shape
+    this.capacity = capacity;
+    this.errorRate = errorRate;
+    // record if we're persisting
+    this.persist = persist;
+    // start with no filters (refs are seeded on first access)
+    this.filters = {};
+    this.seeding = {};
+    this.pending = {};
+    this.dirty = false;
+    this.stale = false;
+    // start with an empty value cache
+    this.values = new LRU(maxBytes);
+  }
+
+  // read any persisted filters from disk (only once)
+  async load() {
+    // only read the file the first time we're asked
+    this.loaded =
+      this.loaded ||
+      (async () => {
+        if (this.persist) {
+          try {
+            // read and parse the file
+            const filters = JSON.parse(
+              await fs.readFile(this.file, { encoding: "utf8" })
+            ) as Record<string, BloomFilterJSON>;
+            // restore each filter
+            Object.keys(filters).forEach((ref) => {
+              this.filters[ref] = BloomFilter.fromJSON(filters[ref]);
+            });
+          } catch {
+            // missing or corrupt files are rebuilt from the db
+            this.filters = {};
+          }
+        }
+      })();
+
+    return this.loaded;
+  }
+
+  // write every filter to disk if they've changed (we write to a tmp file and move it into place so that a crash never leaves a partial file)
+  async save() {
+    if (this.persist && this.dirty) {
+      // mark as clean before writing so that changes made during the write are saved next time
+      this.dirty = false;
+      // make sure the directory exists
+      await fs.mkdir(dirname(this.file), { recursive: true });
+      // write then move into place
+      await fs.writeFile(`${this.file}.tmp`, JSON.stringify(this.filters));
+      await fs.rename(`${this.file}.tmp`, this.file);
+      // the file holds every key again
+      this.stale = false;
+      // unless keys were added during the write
+      if (this.dirty) await this.invalidate();
+    }
+  }
+
+  // remove the persisted filters once they're missing keys (cheaper than saving on every write - a crash before the next save rebuilds the filters from the db rather than trusting a file which is missing keys)
+  async invalidate() {
+    if (this.persist && this.dirty && !this.stale) {
+      // only remove the file once between saves
+      this.stale = true;
+      await fs.rm(this.file, { force: true });
+    }
+  }
+
+  // seed the ref with every id held in the db (only once per ref - persisted filters are used as-is)
+  async seed(ref: string, ids: () => AsyncIterable<string> | Iterable<string>) {
+    // make sure we've read the persisted filters first
+    await this.load();
+
+    // only seed each ref once
+    this.seeding[ref] =
+      this.seeding[ref] ||
+      (async () => {
+        if (!this.filters[ref]) {
+          // collect any keys added while we're reading from the db
+          this.pending[ref] = [];
+          // start a fresh filter
+          const filter = BloomFilter.forCapacity(this.capacity, this.errorRate);
+          // record every id held in the db
+          // eslint-disable-next-line no-restricted-syntax
+          for await (const id of ids()) {
+            filter.add(`${id}`);
+          }
+          // record anything added during the read
+          this.pending[ref].forEach((id) => filter.add(id));
+          delete this.pending[ref];
+          // mark the ref as seeded
+          this.filters[ref] = filter;
+          this.dirty = true;
+          // persist the new filter
+          await this.save();
+        }
+      })();
+
+    return this.seeding[ref];
+  }
+
+  // might the db hold the key? (unseeded refs always might)
+  has(ref: string, id: string) {
+    return !this.filters[ref] || this.filters[ref].has(id);
+  }
+
+  // record a key that is about to be written (this must happen before the write so that the index is always a superset of the db)
+  add(ref: string, id: string) {
+    if (this.filters[ref]) {
+      // only mark as dirty if this is a new key
+      if (!this.filters[ref].has(id)) {
+        this.filters[ref].add(id);
+        this.dirty = true;
+      }
+    } else {
+      // refs being seeded will add the key when the read completes (unseeded refs will read the key from the db)
+      this.pending[ref]?.push(id);
+    }
+  }
+
+  // get a cached value
+  get(ref: string, id: string) {
+    return this.values.get(`${ref}.${id}`);
+  }
+
+  // cache a value
+  set(ref: string, id: string, value: Record<string, unknown>) {
+    this.values.set(`${ref}.${id}`, value);
+  }
+
+  // drop a cached value
+  delete(ref: string, id: string) {
+    this.values.delete(`${ref}.${id}`);
+  }
+}
+
+export default KeyIndex;
@@ -0,0 +1,146 @@
+// options to control which entries are held by an LRU
+export type LRUOptions<T> = {
+  // max number of entries we're willing to hold
+  maxEntries?: number;
+  // entries which can't be evicted are skipped over until they can be
+  canEvict?: (key: string, value: T) => boolean;
+  // called for every entry removed to meet the budget
+  onEvict?: (key: string, value: T) => void;
+};
+
+// Least-recently-used cache bounded by an approximate memory budget
+export class LRU<T> {
+  // max number of bytes we're willing to hold
+  maxBytes: number;
+
+  // max number of entries we're willing to hold
+  maxEntries: number;
+
+  // approx number of bytes currently held
+  bytes: number;
+
+  // number of entries removed to meet the budget
+  evictions: number;
+
+  // Map iterates in insertion order so the first entry is always the least recently used
+  entries: Map<string, { value: T; bytes: number }>;
+
+  // eviction hooks
+  canEvict?: LRUOptions<T>["canEvict"];
+
+  onEvict?: LRUOptions<T>["onEvict"];
+
+  constructor(
+    maxBytes: number = Infinity,
+    { maxEntries = Infinity, canEvict, onEvict }: LRUOptions<T> = {}
+  ) {
+    // set the budget
+    this.maxBytes = maxBytes;
+    this.maxEntries = maxEntries;
+    // set the hooks
+    this.canEvict = canEvict;
+    this.onEvict = onEvict;
+    // start empty
+    this.bytes = 0;
+    this.evictions = 0;
+    this.entries = new Map();
+  }
+
+  // approximate the size of a value (strings are held as utf-16)
+  static sizeOf(value: unknown) {
+    return (JSON.stringify(value) || "").length * 2;
+  }
+
+  // number of entries held
+  get length() {
+    return this.entries.size;
+  }
+
+  // are we holding more than the budget allows?
+  get overBudget() {
+    return this.bytes > this.maxBytes || this.entries.size > this.maxEntries;
+  }
+
+  // check for the entry without changing its position
+  has(key: string) {
+    return this.entries.has(key);
+  }
+
+  // get the value and mark it as most recently used
+  get(key: string) {
+    const entry = this.entries.get(key);
+
+    // move to the back of the queue
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+
+    return entry?.value;
+  }
+
+  // set the value and evict the least recently used entries until we're within budget
+  set(key: string, value: T, bytes = LRU.sizeOf(value)) {
+    // remove the current entry so that we can reinsert at the back
+    this.delete(key);
+
+    // never hold anything larger than the full budget
+    if (bytes <= this.maxBytes) {
+      this.entries.set(key, { value, bytes });
+      this.bytes += bytes;
+    } else {
+      // the value is dropped immediately
+      this.evict(key, value);
+    }
+
+    // evict from the front until we're back within budget
+    this.prune();
+  }
+
+  // remove the entry
+  delete(key: string) {
+    const entry = this.entries.get(key);
+
+    // release the entries bytes
+    if (entry) {
+      this.entries.delete(key);
+      this.bytes -= entry.bytes;
+    }
+  }
+
+  // remove the least recently used (evictable) entries until we're within budget
+  prune() {
+    // walk from the front (least recently used) skipping anything we can't evict
+    const keys = this.entries.keys();
+    let next = keys.next();
+
+    while (this.overBudget && !next.done) {
+      // the iterator survives deletes of the current key
+      const key = next.value as string;
+      const { value } = this.entries.get(key)!;
+
+      // move on before we delete
+      next = keys.next();
+
+      // drop the entry if we're allowed to
+      if (!this.canEvict || this.canEvict(key, value)) {
+        this.delete(key);
+        this.evict(key, value);
+      }
+    }
+  }
+
+  // record the eviction
+  evict(key: string, value: T) {
+    this.evictions += 1;
+    this.onEvict?.(key, value);
+  }
+
+  // remove everything
+  clear() {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+}
+
+export default LRU;
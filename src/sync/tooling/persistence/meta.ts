@@ -4,13 +4,15 @@ import { Block } from "@ethersproject/abstract-provider";
 
 import { getNetworks, getProvider } from "@/sync/tooling/network/providers";
 
-import { syncs, setSyncs } from "@/sync/config";
+import { noop, syncs, setSyncs, toCallFilter, toCreates } from "@/sync/config";
 import { Sync, SyncOp, SyncEvent, SyncConfig, Handlers } from "@/sync/types";
 
 import { Entity, getEngine, Store } from "@/sync/tooling/persistence/store";
 
 import { toEventData } from "@/utils/toEventData";
 
+import { getSyncProgress } from "@/sync/tooling/persistence/progress";
+
 // how long to lock the db between sync attempts
 export const LOCKED_FOR = 10;
 
@@ -41,6 +43,8 @@ export const getLatestSyncMeta = async () => {
         id: string;
         latestBlock: number;
         latestBlockTime: number;
+        latestBlockHash: string;
+        hasIndexingErrors: boolean;
         locked: boolean;
         lockedAt: number;
         _block_num: number;
@@ -64,6 +68,12 @@ export const getLatestSyncMeta = async () => {
     })
   );
 
+  // only a full catchup can be resumed (runs which start/stop on a stage are already working from the tmp captures)
+  engine.progress =
+    !engine.flags?.start && !engine.flags?.stop
+      ? await getSyncProgress()
+      : undefined;
+
   // return all details of latest load
   return {
     locked,
@@ -148,6 +158,13 @@ export const updateSyncPointers = async (
         engine.startBlocks[chainId];
       // if timestamp isnt available default to using blockNumber in its place
       const latestTimestamp = chainsLatestBlock?.timestamp || latestBlockNumber;
+      // take the hash from the event or from the block we're listening to (if its the same block)
+      const latestBlockHash =
+        toEventData(chainsLatestBlock?.data).blockHash ||
+        (engine.latestBlocks?.[chainId] &&
+          +engine.latestBlocks[chainId].number === +latestBlockNumber &&
+          engine.latestBlocks[chainId].hash) ||
+        undefined;
 
       // grab from and to blocks
       const fromBlock = +engine.startBlocks[chainId];
@@ -188,13 +205,17 @@ export const updateSyncPointers = async (
         // set the latest entry
         engine.latestEntity[chainId].set("latestBlock", +latestBlockNumber);
         engine.latestEntity[chainId].set("latestBlockTime", +latestTimestamp);
+        // only record the hash when we know it (otherwise clear the stale hash)
+        engine.latestEntity[chainId].set("latestBlockHash", latestBlockHash);
+        // we've moved passed the block without error
+        engine.latestEntity[chainId].set("hasIndexingErrors", false);
       } else {
         // clear the block to avoid altering _block_num and _block_ts on this run
         engine.latestEntity[chainId].block = undefined;
       }
 
-      // when listening we can leave this locked until later
-      if (!engine.flags.listen) {
+      // when listening (or part way through a windowed catchup) we can leave this locked until later
+      if (!engine.flags.listen && !engine.window) {
         // remove the lock for the next iteration
         engine.latestEntity[chainId].set("locked", false);
       }
@@ -205,6 +226,23 @@ export const updateSyncPointers = async (
   );
 };
 
+// mark the chain as having failed to index (exposed via _meta.hasIndexingErrors)
+export const recordIndexingError = async (chainId: number) => {
+  // get the engine
+  const engine = await getEngine();
+
+  // we can only record the error against a chain we've loaded the pointers for
+  if (engine.latestEntity?.[chainId]) {
+    // mark the failure
+    engine.latestEntity[chainId].set("hasIndexingErrors", true);
+    // write directly to the db (the open checkpoints are discarded when the handler throws)
+    await engine.db.put(
+      `__meta__.${chainId}`,
+      engine.latestEntity[chainId].valueOf() as Record<string, unknown>
+    );
+  }
+};
+
 // reset locks on all chains
 export const releaseSyncPointerLocks = async (chainIds: Set<number>) => {
   // use global store
@@ -222,6 +260,8 @@ export const releaseSyncPointerLocks = async (chainIds: Set<number>) => {
           id: string;
           latestBlock: number;
           latestBlockTime: number;
+          latestBlockHash: string;
+          hasIndexingErrors: boolean;
           locked: boolean;
           lockedAt: number;
           _block_num: number;
@@ -288,8 +328,13 @@ export const updateSyncsOpsMeta = async (
         mode: sync.opts?.mode || "config",
         collectBlocks: sync.opts?.collectBlocks || false,
         collectTxReceipts: sync.opts?.collectTxReceipts || false,
+        traceCalls: sync.opts?.traceCalls || false,
         startBlock: sync.startBlock,
         endBlock: sync.endBlock,
+        creates: sync.creates,
+        filters: sync.filters && { [sync.eventName]: sync.filters },
+        every: sync.every,
+        callFilter: sync.callFilter,
       };
     })
   );
@@ -346,14 +391,17 @@ export const restoreSyncOps = async (
       // assign db stored syncs in to the engine so long as they hold a "runtime" mode opt
       await Promise.all(
         syncOpsMeta.syncOps.map(async (syncOp) => {
+          // each sync is persisted against a single address
+          const address = syncOp.address as string | undefined;
           // get the checksum address
           const cbAddress =
-            (syncOp.address &&
-              `${syncOp.chainId.toString()}-${getAddress(syncOp.address)}`) ||
+            (address &&
+              `${syncOp.chainId.toString()}-${getAddress(address)}`) ||
             syncOp.chainId.toString();
           // so long as the handler is defined and the item was added in "runtime" mode...
           if (
-            handlers[syncOp.handlers][syncOp.eventName] &&
+            (handlers[syncOp.handlers]?.[syncOp.eventName] ||
+              toCreates(syncOp.creates).length) &&
             // ie; only restore syncs which havent been hardcoded into the config
             !engine.opSyncs[`${cbAddress}-${syncOp.eventName}`] &&
             // if we've restarted back to startBlock then we can replace this sync at runtime again with an addSync in the same place (if we need to remove all of associations we can change the handler refs)
@@ -380,15 +428,20 @@ export const restoreSyncOps = async (
               chainId: syncOp.chainId,
               startBlock: syncOp.startBlock,
               endBlock: syncOp.endBlock,
-              address: syncOp.address,
+              address,
               events: syncOp.events,
               handlers: syncOp.handlers,
+              creates: toCreates(syncOp.creates),
+              filters: syncOp.filters?.[syncOp.eventName],
+              every: syncOp.every,
+              callFilter: toCallFilter(syncOp.callFilter),
               opts: {
                 mode: syncOp.mode,
                 collectBlocks: syncOp.collectBlocks,
                 collectTxReceipts: syncOp.collectTxReceipts,
+                traceCalls: syncOp.traceCalls,
               },
-              onEvent: handlers[syncOp.handlers][syncOp.eventName],
+              onEvent: handlers[syncOp.handlers]?.[syncOp.eventName] || noop,
             };
             // assign into engine
             engine.opSyncs[`${cbAddress}-${syncOp.eventName}`] = opSync;
@@ -1,6 +1,7 @@
 // Mongo class wraps mongo with a simple entity management system (abstract-leveldown compatible)
 import type {
   AnyBulkWriteOperation,
+  ClientSession,
   Document,
   Filter,
   MongoClient,
@@ -9,9 +10,22 @@ import type {
 } from "mongodb";
 
 // Extend from db (abstract-leveldown compatible kv implementation)
-import { BatchOp, Engine, KV } from "@/sync/types";
+import { BatchOp, CachePolicy, Engine, KV, QueryOptions } from "@/sync/types";
 import { DB, NotFound } from "@/sync/tooling/persistence/db";
 
+// Match where values in the form they're stored
+import { isNumeric, toStoredValue } from "@/sync/tooling/persistence/query";
+
+// Index of the keys held in mongo (lets us skip lookups for entities that don't exist yet)
+import { KeyIndex, KeyIndexOptions } from "@/sync/tooling/persistence/keyIndex";
+
+// transaction errors which won't succeed on retry
+const FATAL_TRANSACTION_ERRORS = [
+  "TransactionTooLarge",
+  "TransactionTooLargeForCache",
+  "TransactionExceededLifetimeLimitSeconds",
+];
+
 // Simple key-value database store (abstract-leveldown compliant)
 export class Mongo extends DB {
   // kv store holds a materialised view of current state in local cache (by ref.id)
@@ -35,16 +49,25 @@ export class Mongo extends DB {
   // selected db on the mongo client
   _db: ReturnType<MongoClient["db"]> | Promise<ReturnType<MongoClient["db"]>>;
 
+  // optional index of every key held in the db (consulted before we hit findOne)
+  index?: KeyIndex;
+
+  // should batches be written inside a single session transaction?
+  declare transactional: boolean;
+
   // construct a kv store
   constructor(
     client: MongoClient | Promise<MongoClient>,
     name: string,
     kv: KV,
     mutable?: boolean,
-    engine?: Engine
+    engine?: Engine,
+    index?: KeyIndex | KeyIndexOptions | boolean,
+    cache?: CachePolicy,
+    transactional?: boolean
   ) {
     // init super
-    super(kv, engine);
+    super(kv, engine, cache);
     // establish connection
     this.client = client;
     // record the connection name
@@ -53,8 +76,20 @@ export class Mongo extends DB {
     this.mutable = mutable || false;
     // associate the engine
     this.engine = engine || ({} as Engine);
+    // write each batch in a transaction (requires a replica set)
+    this.transactional = transactional || false;
     // store the db client
     this._db = this.db();
+    // construct the key index if requested
+    this.index =
+      index instanceof KeyIndex
+        ? index
+        : index
+        ? new KeyIndex({
+            name,
+            ...(typeof index === "object" ? index : {}),
+          })
+        : undefined;
   }
 
   async db() {
@@ -86,14 +121,29 @@ export class Mongo extends DB {
     kv,
     mutable,
     engine,
+    index,
+    cache,
+    transactional,
   }: {
     client: MongoClient | Promise<MongoClient>;
     name: string;
     kv: KV;
     mutable?: boolean;
     engine?: Engine;
+    index?: KeyIndex | KeyIndexOptions | boolean;
+    cache?: CachePolicy;
+    transactional?: boolean;
   } & Record<string, unknown>) {
-    const db = new this(client, name, kv, mutable, engine);
+    const db = new this(
+      client,
+      name,
+      kv,
+      mutable,
+      engine,
+      index,
+      cache,
+      transactional
+    );
     await db.update({ kv });
     return db;
   }
@@ -104,6 +154,22 @@ export class Mongo extends DB {
     const kvs = { ...kv };
     // restore the kv store
     this.kv = kvs;
+    // track the restored entries (evicting anything over budget)
+    this.resetCache();
+  }
+
+  // stream every id held in the collection (without loading the documents)
+  async *ids(ref: string) {
+    // only project the id
+    const cursor = (await this._db)
+      .collection(ref)
+      .find({}, { projection: { _id: 0, id: 1 } });
+
+    // yield each id in turn
+    // eslint-disable-next-line no-restricted-syntax
+    for await (const doc of cursor) {
+      yield doc.id as string;
+    }
   }
 
   // get from mongodb
@@ -111,36 +177,49 @@ export class Mongo extends DB {
     // otherwise spit the key and get from mongo
     const [ref, id] = key.split(".");
 
-    // TODO: the hotpath here is usually checking on things which don't exist in the db
-    //  - we've solved for this in one implementation by loading everything in to memory and setting engine.warmDb [to prevent db reads], but this has a mem limit (however heap is manageble atm)...
-    //  - we could have a system to record only the index and store that in mem (btree + bloomfilters), but we will still risk reaching limits...
-    //  - when we start nearing our limit we could move the btree to disk and continue there (depending on depth this could require several reads to seek by key)
-    //  - alternatively we can perist everything to disk by key and we can refrain from doing any seeks by range etc - this will require local storage space the same size as the db medium
-    //  - or we give up on using a db persistance layer and store everything locally - this would mean stateful deployments/a connected persistence medium - i/o could still be a constraint.
+    // the hotpath here is usually checking on things which don't exist in the db
+    //  - we can load everything in to memory and set engine.warmDb [to prevent db reads], but this has a mem limit...
+    //  - or we can construct the Mongo instance with an index, this records every key in a (persisted) bloomfilter and holds recently read values in an LRU cache with a memory budget
 
     // check in runtime cache
     if (ref && id) {
       // console.log(`getting ${key}`);
-      const val = this.kv[ref]?.[id];
+      const val = this.lookup(ref, id);
 
       // return the value
       if (val) return val;
     }
 
     // for valid single entry get...
-    if (
-      ref &&
-      id &&
-      !this.engine.newDb &&
-      (!this.engine.warmDb || ref === "__meta__")
-    ) {
-      // this wants to get only the most recent insertion
-      const result = await (await this._db)
-        .collection(ref)
-        .findOne({ id }, { sort: { _block_ts: -1 } });
+    if (ref && id && !this.engine.newDb && (!this.warm || ref === "__meta__")) {
+      // __meta__ is always read from the db
+      const index = ref !== "__meta__" && this.index;
+
+      // check the index before going to the db
+      if (index) {
+        // check for a recently read value
+        const val = index.get(ref, id);
 
-      // return if we discovered a result
-      if (result) return result;
+        // return the value
+        if (val) return val;
+
+        // make sure we've recorded every key held for this ref
+        await index.seed(ref, () => this.ids(ref));
+      }
+
+      // only query if the key might exist
+      if (!index || index.has(ref, id)) {
+        // this wants to get only the most recent insertion
+        const result = await (await this._db)
+          .collection(ref)
+          .findOne({ id }, { sort: { _block_ts: -1 } });
+
+        // cache the value for the next read
+        if (result && index) index.set(ref, id, result);
+
+        // return if we discovered a result
+        if (result) return result;
+      }
     }
 
     // for valid entry reqs (used in migrations)...
@@ -148,7 +227,7 @@ export class Mongo extends DB {
       ref &&
       !id &&
       !this.engine.newDb &&
-      (!this.engine.warmDb || ref === "__meta__")
+      (!this.warm || ref === "__meta__")
     ) {
       // default the collection
       this.kv[ref] = this.kv[ref] || {};
@@ -224,6 +303,7 @@ export class Mongo extends DB {
               if (obj) {
                 // store into kv
                 this.kv[ref][obj.id] = obj;
+                this.cached(ref, obj.id);
                 // push all to the result
                 result.push(obj);
               }
@@ -237,8 +317,9 @@ export class Mongo extends DB {
           });
         }
 
-        // return if the collections holds values
-        if (result && result.length) return Object.values(this.kv[ref]);
+        // return if the collections holds values (the kv might not hold every entry if we're bounding the cache)
+        if (result && result.length)
+          return this.cache ? result : Object.values(this.kv[ref]);
       } else {
         // fing all on the ref table
         const result = await (
@@ -254,6 +335,7 @@ export class Mongo extends DB {
           if (obj) {
             // store into kv
             this.kv[ref][obj.id] = obj;
+            this.cached(ref, obj.id);
           }
         });
 
@@ -272,6 +354,84 @@ export class Mongo extends DB {
     throw new NotFound("Not Found");
   }
 
+  // run the query against mongodb (only the matching page of entries is read)
+  async query(ref: string, options: QueryOptions = {}) {
+    // nothing has been written yet
+    if (this.engine.newDb) return [];
+    // the kv holds every entry so we can query it in memory
+    if (this.warm && ref !== "__meta__") return super.query(ref, options);
+
+    // extract the query options
+    const {
+      where = {},
+      orderBy = "id",
+      orderDirection = "asc",
+      first,
+      skip = 0,
+    } = options;
+
+    // mongo treats a limit of 0 as no limit
+    if (first === 0) return [];
+
+    // get the collection for the ref
+    const collection = (await this._db).collection(ref);
+    // match every field in the where clause
+    const filter = toFilter(where);
+    // sort by the given field (breaking ties on id to give a stable order) then take the page and drop the sort keys
+    const page = [
+      ...toSort(Array.from(new Set([orderBy, "id"])), orderDirection),
+      {
+        $skip: skip,
+      },
+      ...(typeof first !== "undefined" ? [{ $limit: first }] : []),
+      {
+        $unset: "__sort",
+      },
+    ];
+
+    // mutable collections hold a single entry for each id
+    if (this.mutable || ref === "__meta__") {
+      return (await collection
+        .aggregate([{ $match: filter }, ...page], {
+          // allow the collection to be sorted on disk
+          allowDiskUse: true,
+        })
+        .toArray()) as Record<string, unknown>[];
+    }
+
+    // immutable collections are matched against the most recent entry for each id
+    return (await collection
+      .aggregate(
+        [
+          {
+            $sort: {
+              _block_ts: -1,
+            },
+          },
+          {
+            $group: {
+              _id: "$id",
+              latestDocument: {
+                $first: "$$ROOT",
+              },
+            },
+          },
+          {
+            $replaceRoot: { newRoot: "$latestDocument" },
+          },
+          {
+            $match: filter,
+          },
+          ...page,
+        ],
+        {
+          // allow the history to be sorted on disk
+          allowDiskUse: true,
+        }
+      )
+      .toArray()) as Record<string, unknown>[];
+  }
+
   // store into mongodb
   async put(key: string, val: Record<string, unknown>) {
     // spit the key and get from mongo
@@ -287,6 +447,13 @@ export class Mongo extends DB {
 
       // prevent alterations in read-only mode
       if (!this.engine.readOnly) {
+        // record the key in the index before we write and drop the cached value we're replacing
+        if (this.index) {
+          this.index.add(ref, id);
+          this.index.delete(ref, id);
+          // the index is saved with the next batch (until then the persisted copy is missing this key)
+          await this.index.invalidate();
+        }
         // resolve db promise layer
         const db = await this._db;
         // filter for the document we want to replace
@@ -315,6 +482,8 @@ export class Mongo extends DB {
           return put(db, ref, filter, val).catch(retry);
         });
       }
+      // track the entry now that its been written
+      this.cached(ref, id);
     }
 
     return true;
@@ -357,7 +526,11 @@ export class Mongo extends DB {
             return del(db, ref, document).catch(retry);
           });
         }
+        // drop the cached value
+        this.index?.delete(ref, id);
       }
+      // stop tracking the entry
+      this.cached(ref, id);
     }
 
     return true;
@@ -386,6 +559,12 @@ export class Mongo extends DB {
       return collected;
     }, {} as Record<string, typeof vals>);
 
+    // when transactional we collect every write and make them all at once
+    const writes: {
+      collection: string;
+      batch: AnyBulkWriteOperation<Document>[];
+    }[] = [];
+
     // eslint-disable-next-line no-restricted-syntax
     for (const collection of Object.keys(byCollection)) {
       // convert the operations into a set of mongodb bulkWrite operations
@@ -433,6 +612,9 @@ export class Mongo extends DB {
           });
           // store in to local-cache
           this.kv[collection][val.key.split(".")[1]] = replacement;
+          // record the key in the index and drop the stale value
+          this.index?.add(collection, val.key.split(".")[1]);
+          this.index?.delete(collection, val.key.split(".")[1]);
         }
         // del will delete ALL entries from the collection (this shouldnt need to be called - it might be wiser to insert an empty entry than to try to delete anything)
         if (val.type === "del") {
@@ -448,13 +630,18 @@ export class Mongo extends DB {
           });
           // delete the value from cache
           delete this.kv[collection][val.key.split(".")[1]];
+          this.index?.delete(collection, val.key.split(".")[1]);
         }
         // returns all Document operations
         return operations;
       }, [] as AnyBulkWriteOperation<Document>[]);
 
-      // save the batch to mongo
-      if (!this.engine.readOnly && batch.length) {
+      // stack the write to run inside the transaction
+      if (!this.engine.readOnly && batch.length && this.transactional) {
+        writes.push({ collection, batch });
+      } else if (!this.engine.readOnly && batch.length) {
+        // save the batch to mongo - persist the index before we write so that it always holds every key in the db
+        await this.index?.save();
         // resolve the db
         const db = await this._db;
         // don't stop trying until this returns successfully
@@ -473,10 +660,293 @@ export class Mongo extends DB {
       }
     }
 
+    // write everything in a single transaction so that a crash can never leave the collections at different blocks (or the pointers out of step with the entities)
+    if (writes.length) {
+      // persist the index before we write so that it always holds every key in the db
+      await this.index?.save();
+      // resolve the client and db
+      const client = await this.client;
+      const db = await this._db;
+      // don't stop trying until the transaction commits (an aborted transaction writes nothing so its safe to retry)
+      await transaction(client, db, writes).catch(async function retry(e) {
+        // the transaction will fail the same way however many times we retry it (nothing has been written so the batch needs to be made smaller upstream)
+        if (FATAL_TRANSACTION_ERRORS.includes(e?.codeName)) {
+          throw new Error(
+            `${e.message} - lower progressInterval (or windowSize) to commit smaller batches`
+          );
+        }
+        // wait a second before trying again
+        await new Promise((resolve) => {
+          setTimeout(
+            resolve,
+            // anywhere between 1 and 5 seconds
+            Math.floor((Math.random() * (5 - 1) + 1) * 1e3)
+          );
+        });
+        // retry the action (with another timeout)
+        return transaction(client, db, writes).catch(retry);
+      });
+    }
+
+    // track the entries now that they've been written
+    Object.keys(byCollection).forEach((collection) => {
+      byCollection[collection].forEach((val) => {
+        this.cached(collection, val.key.split(".")[1]);
+      });
+    });
+
+    return true;
+  }
+
+  // delete every entry written on chainId after blockNumber and restore the cache to the surviving state
+  async rollback(chainId: number, blockNumber: number) {
+    // mutable entities are upserted in place so there is nothing to roll back to
+    if (this.mutable) {
+      return super.rollback(chainId, blockNumber);
+    }
+
+    // prevent alterations in read-only mode
+    if (!this.engine.readOnly) {
+      // resolve db promise layer
+      const db = await this._db;
+      // get all entity collections held in the db
+      const collections = await db
+        .listCollections({}, { nameOnly: true })
+        .toArray();
+
+      // eslint-disable-next-line no-restricted-syntax
+      for (const { name: collection } of collections) {
+        // __meta__ is mutable and snapshots are regenerated from the entity collections
+        if (collection !== "__meta__" && !collection.endsWith("_snapshot")) {
+          // select everything written by the orphaned blocks
+          const filter = {
+            _chain_id: chainId,
+            _block_num: { $gt: blockNumber },
+          };
+          // collect the ids we're about to alter so that we can restore them in the cache
+          const ids = (await db
+            .collection(collection)
+            .distinct("id", filter)) as string[];
+
+          // only continue if the orphaned blocks touched this collection
+          if (ids.length) {
+            // keep attempting the delete until it succeeds
+            await deleteMany(db, collection, filter).catch(
+              async function retry() {
+                // wait a second before trying again
+                await new Promise((resolve) => {
+                  setTimeout(
+                    resolve,
+                    // anywhere between 1 and 5 seconds
+                    Math.floor((Math.random() * (5 - 1) + 1) * 1e3)
+                  );
+                });
+                // retry the action (with another timeout on failure)
+                return deleteMany(db, collection, filter).catch(retry);
+              }
+            );
+
+            // make sure the store exists to cache values into
+            this.kv[collection] = this.kv[collection] || {};
+
+            // restore the most recent surviving entry for each id into the local-cache
+            for (const id of ids) {
+              // get the latest remaining insertion
+              const result = await db
+                .collection(collection)
+                .findOne({ id }, { sort: { _block_ts: -1 } });
+
+              // entities created in the orphaned blocks will no longer exist
+              if (result) {
+                this.kv[collection][id] = result;
+              } else {
+                delete this.kv[collection][id];
+              }
+              // drop the orphaned value from the index cache
+              this.index?.delete(collection, id);
+              // track the restored entry
+              this.cached(collection, id);
+            }
+          }
+        }
+      }
+    }
+
     return true;
   }
 }
 
+// construct a filter to match every field in the where clause (arrays match any of the given values)
+const toFilter = (where: Record<string, unknown>) =>
+  Object.keys(where).reduce((filter, key) => {
+    // numeric values might be stored as either numbers or strings
+    const values = [].concat(where[key]).flatMap((value: unknown) => {
+      const stored = toStoredValue(value);
+
+      return isNumeric(stored) ? [`${stored}`, +`${stored}`] : [stored];
+    });
+
+    return {
+      ...filter,
+      [key]: { $in: values },
+    };
+  }, {} as Filter<Document>);
+
+// construct the stages to sort by the given fields in the same order as queryEntries (BigNumbers are stored as strings so numeric values are sorted by their sign, the length of their integer part and then their digits)
+const toSort = (keys: string[], orderDirection: "asc" | "desc") => {
+  // the direction to sort in (negative values have their magnitudes reversed)
+  const direction = orderDirection === "desc" ? -1 : 1;
+
+  return [
+    // the text of each field (missing and null values are null)
+    {
+      $addFields: keys.reduce(
+        (fields, key, index) => ({
+          ...fields,
+          [`__sort.text${index}`]: {
+            $convert: {
+              input: `$${key}`,
+              to: "string",
+              onError: null,
+              onNull: null,
+            },
+          },
+        }),
+        {}
+      ),
+    },
+    // check if each field is numeric and find its magnitude (without the sign and any leading or trailing zeros)
+    {
+      $addFields: keys.reduce((fields, _, index) => {
+        const text = { $ifNull: [`$__sort.text${index}`, ""] };
+
+        return {
+          ...fields,
+          [`__sort.numeric${index}`]: {
+            $regexMatch: { input: text, regex: "^-?[0-9]+([.][0-9]+)?$" },
+          },
+          [`__sort.magnitude${index}`]: {
+            $let: {
+              vars: {
+                trimmed: {
+                  $ltrim: {
+                    input: {
+                      $cond: [
+                        { $eq: [{ $substrCP: [text, 0, 1] }, "-"] },
+                        { $substrCP: [text, 1, { $strLenCP: text }] },
+                        text,
+                      ],
+                    },
+                    chars: "0",
+                  },
+                },
+              },
+              in: {
+                $cond: [
+                  { $gte: [{ $indexOfCP: ["$$trimmed", "."] }, 0] },
+                  {
+                    $rtrim: {
+                      input: { $rtrim: { input: "$$trimmed", chars: "0" } },
+                      chars: ".",
+                    },
+                  },
+                  "$$trimmed",
+                ],
+              },
+            },
+          },
+        };
+      }, {}),
+    },
+    // the sign of each numeric field (zero carries no sign) and the length of its integer part
+    {
+      $addFields: keys.reduce((fields, _, index) => {
+        const magnitude = `$__sort.magnitude${index}`;
+
+        return {
+          ...fields,
+          [`__sort.missing${index}`]: {
+            $eq: [`$__sort.text${index}`, null],
+          },
+          [`__sort.sign${index}`]: {
+            $cond: [
+              `$__sort.numeric${index}`,
+              {
+                $switch: {
+                  branches: [
+                    { case: { $eq: [magnitude, ""] }, then: 0 },
+                    {
+                      case: {
+                        $eq: [
+                          { $substrCP: [`$__sort.text${index}`, 0, 1] },
+                          "-",
+                        ],
+                      },
+                      then: -1,
+                    },
+                  ],
+                  default: 1,
+                },
+              },
+              null,
+            ],
+          },
+          [`__sort.length${index}`]: {
+            $let: {
+              vars: { dot: { $indexOfCP: [magnitude, "."] } },
+              in: {
+                $cond: [
+                  { $gte: ["$$dot", 0] },
+                  "$$dot",
+                  { $strLenCP: magnitude },
+                ],
+              },
+            },
+          },
+        };
+      }, {}),
+    },
+    // split the length and magnitude of positive and negative values so that they can be sorted in opposite directions
+    {
+      $addFields: keys.reduce((fields, _, index) => {
+        // take the field only when the value carries the given sign
+        const withSign = (sign: number, field: string) => ({
+          $cond: [
+            { $eq: [`$__sort.sign${index}`, sign] },
+            `$__sort.${field}${index}`,
+            null,
+          ],
+        });
+
+        return {
+          ...fields,
+          [`__sort.positiveLength${index}`]: withSign(1, "length"),
+          [`__sort.positiveMagnitude${index}`]: withSign(1, "magnitude"),
+          [`__sort.negativeLength${index}`]: withSign(-1, "length"),
+          [`__sort.negativeMagnitude${index}`]: withSign(-1, "magnitude"),
+        };
+      }, {}),
+    },
+    // missing values last, then numeric values, then by text in byte order
+    {
+      $sort: keys.reduce(
+        (sort, _, index) => ({
+          ...sort,
+          [`__sort.missing${index}`]: direction,
+          [`__sort.numeric${index}`]: -direction,
+          [`__sort.sign${index}`]: direction,
+          [`__sort.positiveLength${index}`]: direction,
+          [`__sort.positiveMagnitude${index}`]: direction,
+          [`__sort.negativeLength${index}`]: -direction,
+          [`__sort.negativeMagnitude${index}`]: -direction,
+          [`__sort.text${index}`]: direction,
+        }),
+        {} as Record<string, 1 | -1>
+      ),
+    },
+  ];
+};
+
 // attempt the put operation (we use replaceOne here and uniquify with a filter if we need to)
 const put = async (
   db: ReturnType<MongoClient["db"]>,
@@ -502,18 +972,55 @@ const del = async (
   });
 };
 
+// attempt the deleteMany operation
+const deleteMany = async (
+  db: ReturnType<MongoClient["db"]>,
+  collection: string,
+  filter: Filter<Document>
+) => {
+  await db.collection(collection).deleteMany(filter);
+};
+
 // attempt the bulkWrite operation
 const bulkWrite = async (
   db: ReturnType<MongoClient["db"]>,
   collection: string,
-  batch: AnyBulkWriteOperation<Document>[]
+  batch: AnyBulkWriteOperation<Document>[],
+  session?: ClientSession
 ) => {
   await db.collection(collection).bulkWrite(batch, {
     // allow for parallel writes (we've already ensured one entry per key with our staged sets (using checkpoint & commit))
     ordered: false,
     // write objectIds mongo side
     forceServerObjectId: true,
+    // run inside the given transaction
+    ...(session ? { session } : {}),
   });
 };
 
+// attempt every bulkWrite inside a single session transaction (all or nothing)
+const transaction = async (
+  client: MongoClient,
+  db: ReturnType<MongoClient["db"]>,
+  writes: { collection: string; batch: AnyBulkWriteOperation<Document>[] }[]
+) => {
+  // start a session to hold the transaction
+  const session = client.startSession();
+
+  try {
+    // withTransaction will commit on success and abort on failure
+    await session.withTransaction(async () => {
+      // writes inside a transaction must be made sequentially on the session
+      // eslint-disable-next-line no-restricted-syntax
+      for (const { collection, batch } of writes) {
+        // eslint-disable-next-line no-await-in-loop
+        await bulkWrite(db, collection, batch, session);
+      }
+    });
+  } finally {
+    // always release the session
+    await session.endSession();
+  }
+};
+
 export default Mongo;
@@ -0,0 +1,643 @@
+// Postgres class wraps pg with a simple entity management system (abstract-leveldown compatible)
+import type { Pool, PoolClient, Client } from "pg";
+
+// Extend from db (abstract-leveldown compatible kv implementation)
+import { BatchOp, Engine, KV, QueryOptions } from "@/sync/types";
+import { DB, NotFound } from "@/sync/tooling/persistence/db";
+
+// Match where values in the form they're stored
+import { toStoredValue } from "@/sync/tooling/persistence/query";
+
+// Any pg connection which can run a query
+export type PostgresClient = Pool | PoolClient | Client;
+
+// The max number of rows to write in a single insert (each row uses 5 params and pg allows 65535)
+const BATCH_SIZE = 1000;
+
+// Simple key-value database store (abstract-leveldown compliant)
+export class Postgres extends DB {
+  // kv store holds a materialised view of current state in local cache (by ref.id)
+  declare kv: KV;
+
+  // engine carries global state
+  declare engine: Engine;
+
+  // useStorage will be undefined on this adapter because we're bypassing DB.update()
+  declare useStorage?: boolean;
+
+  // underlying pg client
+  client: PostgresClient | Promise<PostgresClient>;
+
+  // name given to the schema holding the entity tables
+  name: string;
+
+  // are the entities in this db being upserted or not?
+  mutable: boolean;
+
+  // pg client resolved after the schema has been created
+  _db: Promise<PostgresClient>;
+
+  // tables we've already ensured exist (by ref)
+  _tables: Record<string, Promise<string>>;
+
+  // should batches be written inside a single transaction?
+  declare transactional: boolean;
+
+  // construct a kv store
+  constructor(
+    client: PostgresClient | Promise<PostgresClient>,
+    name: string,
+    kv: KV,
+    mutable?: boolean,
+    engine?: Engine,
+    transactional?: boolean
+  ) {
+    // init super
+    super(kv, engine);
+    // establish connection
+    this.client = client;
+    // record the schema name
+    this.name = name;
+    // are the ids unique?
+    this.mutable = mutable || false;
+    // associate the engine
+    this.engine = engine || ({} as Engine);
+    // write each batch in a transaction
+    this.transactional = transactional || false;
+    // no tables known yet
+    this._tables = {};
+    // store the db client
+    this._db = this.db();
+  }
+
+  async db() {
+    // resolve the client connection
+    const client = await this.client;
+
+    // make sure the schema exists before we start creating tables in it
+    await client.query(`CREATE SCHEMA IF NOT EXISTS ${quote(this.schema)}`);
+
+    // return the client for querying
+    return client;
+  }
+
+  // the schema all entity tables are placed into
+  get schema() {
+    return this.name || "supagraph";
+  }
+
+  // create a new instance statically
+  static async create({
+    client,
+    name,
+    kv,
+    mutable,
+    engine,
+    transactional,
+  }: {
+    client: PostgresClient | Promise<PostgresClient>;
+    name: string;
+    kv: KV;
+    mutable?: boolean;
+    engine?: Engine;
+    transactional?: boolean;
+  } & Record<string, unknown>) {
+    const db = new this(client, name, kv, mutable, engine, transactional);
+    await db.update({ kv });
+    return db;
+  }
+
+  // update the kv store with a new set of values (we're not starting node-persist here)
+  async update({ kv }: { kv: KV } & Record<string, unknown>) {
+    // use given kv
+    const kvs = { ...kv };
+    // restore the kv store
+    this.kv = kvs;
+  }
+
+  // is the given ref being upserted on id?
+  isMutable(ref: string) {
+    return this.mutable || ref === "__meta__";
+  }
+
+  // ensure the table for the ref exists and return its qualified name
+  async table(ref: string) {
+    // only attempt to create each table once
+    this._tables[ref] =
+      this._tables[ref] ||
+      (async () => {
+        // resolve the client after the schema is created
+        const db = await this._db;
+        // qualified table name
+        const table = `${quote(this.schema)}.${quote(ref)}`;
+        // mutable tables hold one row per id, immutable tables hold one row per id for every block its altered in
+        await db.query(
+          `CREATE TABLE IF NOT EXISTS ${table} (
+            id text NOT NULL,
+            _block_ts bigint NOT NULL DEFAULT -1,
+            _block_num bigint NOT NULL DEFAULT -1,
+            _chain_id integer NOT NULL DEFAULT -1,
+            data jsonb NOT NULL,
+            PRIMARY KEY (${
+              this.isMutable(ref) ? "id" : "id, _block_num, _chain_id"
+            })
+          )`
+        );
+        // index the ordering we use to select the most recent insertion
+        await db.query(
+          `CREATE INDEX IF NOT EXISTS ${quote(
+            `${ref}_id_block_ts`
+          )} ON ${table} (id, _block_ts DESC)`
+        );
+
+        return table;
+      })().catch((e) => {
+        // allow the creation to be attempted again
+        delete this._tables[ref];
+        throw e;
+      });
+
+    return this._tables[ref];
+  }
+
+  // get from postgres
+  async get(key: string) {
+    // otherwise spit the key and get from postgres
+    const [ref, id] = key.split(".");
+
+    // check in runtime cache
+    if (ref && id) {
+      // console.log(`getting ${key}`);
+      const val = this.kv[ref]?.[id];
+
+      // return the value
+      if (val) return val;
+    }
+
+    // for valid single entry get...
+    if (ref && id && !this.engine.newDb && (!this.warm || ref === "__meta__")) {
+      // resolve the table and client
+      const table = await this.table(ref);
+      const db = await this._db;
+      // this wants to get only the most recent insertion
+      const { rows } = await db.query(
+        `SELECT data FROM ${table} WHERE id = $1 ORDER BY _block_ts DESC LIMIT 1`,
+        [id]
+      );
+
+      // return if we discovered a result
+      if (rows.length) return rows[0].data;
+    }
+
+    // for valid entry reqs (used in migrations)...
+    if (
+      ref &&
+      !id &&
+      !this.engine.newDb &&
+      (!this.warm || ref === "__meta__")
+    ) {
+      // default the collection
+      this.kv[ref] = this.kv[ref] || {};
+
+      // resolve the table and client
+      const table = await this.table(ref);
+      const db = await this._db;
+      // for immutable tables we select the most recent state for each id
+      const { rows } = await db.query(
+        this.isMutable(ref)
+          ? `SELECT data FROM ${table}`
+          : `SELECT DISTINCT ON (id) data FROM ${table} ORDER BY id, _block_ts DESC`
+      );
+
+      // place into kv store
+      rows.forEach(({ data }) => {
+        if (data) {
+          // store into kv
+          this.kv[ref][data.id] = data;
+        }
+      });
+
+      // return if the table holds values
+      if (rows.length) return rows.map(({ data }) => data);
+    } else if (ref && !id) {
+      // can get all from kv store
+      const val = this.kv[ref];
+
+      // return the collection based on keys
+      if (val) return Object.keys(val).map((valKey) => val[valKey]);
+    }
+
+    // throw not found to indicate we can't find it
+    throw new NotFound("Not Found");
+  }
+
+  // run the query against postgres (only the matching page of entries is read)
+  async query(ref: string, options: QueryOptions = {}) {
+    // nothing has been written yet
+    if (this.engine.newDb) return [];
+    // the kv holds every entry so we can query it in memory
+    if (this.warm && ref !== "__meta__") return super.query(ref, options);
+
+    // resolve the table and client
+    const table = await this.table(ref);
+    const db = await this._db;
+    // construct the select for the most recent state of each matching id
+    const [query, params] = select(table, this.isMutable(ref), options);
+    // get the page of entries
+    const { rows } = await db.query(query, params);
+
+    return rows.map(({ data }) => data) as Record<string, unknown>[];
+  }
+
+  // store into postgres
+  async put(key: string, val: Record<string, unknown>) {
+    // spit the key and get from postgres
+    const [ref, id] = key.split(".");
+
+    // default the collection
+    this.kv[ref] = this.kv[ref] || {};
+
+    // for valid reqs...
+    if (ref && id) {
+      // console.log(`putting ${key}`, val);
+      this.kv[ref][id] = val;
+
+      // prevent alterations in read-only mode
+      if (!this.engine.readOnly) {
+        // resolve the table and client
+        const table = await this.table(ref);
+        const db = await this._db;
+        // construct the upsert for this entry
+        const [query, params] = upsert(table, this.isMutable(ref), [
+          { id, value: val },
+        ]);
+        // attempt the put and retry on failure until it succeeds (all other processing will be halted while we wait for this to complete)
+        await db.query(query, params).catch(async function retry() {
+          // wait a second before trying again
+          await new Promise((resolve) => {
+            setTimeout(
+              resolve,
+              // anywhere between 1 and 5 seconds
+              Math.floor((Math.random() * (5 - 1) + 1) * 1e3)
+            );
+          });
+          // retry the action (with another timeout on failure)
+          return db.query(query, params).catch(retry);
+        });
+      }
+    }
+
+    return true;
+  }
+
+  // delete from postgres
+  async del(key: string) {
+    // spit the key and get from postgres
+    const [ref, id] = key.split(".");
+
+    // default the collection
+    this.kv[ref] = this.kv[ref] || {};
+
+    // for valid reqs...
+    if (ref && id) {
+      // remove from local-cache (the next time we put on this key we will produce a new empty object as starting point)
+      delete this.kv[ref][id];
+
+      // prevent alterations in read-only mode
+      if (!this.engine.readOnly) {
+        // resolve the table and client
+        const table = await this.table(ref);
+        const db = await this._db;
+        // this will delete the latest entry only (matching the mongo implementation)
+        const [query, params] = remove(table, [id]);
+        // keep attempting the delete until it succeeds
+        await db.query(query, params).catch(async function retry() {
+          // wait a second before trying again
+          await new Promise((resolve) => {
+            setTimeout(
+              resolve,
+              // anywhere between 1 and 5 seconds
+              Math.floor((Math.random() * (5 - 1) + 1) * 1e3)
+            );
+          });
+          // retry the action (with another timeout on failure)
+          return db.query(query, params).catch(retry);
+        });
+      }
+    }
+
+    return true;
+  }
+
+  // perform a set of multi-row upserts/deletes against postgres
+  async batch(vals: BatchOp[]) {
+    // collect every together into appropriate tables
+    const byTable = vals.reduce((collection, val) => {
+      // avoid reassigning props of param error
+      const collected = collection;
+
+      // pull ref from the given key
+      const [ref] = val.key.split(".");
+
+      // keep going or start fresh
+      collected[ref] = collected[ref] || [];
+
+      // only collect true values
+      if (val.type === "del" || val?.value) {
+        collected[ref].push(val);
+        // make sure the store exists to cache values into
+        this.kv[ref] = this.kv[ref] || {};
+      }
+
+      return collected;
+    }, {} as Record<string, typeof vals>);
+
+    // construct every statement we need to run
+    const statements: [string, unknown[]][] = [];
+
+    // eslint-disable-next-line no-restricted-syntax
+    for (const ref of Object.keys(byTable)) {
+      // split the ops into puts and dels
+      const puts: { id: string; value: Record<string, unknown> }[] = [];
+      const dels: string[] = [];
+
+      // record each op and apply it to the local-cache
+      byTable[ref].forEach((val) => {
+        // get the id from the key
+        const id = val.key.split(".")[1];
+        // store in to local-cache and stack the write
+        if (val.type === "put") {
+          puts.push({ id, value: val.value });
+          this.kv[ref][id] = val.value;
+        }
+        // delete the value from cache and stack the delete
+        if (val.type === "del") {
+          dels.push(id);
+          delete this.kv[ref][id];
+        }
+      });
+
+      // stack the statements for this table
+      if (!this.engine.readOnly && (puts.length || dels.length)) {
+        // resolve the table (tables are created outside of the transaction)
+        const table = await this.table(ref);
+        // chunk the puts to stay inside pgs parameter limit
+        for (let i = 0; i < puts.length; i += BATCH_SIZE) {
+          statements.push(
+            upsert(table, this.isMutable(ref), puts.slice(i, i + BATCH_SIZE))
+          );
+        }
+        // all deletes can be made in a single statement
+        if (dels.length) {
+          statements.push(remove(table, dels));
+        }
+      }
+    }
+
+    // save the batch to postgres
+    if (statements.length) {
+      // resolve the client
+      const db = await this._db;
+      // run everything in a single transaction (an aborted transaction writes nothing so its safe to retry)
+      if (this.transactional) {
+        await transaction(db, statements).catch(async function retry() {
+          // wait a second before trying again
+          await new Promise((resolve) => {
+            setTimeout(
+              resolve,
+              // anywhere between 1 and 5 seconds
+              Math.floor((Math.random() * (5 - 1) + 1) * 1e3)
+            );
+          });
+          // retry the action (with another timeout)
+          return transaction(db, statements).catch(retry);
+        });
+      } else {
+        // don't stop trying until each statement returns successfully
+        for (const [query, params] of statements) {
+          await db.query(query, params).catch(async function retry() {
+            // wait a second before trying again
+            await new Promise((resolve) => {
+              setTimeout(
+                resolve,
+                // anywhere between 1 and 5 seconds
+                Math.floor((Math.random() * (5 - 1) + 1) * 1e3)
+              );
+            });
+            // retry the action (with another timeout)
+            return db.query(query, params).catch(retry);
+          });
+        }
+      }
+    }
+
+    return true;
+  }
+
+  // delete every entry written on chainId after blockNumber and restore the cache to the surviving state
+  async rollback(chainId: number, blockNumber: number) {
+    // mutable entities are upserted in place so there is nothing to roll back to
+    if (this.mutable) {
+      return super.rollback(chainId, blockNumber);
+    }
+
+    // prevent alterations in read-only mode
+    if (!this.engine.readOnly) {
+      // resolve the client
+      const db = await this._db;
+      // get all entity tables held in the schema
+      const { rows: tables } = await db.query(
+        `SELECT table_name FROM information_schema.tables WHERE table_schema = $1`,
+        [this.schema]
+      );
+
+      // eslint-disable-next-line no-restricted-syntax
+      for (const { table_name: ref } of tables) {
+        // __meta__ is always mutable
+        if (ref !== "__meta__") {
+          // resolve the qualified table name
+          const table = await this.table(ref);
+          // drop everything written by the orphaned blocks
+          const { rows } = await db.query(
+            `DELETE FROM ${table} WHERE _chain_id = $1 AND _block_num > $2 RETURNING id`,
+            [chainId, blockNumber]
+          );
+          // collect the unique ids we've altered
+          const ids = Array.from(new Set(rows.map(({ id }) => id as string)));
+
+          // restore the most recent surviving entry for each id into the local-cache
+          if (ids.length) {
+            // make sure the store exists to cache values into
+            this.kv[ref] = this.kv[ref] || {};
+            // get the latest remaining insertion for each id
+            const { rows: restored } = await db.query(
+              `SELECT DISTINCT ON (id) id, data FROM ${table} WHERE id = ANY($1) ORDER BY id, _block_ts DESC`,
+              [ids]
+            );
+            // entities created in the orphaned blocks will no longer exist
+            ids.forEach((id) => {
+              delete this.kv[ref][id];
+            });
+            restored.forEach(({ id, data }) => {
+              this.kv[ref][id] = data;
+            });
+          }
+        }
+      }
+    }
+
+    return true;
+  }
+}
+
+// quote an identifier for use in a query
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+// construct a multi-row upsert (mutable tables conflict on id, immutable tables conflict on id at block)
+const upsert = (
+  table: string,
+  mutable: boolean,
+  entries: { id: string; value: Record<string, unknown> }[]
+): [string, unknown[]] => {
+  // collect the params as we build the values
+  const params: unknown[] = [];
+  // construct the values clause
+  const values = entries.map(({ id, value }) => {
+    // drop any mongo style _id from the stored data
+    const data = Object.keys(value || {}).reduce((carr, key) => {
+      // add everything but the _id
+      if (key !== "_id") carr[key] = value[key];
+
+      return carr;
+    }, {} as Record<string, unknown>);
+    // push the row params
+    params.push(
+      id,
+      value?._block_ts ?? -1,
+      value?._block_num ?? -1,
+      value?._chain_id ?? -1,
+      JSON.stringify(data)
+    );
+    // position the placeholders for this row
+    const offset = params.length - 5;
+    return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${
+      offset + 5
+    })`;
+  });
+
+  // replace the data on conflict
+  return [
+    `INSERT INTO ${table} (id, _block_ts, _block_num, _chain_id, data) VALUES ${values.join(
+      ", "
+    )} ON CONFLICT (${
+      mutable ? "id" : "id, _block_num, _chain_id"
+    }) DO UPDATE SET ${
+      mutable
+        ? "_block_ts = EXCLUDED._block_ts, _block_num = EXCLUDED._block_num, _chain_id = EXCLUDED._chain_id, "
+        : "_block_ts = EXCLUDED._block_ts, "
+    }data = EXCLUDED.data`,
+    params,
+  ];
+};
+
+// construct a select matching every field in the where clause (arrays match any of the given values) sorted and paginated
+const select = (
+  table: string,
+  mutable: boolean,
+  {
+    where = {},
+    orderBy = "id",
+    orderDirection = "asc",
+    first,
+    skip = 0,
+  }: QueryOptions
+): [string, unknown[]] => {
+  // collect the params as we build the statement
+  const params: unknown[] = [];
+  // place the param and return its placeholder
+  const param = (value: unknown) => `$${params.push(value)}`;
+
+  // values are compared in their stored (text) form
+  const conditions = Object.keys(where).map((key) => {
+    // split the expected values into nulls and values
+    const values = [].concat(where[key]).map(toStoredValue);
+    const nulls = values.some((value) => value === null || value === undefined);
+    const matches = values
+      .filter((value) => value !== null && value !== undefined)
+      .map((value) => `${value}`);
+    // the field as text
+    const field = `data->>${param(key)}`;
+
+    return `(${
+      [
+        matches.length && `${field} = ANY(${param(matches)}::text[])`,
+        nulls && `${field} IS NULL`,
+      ]
+        .filter((condition) => condition)
+        .join(" OR ") || "FALSE"
+    })`;
+  });
+
+  // sort in the same order as queryEntries - numeric values first (BigNumbers are stored as strings), then by the text in byte order (missing values are null and sort last) and break ties on id
+  const direction = orderDirection === "desc" ? "DESC" : "ASC";
+  const order = Array.from(new Set([orderBy, "id"])).map((key) => {
+    const field = `data->>${param(key)}`;
+
+    return `(CASE WHEN ${field} ~ '^-?[0-9]+([.][0-9]+)?$' THEN (${field})::numeric END) ${direction}, (${field}) COLLATE "C" ${direction}`;
+  });
+
+  // immutable tables hold an entry for every block - match against the latest for each id
+  const source = mutable
+    ? table
+    : `(SELECT DISTINCT ON (id) data FROM ${table} ORDER BY id, _block_ts DESC) latest`;
+
+  return [
+    `SELECT data FROM ${source}${
+      conditions.length ? ` WHERE ${conditions.join(" AND ")}` : ""
+    } ORDER BY ${order.join(", ")}${
+      typeof first !== "undefined" ? ` LIMIT ${param(first)}` : ""
+    } OFFSET ${param(skip)}`,
+    params,
+  ];
+};
+
+// construct a delete for the most recent entry of each id
+const remove = (table: string, ids: string[]): [string, unknown[]] => {
+  return [
+    `DELETE FROM ${table} WHERE ctid IN (SELECT DISTINCT ON (id) ctid FROM ${table} WHERE id = ANY($1) ORDER BY id, _block_ts DESC)`,
+    [ids],
+  ];
+};
+
+// run every statement inside a single transaction (all or nothing)
+const transaction = async (
+  db: PostgresClient,
+  statements: [string, unknown[]][]
+) => {
+  // a transaction must run on a single connection so we check one out of the pool
+  const isPool = typeof (db as Pool).totalCount === "number";
+  const conn = isPool ? await (db as Pool).connect() : db;
+
+  try {
+    // open the transaction
+    await conn.query("BEGIN");
+    // run each statement in turn
+    // eslint-disable-next-line no-restricted-syntax
+    for (const [query, params] of statements) {
+      // eslint-disable-next-line no-await-in-loop
+      await conn.query(query, params);
+    }
+    // commit everything at once
+    await conn.query("COMMIT");
+  } catch (e) {
+    // discard everything written in this attempt
+    await conn.query("ROLLBACK").catch(() => undefined);
+    // throw the error to retry
+    throw e;
+  } finally {
+    // return the connection to the pool
+    if (isPool) (conn as PoolClient).release();
+  }
+};
+
+export default Postgres;
@@ -0,0 +1,98 @@
+// Record the progress of the catchup so that an interrupted run can resume where it stopped
+import { createHash } from "crypto";
+
+import { SyncEvent, SyncProgress } from "@/sync/types";
+
+import { getEngine } from "@/sync/tooling/persistence/store";
+
+import { toEventData } from "@/utils/toEventData";
+
+// the default no. of events to process between committing progress
+export const PROGRESS_INTERVAL = 1000;
+
+// restore the progress of an interrupted catchup (starting fresh if any chain has moved since it was recorded)
+export const getSyncProgress = async () => {
+  // get the engine
+  const engine = await getEngine();
+
+  // the pointers each chain is starting from
+  const pointers = Object.keys(engine.latestEntity).reduce((all, chainId) => {
+    all[+chainId] = engine.latestEntity[chainId]?.latestBlock ?? null;
+
+    return all;
+  }, {} as SyncProgress["pointers"]);
+
+  // read directly from the db (the stage skips the lookup on a newDb)
+  const recorded = (await engine.db
+    .get("__meta__.progress")
+    .catch(() => null)) as SyncProgress | null;
+
+  // resume when every chain is where we left it
+  return recorded &&
+    Object.keys(pointers).every(
+      (chainId) => (recorded.pointers?.[chainId] ?? null) === pointers[chainId]
+    )
+    ? recorded
+    : ({
+        id: "progress",
+        pointers,
+        toBlocks: {},
+        fetched: {},
+        processed: 0,
+      } as SyncProgress);
+};
+
+// record the progress (this is staged alongside the entities when a checkpoint is open)
+export const saveSyncProgress = async () => {
+  // get the engine
+  const engine = await getEngine();
+
+  // write a copy of the current progress
+  if (engine.progress) {
+    await engine.stage.put(
+      "__meta__.progress",
+      JSON.parse(JSON.stringify(engine.progress))
+    );
+  }
+};
+
+// clear the progress once the catchup has completed (nothing is recorded against the pointers so the next run starts fresh)
+export const clearSyncProgress = async () => {
+  // get the engine
+  const engine = await getEngine();
+
+  // record an empty progress and stop tracking
+  if (engine.progress) {
+    engine.progress = {
+      id: "progress",
+      pointers: {},
+      toBlocks: {},
+      fetched: {},
+      processed: 0,
+    };
+    await saveSyncProgress();
+    engine.progress = undefined;
+  }
+};
+
+// key the event in the progress (used to check that we're resuming the same set of events)
+export const toProgressEvent = (event: SyncEvent) => {
+  // events are either logs or block/tx markers
+  const data = toEventData(event.data);
+
+  return `${event.chainId}-${event.type}-${+(
+    event.blockNumber || data.blockNumber
+  )}-${
+    data.transactionHash || (typeof event.data === "string" ? event.data : "")
+  }-${event.logIndex ?? data.logIndex ?? ""}`;
+};
+
+// chain each event into the hash of the events before it (used to check that we're resuming the same set of events)
+export const toProgressHash = (events: SyncEvent[], hash: string = "") =>
+  events.reduce(
+    (prefix, event) =>
+      createHash("sha256")
+        .update(`${prefix}:${toProgressEvent(event)}`)
+        .digest("hex"),
+    hash
+  );
@@ -0,0 +1,123 @@
+// Filter, sort and paginate entries in memory (matching the queries the db adapters run for Store.find)
+import { BigNumber } from "ethers";
+
+// Import the options accepted by Store.find
+import { FindOptions } from "@/sync/types";
+
+// filter, sort and paginate the given entries according to the find options
+export const queryEntries = <T extends Record<string, unknown>>(
+  values: T[],
+  {
+    where,
+    orderBy,
+    orderDirection = "asc",
+    first,
+    skip = 0,
+  }: FindOptions<T> = {}
+) => {
+  // filter by predicate or by matching every field in the where clause
+  const matches = values.filter((value) =>
+    typeof where === "function"
+      ? where(value)
+      : Object.keys(where || {}).every((key) =>
+          isMatch(value[key as keyof T], where[key as keyof T])
+        )
+  );
+
+  // sort by the given field (breaking ties on id to give a stable order)
+  matches.sort(
+    (a, b) =>
+      (orderDirection === "desc" ? -1 : 1) *
+      (compare(
+        a[(orderBy || "id") as keyof T],
+        b[(orderBy || "id") as keyof T]
+      ) || compare(a.id, b.id))
+  );
+
+  // paginate the result
+  return matches.slice(
+    skip,
+    typeof first !== "undefined" ? skip + first : undefined
+  );
+};
+
+// normalise BigNumbers to their stored (string) form
+export const toStoredValue = (value: unknown) =>
+  // eslint-disable-next-line no-underscore-dangle
+  (value as { _isBigNumber: boolean })?._isBigNumber
+    ? (value as BigNumber).toString()
+    : value;
+
+// numeric values are compared as numbers (BigNumbers are stored as strings)
+export const isNumeric = (value: unknown) =>
+  typeof value === "number" ||
+  (typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value));
+
+// compare two values for sorting - numeric values come first (in numeric order), then everything else by its text, and missing values last (the db adapters must sort in the same order)
+const compare = (a: unknown, b: unknown) => {
+  // normalise the values
+  const left = toStoredValue(a);
+  const right = toStoredValue(b);
+
+  // missing values are sorted to the end
+  if (isMissing(left) || isMissing(right)) {
+    return +isMissing(left) - +isMissing(right);
+  }
+
+  // numeric values are sorted before everything else
+  if (isNumeric(left) !== isNumeric(right)) {
+    return isNumeric(left) ? -1 : 1;
+  }
+
+  // compare the numbers exactly and break ties (or compare everything else) on the text (by code point)
+  return (
+    (isNumeric(left) && compareNumbers(`${left}`, `${right}`)) ||
+    compareText(`${left}`, `${right}`)
+  );
+};
+
+// null is stored the same as a missing value
+const isMissing = (value: unknown) => value === null || value === undefined;
+
+// compare by code point (matching the dbs binary comparison)
+const compareText = (left: string, right: string) =>
+  left < right ? -1 : +(left > right);
+
+// compare numeric strings exactly (BigNumbers can hold more digits than a js number)
+const compareNumbers = (left: string, right: string) => {
+  // the unsigned digits of each value
+  const [a, b] = [toMagnitude(left), toMagnitude(right)];
+  // the sign of each value (zero carries no sign)
+  const [signA, signB] = [toSign(left, a), toSign(right, b)];
+
+  // longer integer parts hold bigger magnitudes, then the digits are compared in order
+  return (
+    signA - signB ||
+    signA *
+      (a.split(".")[0].length - b.split(".")[0].length || compareText(a, b))
+  );
+};
+
+// -1, 0 or 1 for the given numeric string and its magnitude
+const toSign = (value: string, magnitude: string) =>
+  (magnitude && (value.startsWith("-") ? -1 : 1)) || 0;
+
+// drop the sign along with any leading and trailing zeros (so that equal values share a magnitude and zero is empty)
+const toMagnitude = (value: string) =>
+  value
+    .replace(/^-/, "")
+    .replace(/^0+/, "")
+    .replace(/(\.\d*?)0+$/, "$1")
+    .replace(/\.$/, "");
+
+// check if the value matches the expected value (arrays match any of the given values)
+const isMatch = (value: unknown, expected: unknown): boolean =>
+  Array.isArray(expected)
+    ? expected.some((item) => isMatch(value, item))
+    : toStoredValue(value) === toStoredValue(expected) ||
+      (isNumeric(toStoredValue(value)) &&
+        isNumeric(toStoredValue(expected)) &&
+        compareNumbers(
+          `${toStoredValue(value)}`,
+          `${toStoredValue(expected)}`
+        ) === 0);
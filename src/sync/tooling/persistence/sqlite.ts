@@ -0,0 +1,531 @@
+// SQLite class wraps better-sqlite3 with a simple entity management system (abstract-leveldown compatible)
+import type BetterSqlite3 from "better-sqlite3";
+
+// Make sure the directory we're placing the db file into exists
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+
+// Extend from db (abstract-leveldown compatible kv implementation)
+import { BatchOp, Engine, KV, QueryOptions } from "@/sync/types";
+import { DB, NotFound } from "@/sync/tooling/persistence/db";
+import { toStoredValue } from "@/sync/tooling/persistence/query";
+
+// Get the user land current working directory
+import { cwd } from "@/utils";
+
+// Any better-sqlite3 connection
+export type SQLiteClient = BetterSqlite3.Database;
+
+// Simple key-value database store (abstract-leveldown compliant)
+export class SQLite extends DB {
+  // kv store holds a materialised view of current state in local cache (by ref.id)
+  declare kv: KV;
+
+  // engine carries global state
+  declare engine: Engine;
+
+  // useStorage will be undefined on this adapter because we're bypassing node-persist
+  declare useStorage?: boolean;
+
+  // underlying sqlite connection (if not provided we will open a file named after the db in cwd)
+  client?: SQLiteClient | Promise<SQLiteClient>;
+
+  // name given to the db (used to name the db file)
+  name: string;
+
+  // are the entities in this db being upserted or not?
+  mutable: boolean;
+
+  // sqlite connection resolved after the entities table has been created
+  _db: Promise<SQLiteClient>;
+
+  // batches are always written inside a single transaction
+  declare transactional: boolean;
+
+  // construct a kv store
+  constructor(
+    client: SQLiteClient | Promise<SQLiteClient> | undefined,
+    name: string,
+    kv: KV,
+    mutable?: boolean,
+    engine?: Engine
+  ) {
+    // init super
+    super(kv, engine);
+    // establish connection
+    this.client = client;
+    // record the db name
+    this.name = name;
+    // are the ids unique?
+    this.mutable = mutable || false;
+    // associate the engine
+    this.engine = engine || ({} as Engine);
+    // every batch runs in a transaction
+    this.transactional = true;
+    // store the db connection
+    this._db = this.db();
+  }
+
+  async db() {
+    // resolve the given connection or open the file for this db
+    const db =
+      (await this.client) ||
+      (await (async () => {
+        // only load the native driver if we need to open the file ourselves
+        const { default: Database } = await import("better-sqlite3");
+        // place the file alongside the rest of the local artifacts
+        const file = `${cwd}${this.name || "supagraph"}.sqlite`;
+        // make sure the directory exists
+        mkdirSync(dirname(file), { recursive: true });
+        // open the file
+        const opened = new Database(file);
+        // allow the graphql server to read while the sync is writing
+        opened.pragma("journal_mode = WAL");
+
+        return opened;
+      })());
+
+    // every entity is stored in a single table, immutable entities hold one row per id for every block its altered in
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS entities (
+        ref TEXT NOT NULL,
+        id TEXT NOT NULL,
+        _block_ts INTEGER NOT NULL DEFAULT -1,
+        _block_num INTEGER NOT NULL DEFAULT -1,
+        _chain_id INTEGER NOT NULL DEFAULT -1,
+        data TEXT NOT NULL,
+        PRIMARY KEY (ref, id, _block_num, _chain_id)
+      )`
+    );
+    // index the ordering we use to select the most recent insertion
+    db.exec(
+      `CREATE INDEX IF NOT EXISTS entities_ref_id_block_ts ON entities (ref, id, _block_ts DESC)`
+    );
+
+    // return the connection for querying
+    return db;
+  }
+
+  // create a new instance statically
+  static async create({
+    client,
+    name,
+    kv,
+    mutable,
+    reset,
+    engine,
+  }: {
+    client?: SQLiteClient | Promise<SQLiteClient>;
+    name: string;
+    kv: KV;
+    mutable?: boolean;
+    reset?: boolean;
+    engine?: Engine;
+  } & Record<string, unknown>) {
+    const db = new this(client, name, kv, mutable, engine);
+    await db.update({ kv, reset });
+    return db;
+  }
+
+  // update the kv store with a new set of values (entities are read from the file on demand rather than loaded upfront)
+  async update({
+    kv,
+    reset,
+  }: { kv: KV; reset?: boolean } & Record<string, unknown>) {
+    // clear the db between runs to move back to the start
+    if (reset) {
+      (await this._db).exec(`DELETE FROM entities`);
+    }
+    // use given kv
+    const kvs = { ...kv };
+    // restore the kv store
+    this.kv = kvs;
+  }
+
+  // is the given ref being upserted on id?
+  isMutable(ref: string) {
+    return this.mutable || ref === "__meta__";
+  }
+
+  // get from sqlite
+  async get(key: string) {
+    // otherwise spit the key and get from sqlite
+    const [ref, id] = key.split(".");
+
+    // check in runtime cache
+    if (ref && id) {
+      // console.log(`getting ${key}`);
+      const val = this.kv[ref]?.[id];
+
+      // return the value
+      if (val) return val;
+    }
+
+    // for valid single entry get...
+    if (ref && id && !this.engine.newDb && (!this.warm || ref === "__meta__")) {
+      // this wants to get only the most recent insertion
+      const row = (await this._db)
+        .prepare(
+          `SELECT data FROM entities WHERE ref = ? AND id = ? ORDER BY _block_ts DESC LIMIT 1`
+        )
+        .get(ref, id) as { data: string } | undefined;
+
+      // return if we discovered a result
+      if (row) return JSON.parse(row.data);
+    }
+
+    // for valid entry reqs (used in migrations and by the memoryResolver)...
+    if (
+      ref &&
+      !id &&
+      !this.engine.newDb &&
+      (!this.warm || ref === "__meta__")
+    ) {
+      // default the collection
+      this.kv[ref] = this.kv[ref] || {};
+
+      // select the most recent state for each id
+      const rows = (await this._db)
+        .prepare(
+          `SELECT data FROM (SELECT data, ROW_NUMBER() OVER (PARTITION BY id ORDER BY _block_ts DESC) AS position FROM entities WHERE ref = ?) WHERE position = 1`
+        )
+        .all(ref) as { data: string }[];
+
+      // parse each entry and place into kv store
+      const vals = rows.map(({ data }) => {
+        const val = JSON.parse(data);
+        // store into kv
+        this.kv[ref][val.id] = val;
+
+        return val;
+      });
+
+      // return if the ref holds values
+      if (vals.length) return vals;
+    } else if (ref && !id) {
+      // can get all from kv store
+      const val = this.kv[ref];
+
+      // return the collection based on keys
+      if (val) return Object.keys(val).map((valKey) => val[valKey]);
+    }
+
+    // throw not found to indicate we can't find it
+    throw new NotFound("Not Found");
+  }
+
+  // run the query against sqlite (only the matching page of entries is read)
+  async query(ref: string, options: QueryOptions = {}) {
+    // nothing has been written yet
+    if (this.engine.newDb) return [];
+    // the kv holds every entry so we can query it in memory
+    if (this.warm && ref !== "__meta__") return super.query(ref, options);
+
+    // construct the select
+    const [query, params] = select(ref, this.isMutable(ref), options);
+    // get the page of entries
+    const rows = (await this._db).prepare(query).all(params) as {
+      data: string;
+    }[];
+
+    return rows.map(({ data }) => JSON.parse(data)) as Record<
+      string,
+      unknown
+    >[];
+  }
+
+  // store into sqlite
+  async put(key: string, val: Record<string, unknown>) {
+    // spit the key and get from sqlite
+    const [ref, id] = key.split(".");
+
+    // default the collection
+    this.kv[ref] = this.kv[ref] || {};
+
+    // for valid reqs...
+    if (ref && id) {
+      // console.log(`putting ${key}`, val);
+      this.kv[ref][id] = val;
+
+      // prevent alterations in read-only mode
+      if (!this.engine.readOnly) {
+        // write the entry
+        upsert(await this._db, ref, this.isMutable(ref), [{ id, value: val }]);
+      }
+    }
+
+    return true;
+  }
+
+  // delete from sqlite
+  async del(key: string) {
+    // spit the key and get from sqlite
+    const [ref, id] = key.split(".");
+
+    // default the collection
+    this.kv[ref] = this.kv[ref] || {};
+
+    // for valid reqs...
+    if (ref && id) {
+      // remove from local-cache (the next time we put on this key we will produce a new empty object as starting point)
+      delete this.kv[ref][id];
+
+      // prevent alterations in read-only mode
+      if (!this.engine.readOnly) {
+        // this will delete the latest entry only (matching the mongo implementation)
+        remove(await this._db, ref, [id]);
+      }
+    }
+
+    return true;
+  }
+
+  // perform every put/delete in a single transaction
+  async batch(vals: BatchOp[]) {
+    // resolve the connection
+    const db = await this._db;
+
+    // split the ops into puts and dels by ref
+    const puts: Record<
+      string,
+      { id: string; value: Record<string, unknown> }[]
+    > = {};
+    const dels: Record<string, string[]> = {};
+
+    // record each op and apply it to the local-cache
+    vals.forEach((val) => {
+      // pull ref and id from the given key
+      const [ref, id] = val.key.split(".");
+
+      // only collect true values
+      if (val.type === "del" || val?.value) {
+        // make sure the store exists to cache values into
+        this.kv[ref] = this.kv[ref] || {};
+        // store in to local-cache and stack the write
+        if (val.type === "put") {
+          puts[ref] = puts[ref] || [];
+          puts[ref].push({ id, value: val.value });
+          this.kv[ref][id] = val.value;
+        }
+        // delete the value from cache and stack the delete
+        if (val.type === "del") {
+          dels[ref] = dels[ref] || [];
+          dels[ref].push(id);
+          delete this.kv[ref][id];
+        }
+      }
+    });
+
+    // save the batch to sqlite
+    if (!this.engine.readOnly) {
+      // the transaction will be rolled back if any statement throws
+      db.transaction(() => {
+        Object.keys(puts).forEach((ref) => {
+          upsert(db, ref, this.isMutable(ref), puts[ref]);
+        });
+        Object.keys(dels).forEach((ref) => {
+          remove(db, ref, dels[ref]);
+        });
+      })();
+    }
+
+    return true;
+  }
+
+  // delete every entry written on chainId after blockNumber and restore the cache to the surviving state
+  async rollback(chainId: number, blockNumber: number) {
+    // mutable entities are upserted in place so there is nothing to roll back to
+    if (this.mutable) {
+      return super.rollback(chainId, blockNumber);
+    }
+
+    // prevent alterations in read-only mode
+    if (!this.engine.readOnly) {
+      // resolve the connection
+      const db = await this._db;
+      // drop everything written by the orphaned blocks (__meta__ is always mutable)
+      const rows = db
+        .prepare(
+          `DELETE FROM entities WHERE ref != '__meta__' AND _chain_id = ? AND _block_num > ? RETURNING ref, id`
+        )
+        .all(chainId, blockNumber) as { ref: string; id: string }[];
+      // get the latest remaining insertion for each id
+      const latest = db.prepare(
+        `SELECT data FROM entities WHERE ref = ? AND id = ? ORDER BY _block_ts DESC LIMIT 1`
+      );
+
+      // restore the most recent surviving entry for each id into the local-cache
+      rows.forEach(({ ref, id }) => {
+        // make sure the store exists to cache values into
+        this.kv[ref] = this.kv[ref] || {};
+        // entities created in the orphaned blocks will no longer exist
+        const row = latest.get(ref, id) as { data: string } | undefined;
+        // replace or remove the cached entry
+        if (row) {
+          this.kv[ref][id] = JSON.parse(row.data);
+        } else {
+          delete this.kv[ref][id];
+        }
+      });
+    }
+
+    return true;
+  }
+}
+
+// write the entries (mutable refs replace every previous entry for the id, immutable refs replace the entry at the same block)
+const upsert = (
+  db: SQLiteClient,
+  ref: string,
+  mutable: boolean,
+  entries: { id: string; value: Record<string, unknown> }[]
+) => {
+  // prepare the statements once for all entries
+  const clear = db.prepare(`DELETE FROM entities WHERE ref = ? AND id = ?`);
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO entities (ref, id, _block_ts, _block_num, _chain_id, data) VALUES (?, ?, ?, ?, ?, ?)`
+  );
+
+  // write every entry in a single transaction (nested transactions become savepoints)
+  db.transaction(() => {
+    entries.forEach(({ id, value }) => {
+      // drop any mongo style _id from the stored data
+      const data = Object.keys(value || {}).reduce((carr, key) => {
+        // add everything but the _id
+        if (key !== "_id") carr[key] = value[key];
+
+        return carr;
+      }, {} as Record<string, unknown>);
+      // mutable entries only ever hold a single row
+      if (mutable) clear.run(ref, id);
+      // insert the entry
+      insert.run(
+        ref,
+        id,
+        value?._block_ts ?? -1,
+        value?._block_num ?? -1,
+        value?._chain_id ?? -1,
+        JSON.stringify(data)
+      );
+    });
+  })();
+};
+
+// construct a select for the page of entries matching the query options (sorted in the same order as queryEntries)
+const select = (
+  ref: string,
+  mutable: boolean,
+  {
+    where = {},
+    orderBy = "id",
+    orderDirection = "asc",
+    first,
+    skip = 0,
+  }: QueryOptions
+): [string, Record<string, unknown>] => {
+  // collect the named params as we build the statement
+  const params: Record<string, unknown> = {};
+  // place the param and return its placeholder
+  const param = (value: unknown) => {
+    const name = `p${Object.keys(params).length + 1}`;
+    params[name] = value;
+
+    return `@${name}`;
+  };
+  // the field as text (in the same form as its stored value, missing and null values are NULL)
+  const toText = (key: string) => {
+    const path = param(`$."${key}"`);
+
+    return `(CASE json_type(data, ${path}) WHEN 'text' THEN json_extract(data, ${path}) WHEN 'null' THEN NULL ELSE data -> ${path} END)`;
+  };
+
+  // values are compared in their stored (text) form
+  const conditions = Object.keys(where).map((key) => {
+    // split the expected values into nulls and values
+    const values = [].concat(where[key]).map(toStoredValue);
+    const nulls = values.some((value) => value === null || value === undefined);
+    const matches = values
+      .filter((value) => value !== null && value !== undefined)
+      .map((value) => param(`${value}`));
+    // the field as text
+    const field = toText(key);
+
+    return `(${
+      [
+        matches.length && `${field} IN (${matches.join(", ")})`,
+        nulls && `${field} IS NULL`,
+      ]
+        .filter((condition) => condition)
+        .join(" OR ") || "FALSE"
+    })`;
+  });
+
+  // sort on the given field and break ties on id
+  const keys = Array.from(new Set([orderBy, "id"]));
+  // sqlite can't hold BigNumbers as numbers so numeric values are sorted by their sign, the length of their integer part and then their digits
+  const direction = orderDirection === "desc" ? "DESC" : "ASC";
+  const reverse = orderDirection === "desc" ? "ASC" : "DESC";
+  const order = keys.map((_, index) => {
+    // the text, whether it's numeric and its magnitude (without the sign and any leading or trailing zeros)
+    const [text, numeric, magnitude] = [`k${index}`, `n${index}`, `m${index}`];
+    const sign = `(CASE WHEN ${magnitude} = '' THEN 0 WHEN ${text} GLOB '-*' THEN -1 ELSE 1 END)`;
+    const length = `(CASE WHEN instr(${magnitude}, '.') THEN instr(${magnitude}, '.') - 1 ELSE length(${magnitude}) END)`;
+
+    // missing values last, then numeric values (negative values have their magnitudes reversed), then by text in byte order
+    return [
+      `${text} IS NULL ${direction}`,
+      `(NOT ${numeric}) ${direction}`,
+      `(CASE WHEN ${numeric} THEN ${sign} END) ${direction}`,
+      `(CASE WHEN ${numeric} AND ${sign} = 1 THEN ${length} END) ${direction}`,
+      `(CASE WHEN ${numeric} AND ${sign} = 1 THEN ${magnitude} END) ${direction}`,
+      `(CASE WHEN ${numeric} AND ${sign} = -1 THEN ${length} END) ${reverse}`,
+      `(CASE WHEN ${numeric} AND ${sign} = -1 THEN ${magnitude} END) ${reverse}`,
+      `${text} ${direction}`,
+    ].join(", ");
+  });
+
+  // immutable refs hold an entry for every block - match against the latest for each id
+  const source = mutable
+    ? `(SELECT data FROM entities WHERE ref = ${param(ref)})`
+    : `(SELECT data FROM (SELECT data, ROW_NUMBER() OVER (PARTITION BY id ORDER BY _block_ts DESC) AS position FROM entities WHERE ref = ${param(
+        ref
+      )}) WHERE position = 1)`;
+  // the text of each sorted field
+  const texts = keys.map((key, index) => `${toText(key)} AS k${index}`);
+  // check if each field is numeric (matching ^-?[0-9]+([.][0-9]+)?$) and find its magnitude
+  const magnitudes = keys.map((_, index) => {
+    const unsigned = `(CASE WHEN k${index} GLOB '-*' THEN substr(k${index}, 2) ELSE k${index} END)`;
+    const trimmed = `ltrim(${unsigned}, '0')`;
+
+    return [
+      `(${unsigned} GLOB '[0-9]*' AND ${unsigned} NOT GLOB '*[^0-9.]*' AND ${unsigned} NOT GLOB '*.*.*' AND ${unsigned} NOT GLOB '*.') AS n${index}`,
+      `(CASE WHEN instr(${trimmed}, '.') THEN rtrim(rtrim(${trimmed}, '0'), '.') ELSE ${trimmed} END) AS m${index}`,
+    ].join(", ");
+  });
+
+  return [
+    `SELECT data FROM (SELECT *, ${magnitudes.join(
+      ", "
+    )} FROM (SELECT data, ${texts.join(", ")} FROM ${source}${
+      conditions.length ? ` WHERE ${conditions.join(" AND ")}` : ""
+    })) ORDER BY ${order.join(", ")} LIMIT ${param(
+      typeof first !== "undefined" ? first : -1
+    )} OFFSET ${param(skip)}`,
+    params,
+  ];
+};
+
+// delete the most recent entry of each id
+const remove = (db: SQLiteClient, ref: string, ids: string[]) => {
+  // prepare the statement once for all ids
+  const statement = db.prepare(
+    `DELETE FROM entities WHERE rowid = (SELECT rowid FROM entities WHERE ref = ? AND id = ? ORDER BY _block_ts DESC LIMIT 1)`
+  );
+
+  // delete each id in a single transaction
+  db.transaction(() => {
+    ids.forEach((id) => statement.run(ref, id));
+  })();
+};
+
+export default SQLite;
@@ -1,9 +1,12 @@
 // import types used by Stage
-import { BatchOp } from "@/sync/types";
+import { BatchOp, QueryOptions } from "@/sync/types";
 
 // Stage will extend DB to hold local state before it is commited to the constructed DB (on commit)
 import { DB } from "@/sync/tooling/persistence/db";
 
+// Sort and paginate the committed entries merged with the staged entries
+import { queryEntries } from "@/sync/tooling/persistence/query";
+
 // Store any ops during checkpoint into keyValueMap to execute on parent later
 export type Checkpoint = {
   keyValueMap: Map<string, (Record<string, unknown> | null)[]>;
@@ -155,6 +158,101 @@ export class Stage extends DB {
     return null;
   }
 
+  // retrieves every entry of the ref from the db merged with the entries held in the open checkpoints
+  async getAll(ref: string) {
+    // collect the entries by id
+    const entries: Record<string, Record<string, unknown>> = {};
+
+    // read the committed state (skipping the lookup if this is a newDb)
+    if (!this.db.engine?.newDb) {
+      try {
+        // get every entry for the ref
+        const values = (await this.db.get(ref)) as Record<string, unknown>[];
+        // key by id so that staged values can replace them
+        (values || []).forEach((value) => {
+          if (value?.id) entries[value.id as string] = value;
+        });
+      } catch {
+        // nothing has been committed for this ref yet
+      }
+    }
+
+    // replace the committed entries with the staged entries (staged deletes are recorded as null)
+    Object.entries(this.staged(ref)).forEach(([id, value]) => {
+      if (value === null) {
+        delete entries[id];
+      } else {
+        entries[id] = value;
+      }
+    });
+
+    // return a deep copy of the values to avoid mutating in place
+    return JSON.parse(JSON.stringify(Object.values(entries))) as Record<
+      string,
+      unknown
+    >[];
+  }
+
+  // retrieves the entries of the ref which match the query from the db merged with the entries held in the open checkpoints
+  async query(ref: string, options: QueryOptions = {}) {
+    // the latest staged value for each id
+    const staged = this.staged(ref);
+    // the no. of committed entries that might be replaced by staged entries
+    const replaced = Object.keys(staged).length;
+    // query the committed state (skipping the lookup if this is a newDb)
+    const committed = !this.db.engine?.newDb
+      ? await this.db.query(ref, {
+          ...options,
+          // take enough from the start of the committed set to fill the page after the staged entries are merged in
+          skip: 0,
+          first:
+            typeof options.first !== "undefined"
+              ? (options.skip || 0) + options.first + replaced
+              : undefined,
+        })
+      : [];
+
+    // merge the staged entries over the committed page and apply the query to the combined set
+    const entries = queryEntries(
+      [
+        ...committed.filter((value) => !(`${value.id}` in staged)),
+        ...Object.values(staged).filter((value) => value !== null),
+      ],
+      options
+    );
+
+    // return a deep copy of the values to avoid mutating in place
+    return JSON.parse(JSON.stringify(entries)) as Record<string, unknown>[];
+  }
+
+  // collect the latest value for each id of the ref held in the open checkpoints (null if staged for deletion)
+  staged(ref: string) {
+    // collect the entries by id
+    const entries: Record<string, Record<string, unknown> | null> = {};
+
+    // replay the checkpoints from oldest to newest so that the latest staged value wins
+    this.checkpoints.forEach(({ keyValueMap }) => {
+      keyValueMap.forEach((values, key) => {
+        // split the key to check the ref
+        const [keyRef, id] = key.split(".");
+        // take the latest value for the key
+        const value = values?.[values.length - 1];
+
+        // record values and deletes
+        if (keyRef === ref && (value || value === null)) {
+          entries[id] = value;
+        }
+      });
+    });
+
+    return entries;
+  }
+
+  // retrieves each of the keys (missing keys resolve to null)
+  async getMany(keys: string[]) {
+    return Promise.all(keys.map((key) => this.get(key).catch(() => null)));
+  }
+
   // writes a value directly to leveldb or stores it in a checkpoint
   async put(key: string, val: Record<string, unknown>): Promise<boolean> {
     if (this.isCheckpoint) {
@@ -212,4 +310,28 @@ export class Stage extends DB {
     // else commit it to db
     return this.db.batch(opStack);
   }
+
+  // we rollback by flushing to the underlying db and rolling it back
+  get canRollback() {
+    return this.db.canRollback;
+  }
+
+  // commits all open checkpoints and rolls back the underlying db to the given block
+  async rollback(chainId: number, blockNumber: number): Promise<boolean> {
+    // the staged changes hold the orphaned blocks - if the db can't drop them after they're written then we discard them instead (nothing staged reaches the db)
+    if (!this.canRollback) {
+      while (this.isCheckpoint) {
+        this.revert();
+      }
+
+      return this.db.rollback(chainId, blockNumber);
+    }
+    // staged changes can hold writes from before the reorg - flush them all so the db can filter by block
+    while (this.isCheckpoint) {
+      // eslint-disable-next-line no-await-in-loop
+      await this.commit();
+    }
+    // rollback the committed state
+    return this.db.rollback(chainId, blockNumber);
+  }
 }
@@ -12,9 +12,10 @@ import { TypedMapEntry } from "@/sync/tooling/persistence/typedMapEntry";
 // Store can use either in-memory or mongo as a driver
 import { DB } from "@/sync/tooling/persistence/db";
 import { Stage } from "@/sync/tooling/persistence/stage";
+import { queryEntries } from "@/sync/tooling/persistence/query";
 
 // Construct engine here to prevent circular references - we need to access the static engine inside the static Store
-import { Engine } from "@/sync/types";
+import { Engine, FindOptions } from "@/sync/types";
 
 // create a global to store in-memory engine for duration of request
 const engine: Engine = ((global as typeof global & { engine: Engine }).engine =
@@ -224,6 +225,22 @@ export class Entity<T extends { id: string }> extends TypedMap<
   }
 }
 
+// construct an entity from the given values
+const toEntity = <T extends { id: string }>(
+  ref: string,
+  id: string,
+  values: T | boolean
+) =>
+  new Entity<T>(
+    ref,
+    id,
+    (!!values &&
+      Object.keys(values).map((key) => {
+        return new TypedMapEntry(key as keyof T, (values as T)[key as keyof T]);
+      })) ||
+      []
+  ) as Entity<T> & T;
+
 // Define methods to interact with the data store...
 export class Store {
   // if this is async we can grab entities on-demand
@@ -248,21 +265,70 @@ export class Store {
         ((await engine?.stage?.get(`${toCamelCase(ref)}.${id}`)) as T);
     } finally {
       // eslint-disable-next-line no-unsafe-finally
-      return new Entity<T>(
-        ref,
-        id,
-        (!!fromDb &&
-          Object.keys(fromDb).map((key) => {
-            return new TypedMapEntry(
-              key as keyof T,
-              (fromDb as T)[key as keyof T]
-            );
-          })) ||
-          []
-      ) as Entity<T> & T;
+      return toEntity<T>(ref, id, fromDb);
     }
   }
 
+  // get every entity of the ref (including staged changes) which matches the where clause
+  static async find<T extends { id: string }>(
+    ref: string,
+    {
+      where,
+      orderBy,
+      orderDirection = "asc",
+      first,
+      skip = 0,
+    }: FindOptions<T> = {}
+  ): Promise<(Entity<T> & T)[]> {
+    // if we attempt to use this without an engine then prepare one now...
+    if (!engine.db)
+      await setEngine({
+        name: "supagraph",
+        db: new DB({}),
+      });
+    // predicates can only be ran in memory so we need every entity - otherwise the db runs the query and we merge in the staged changes
+    const values = (typeof where === "function"
+      ? queryEntries(
+          ((await engine?.stage?.getAll(toCamelCase(ref))) ||
+            []) as unknown as T[],
+          { where, orderBy, orderDirection, first, skip }
+        )
+      : (await engine?.stage?.query(toCamelCase(ref), {
+          where,
+          orderBy: orderBy as string,
+          orderDirection,
+          first,
+          skip,
+        })) || []) as unknown as T[];
+
+    // convert to entities
+    return values.map((value) => toEntity<T>(ref, value.id, value));
+  }
+
+  // get each of the entities by id (including staged changes) - missing entities are omitted
+  static async loadMany<T extends { id: string }>(
+    ref: string,
+    ids: string[]
+  ): Promise<(Entity<T> & T)[]> {
+    // if we attempt to use this without an engine then prepare one now...
+    if (!engine.db)
+      await setEngine({
+        name: "supagraph",
+        db: new DB({}),
+      });
+    // get every entity in parallel
+    const values = ((await engine?.stage?.getMany(
+      ids.map((id) => `${toCamelCase(ref)}.${id}`)
+    )) || []) as unknown as T[];
+
+    // convert the discovered values to entities
+    return ids.reduce((entities, id, index) => {
+      if (values[index]) entities.push(toEntity<T>(ref, id, values[index]));
+
+      return entities;
+    }, [] as (Entity<T> & T)[]);
+  }
+
   static async set<T extends { id: string }>(
     ref: string,
     id: string,
@@ -0,0 +1,327 @@
+// Collect, sort and process the catchup one window of blocks at a time (so that we only hold a window of events from each chain in memory)
+import { toEventData } from "@/utils/toEventData";
+
+import { Migration, SyncConfig, SyncEvent, SyncWindow } from "@/sync/types";
+import { getEngine } from "@/sync/tooling/persistence/store";
+import { clearSyncProgress } from "@/sync/tooling/persistence/progress";
+import { applyMigrations } from "@/sync/tooling/migrations";
+import { processEvents } from "@/sync/tooling/processing";
+import { getNetworks } from "@/sync/tooling/network/providers";
+import {
+  getNewSyncEvents,
+  getNewSyncEventsBlocks,
+  getNewSyncEventsSorted,
+  getNewSyncEventsTxReceipts,
+} from "@/sync/tooling/network/events";
+
+// retrieve and process all events from all syncs from last-run to now in windows of engine.windowSize blocks (merging the chains so that events are processed in the same order as a full sort)
+export const processWindows = async (
+  migrations: Migration[],
+  config: SyncConfig,
+  collectAnyBlocks: boolean,
+  collectAnyTxReceipts: boolean,
+  collectBlocks: boolean,
+  collectTxReceipts: boolean,
+  silent: boolean
+) => {
+  // get the global engine
+  const engine = await getEngine();
+
+  // get all chainIds for defined networks
+  const { chainIds, syncProviders } = await getNetworks();
+
+  // every chain we're collecting from
+  const chains = Array.from(chainIds);
+
+  // the next block to collect from each chain and the last block we'll collect
+  const cursors: Record<number, number> = {};
+  const endBlocks: Record<number, number> = {};
+  // the position (timestamp or blockNumber) each chain has been collected up to
+  const reached: Record<number, number> = {};
+  // count the events we collect from each chain
+  const eventsByChain: Record<number, number> = {};
+
+  // events we've collected that can't be processed until every chain has been collected up to them
+  let buffer: SyncEvent[] = [];
+  // every event at or before the frontier has been collected from every chain
+  let frontier = -Infinity;
+  // the no. of events processed over every window
+  let processed = 0;
+
+  // the pointers move with each window so we don't need to record progress
+  if (engine.progress) await clearSyncProgress();
+
+  // establish the range we're collecting from each chain
+  chains.forEach((chainId) => {
+    // the syncs we're collecting on this chain
+    const syncs = engine.syncs.filter((sync) => +sync.chainId === +chainId);
+    // starting from the last block we synced to or from the earliest startBlock if newDB
+    cursors[chainId] = engine.latestEntity[chainId]?.latestBlock
+      ? +engine.latestEntity[chainId].latestBlock + 1
+      : Math.min(
+          ...syncs.map(({ startBlock }) =>
+            startBlock === "latest"
+              ? +engine.latestBlocks[chainId].number + 1
+              : +startBlock
+          )
+        );
+    // collecting up to the last endBlock (go back a block as a safety check (1 confirmation))
+    endBlocks[chainId] = Math.max(
+      ...syncs.map(({ endBlock }) =>
+        !Number.isNaN(+endBlock)
+          ? +endBlock
+          : +engine.latestBlocks[chainId].number - 1
+      )
+    );
+    // chains with nothing to collect never hold back the frontier
+    reached[chainId] =
+      cursors[chainId] > endBlocks[chainId] ? Infinity : -Infinity;
+    // nothing collected yet
+    eventsByChain[chainId] = 0;
+  });
+
+  // record where the catchup started for the pointer logs
+  const startBlocks = { ...cursors };
+
+  // skip the db lookups until the first window is committed if any chain is starting fresh (getNewSyncEvents marks every window on a fresh chain as a newDb so we reset this after each collection)
+  const fresh = chains.some(
+    (chainId) => !engine.latestEntity[chainId]?.latestBlock
+  );
+  // set once we've committed a window
+  let committed = false;
+
+  // mark engine as newDb
+  engine.newDb = fresh;
+
+  // sort and process every event up to the frontier (this commits the window and moves the pointers)
+  const processFrontier = async () => {
+    // move the pointers on from where the catchup started (rather than from the last window collected)
+    engine.startBlocks = { ...startBlocks };
+    // sort the events into processing order
+    engine.events = await getNewSyncEventsSorted(
+      buffer.filter(
+        (event) => toPosition(event, engine.flags.collectBlocks) <= frontier
+      ),
+      engine.flags.collectBlocks,
+      true,
+      silent,
+      false,
+      false
+    );
+    // hold on to everything else for the next window
+    buffer = buffer.filter(
+      (event) => toPosition(event, engine.flags.collectBlocks) > frontier
+    );
+    // process the events and record how many we encountered
+    processed += await processEvents();
+    // the entities are now in the db
+    committed = true;
+  };
+
+  // restore the syncs appendEvents once we're done
+  const { appendEvents } = engine;
+
+  // events appended by syncs added at runtime are held back with the rest of the window if they're beyond the frontier
+  engine.appendEvents = async (prcEvents: SyncEvent[], opSilent: boolean) => {
+    // the db holds the committed windows
+    engine.newDb = fresh && !committed;
+    // get all new blocks and txReceipts associated with events
+    await collectEventsData(
+      prcEvents,
+      collectAnyBlocks,
+      collectAnyTxReceipts,
+      opSilent
+    );
+    // count the events against their chains
+    prcEvents.forEach(({ chainId }) => {
+      eventsByChain[chainId] = (eventsByChain[chainId] || 0) + 1;
+    });
+    // add the events we can process now to the current set and sort them into processing order
+    engine.events = await getNewSyncEventsSorted(
+      engine.events.concat(
+        prcEvents.filter(
+          (event) => toPosition(event, engine.flags.collectBlocks) <= frontier
+        )
+      ),
+      engine.flags.collectBlocks,
+      true,
+      opSilent,
+      false,
+      false
+    );
+    // hold on to the rest
+    buffer = buffer.concat(
+      prcEvents.filter(
+        (event) => toPosition(event, engine.flags.collectBlocks) > frontier
+      )
+    );
+  };
+
+  // we're starting the process here then print the discovery
+  if (!silent) {
+    console.log(
+      `\nStarting sync by collecting events in windows of ${engine.windowSize} blocks...\n\n--\n`
+    );
+  }
+
+  try {
+    // chains which still have blocks to collect
+    let pending = chains.filter((chainId) => reached[chainId] !== Infinity);
+
+    // collect one window at a time until every chain reaches its endBlock
+    while (pending.length) {
+      // collect from the chain which is furthest behind
+      const chainId = pending.reduce((behind, id) =>
+        reached[id] < reached[behind] ? id : behind
+      );
+      // the range of blocks in this window
+      const fromBlock = cursors[chainId];
+      const toBlock = Math.min(
+        fromBlock + Math.max(1, engine.windowSize) - 1,
+        endBlocks[chainId]
+      );
+
+      // only collect this chains window
+      engine.window = { [chainId]: { fromBlock, toBlock } };
+
+      // pull the events from every sync on the chain in the window (the windows are never captured to disk)
+      const { events } = await getNewSyncEvents(
+        engine.syncs.filter((sync) => +sync.chainId === +chainId),
+        collectAnyBlocks,
+        collectAnyTxReceipts,
+        collectBlocks,
+        collectTxReceipts,
+        true,
+        false,
+        true
+      );
+
+      // the db holds the committed windows
+      engine.newDb = fresh && !committed;
+
+      // apply any migrations that fit the window
+      await applyMigrations(migrations, config, events);
+
+      // get all new blocks and txReceipts associated with events
+      await collectEventsData(
+        events,
+        collectAnyBlocks,
+        collectAnyTxReceipts,
+        true
+      );
+
+      // mark the window in the log
+      if (!silent)
+        console.log(
+          `Collected window ${
+            syncProviders[chainId].network.name
+          }(${chainId}) → ${JSON.stringify({
+            fromBlock,
+            toBlock,
+          })} → new events:`,
+          events.length
+        );
+
+      // move the chain on to the next window
+      cursors[chainId] = toBlock + 1;
+      // the position we've collected the chain up to (timestamps are only compared when we're sorting by them)
+      if (toBlock >= endBlocks[chainId]) {
+        reached[chainId] = Infinity;
+      } else if (engine.flags.collectBlocks) {
+        reached[chainId] = +(await syncProviders[chainId].getBlock(toBlock))
+          .timestamp;
+      } else {
+        reached[chainId] = toBlock;
+      }
+
+      // hold the events until the other chains catch up
+      eventsByChain[chainId] += events.length;
+      buffer = buffer.concat(events);
+
+      // every chain has been collected up to the chain which is furthest behind
+      frontier = Math.min(...chains.map((id) => reached[id]));
+      pending = chains.filter((id) => reached[id] !== Infinity);
+
+      // process the window as soon as we're holding events that no other chain can come before
+      if (
+        pending.length &&
+        buffer.some(
+          (event) => toPosition(event, engine.flags.collectBlocks) <= frontier
+        )
+      ) {
+        // syncs added at runtime can collect up to the blocks we've collected from each chain
+        engine.window = chains.reduce(
+          (window, id) => ({
+            ...window,
+            [id]: { fromBlock: 0, toBlock: cursors[id] - 1 },
+          }),
+          {} as SyncWindow
+        );
+        // commit everything up to the frontier
+        await processFrontier();
+      }
+    }
+
+    // the final window is unbounded (this releases the locks as the pointers are updated)
+    engine.window = undefined;
+    frontier = Infinity;
+    // process everything that remains
+    await processFrontier();
+  } finally {
+    // stop windowing any later collections
+    engine.window = undefined;
+    engine.appendEvents = appendEvents;
+  }
+
+  // if we're starting the process here then print the discovery
+  if (!silent) {
+    // detail everything which was loaded in this run
+    console.log(
+      "\n--\n\nTotal no. events discovered:",
+      Object.values(eventsByChain).reduce((total, count) => total + count, 0)
+    );
+  }
+
+  return {
+    processed,
+    eventsByChain,
+  };
+};
+
+// the position the event is sorted on (matching getNewSyncEventsSorted)
+const toPosition = (event: SyncEvent, collectBlocks: boolean) =>
+  collectBlocks
+    ? +event.timestamp || 0
+    : +(event.blockNumber || toEventData(event.data).blockNumber || 0);
+
+// collect the blocks and receipts for the events (blocks first followed by tx's to allow us to recycle txResponses from retrieved blocks)
+const collectEventsData = async (
+  events: SyncEvent[],
+  collectAnyBlocks: boolean,
+  collectAnyTxReceipts: boolean,
+  silent: boolean
+) => {
+  // get the global engine
+  const engine = await getEngine();
+
+  // get all chainIds for current set of defined networks
+  const { syncProviders } = await getNetworks();
+
+  // get all new blocks and txReceipts associated with events
+  await getNewSyncEventsBlocks(
+    events,
+    syncProviders,
+    collectAnyBlocks || engine.flags.collectBlocks,
+    silent,
+    false,
+    false
+  );
+  await getNewSyncEventsTxReceipts(
+    events,
+    syncProviders,
+    collectAnyTxReceipts || engine.flags.collectTxReceipts,
+    silent,
+    false,
+    false
+  );
+};
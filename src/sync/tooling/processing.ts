@@ -19,8 +19,15 @@ import {
   updateSyncPointers,
   releaseSyncPointerLocks,
   updateSyncsOpsMeta,
+  recordIndexingError,
 } from "@/sync/tooling/persistence/meta";
 import { doCleanup, readJSON } from "@/sync/tooling/persistence/disk";
+import {
+  PROGRESS_INTERVAL,
+  clearSyncProgress,
+  saveSyncProgress,
+  toProgressHash,
+} from "@/sync/tooling/persistence/progress";
 
 // Import types used in the process
 import {
@@ -33,6 +40,7 @@ import {
 
 // Cast entry.data to ethers.Event
 import { toEventData } from "@/utils/toEventData";
+import { toParsedLog } from "@/utils/toParsedLog";
 
 // Import provider tooling to gather current network/providers
 import { getNetworks } from "@/sync/tooling/network/providers";
@@ -40,6 +48,20 @@ import { getNetworks } from "@/sync/tooling/network/providers";
 // Import promise queue handling to process internal promise queues
 import { processGlobalPromiseQueue } from "@/sync/tooling/promises";
 
+// Match onCall handlers against the blocks calls
+import {
+  CallTrace,
+  getBlockCalls,
+  getBlockTraces,
+  hasCallTo,
+  getCallFragment,
+  isCallHandler,
+} from "@/sync/tooling/network/calls";
+import { isEveryBlock } from "@/sync/tooling/network/blocks";
+
+// Spawn templates from factory events
+import { addFactorySyncs } from "@/sync/tooling/templates";
+
 // Check if the blockTimestamp will trigger a scheduled event
 import { checkSchedule } from "./schedule";
 import { applyMigrations } from "./migrations";
@@ -59,22 +81,35 @@ export const processCallback = async (
   // cast to eventData once for valid log style events
   const eventData = toEventData(event.data);
 
+  // index for the emitting contracts sync
+  const contractIndex =
+    eventData.address &&
+    `${event.chainId}-${getAddress(eventData.address)}-${event.type}`;
+
+  // index for the iface, callback and opSync entry (wildcard events are carried without an address and are indexed against the chain)
+  const cbIndex =
+    contractIndex &&
+    ("address" in event ? event.address : engine.eventIfaces[contractIndex])
+      ? contractIndex
+      : `${event.chainId}-${event.type}`;
+
   // get an interface to parse the args
-  const iface =
-    engine.eventIfaces[
-      `${
-        (eventData.address &&
-          `${event.chainId.toString()}-${getAddress(eventData.address)}`) ||
-        event.chainId
-      }-${event.type}`
-    ];
+  const iface = engine.eventIfaces[cbIndex];
 
   // make sure we've correctly discovered an events iface
   if (iface) {
-    // extract the args by using the iface to parse event topics & data
+    // extract the args by using the iface to parse event topics & data (or the calldata for calls)
     const { args } =
+      // eslint-disable-next-line no-nested-ternary
       typeof event.args === "object"
         ? event
+        : isCallHandler(event.type)
+        ? {
+            args: iface.decodeFunctionData(
+              getCallFragment(iface, event.type),
+              eventData.data
+            ),
+          }
         : iface.parseLog({
             topics: eventData.topics,
             data: eventData.data,
@@ -118,13 +153,6 @@ export const processCallback = async (
       timestamp: event.timestamp || eventData.blockNumber,
     });
 
-    // index for the callback and opSync entry
-    const cbIndex = `${
-      (eventData.address &&
-        `${event.chainId}-${getAddress(eventData.address)}`) ||
-      event.chainId
-    }-${event.type}`;
-
     // skip the block if the sync has ended
     if (
       !(
@@ -142,8 +170,17 @@ export const processCallback = async (
           tx: tx as TransactionReceipt & TransactionResponse,
           block,
           logIndex: eventData.logIndex,
+          address: eventData.address,
+          from: event.from,
         }
       );
+      // spawn any templates created by this event (these are already registered if the event was discovered in catchup)
+      await addFactorySyncs(
+        engine.opSyncs[cbIndex],
+        event.type,
+        args,
+        +eventData.blockNumber
+      );
       // processed given event
       processed.push(event);
     }
@@ -256,6 +293,32 @@ export const processEvents = async () => {
     // create a checkpoint
     engine.stage.checkpoint();
 
+    // the no. of sorted events we've taken from the queue
+    let position = 0;
+    // hash of every event we've taken from the queue
+    let hash = "";
+
+    // skip the events committed by an interrupted run (these are carried as processed so that the pointers move past them)
+    if (engine.progress?.processed) {
+      // make sure we're resuming the same set of events
+      if (
+        engine.events.length < engine.progress.processed ||
+        toProgressHash(engine.events.slice(0, engine.progress.processed)) !==
+          engine.progress.hash
+      ) {
+        throw new Error(
+          "Supagraph: Unable to resume the interrupted sync - the events have changed since it was recorded"
+        );
+      }
+      // take the committed events from the queue
+      position = engine.progress.processed;
+      hash = engine.progress.hash;
+      processed.push(...engine.events.splice(0, position));
+      // log that we're resuming
+      if (!engine.flags.silent)
+        console.log(`\n--\n\nResuming sync from event ${position}`);
+    }
+
     // log that we're starting
     if (!engine.flags.silent) process.stdout.write(`\n--\n\nEvents processed `);
 
@@ -288,12 +351,41 @@ export const processEvents = async () => {
         abortedCallback = true;
         // clear anything added here...
         engine.stage.revert();
+        // mark the chain as failed in _meta
+        await recordIndexingError(opSorted.chainId);
         // throw the error again
         throw e;
       } finally {
         // commit the checkpoint on the db...
         if (!abortedCallback) await engine.stage.commit();
       }
+
+      // moved passed the event
+      position += 1;
+      // only hashed when we're recording progress
+      if (engine.progress) hash = toProgressHash([opSorted], hash);
+
+      // commit everything so far so that an interrupted run can resume from here
+      if (
+        engine.progress &&
+        engine.events.length &&
+        position % (engine.progressInterval || PROGRESS_INTERVAL) === 0
+      ) {
+        // await all promises that have been enqueued by the processed callbacks
+        await processGlobalPromiseQueue(0);
+        // record how far we've got (staged alongside the entities)
+        engine.progress.processed = position;
+        engine.progress.hash = hash;
+        await saveSyncProgress();
+        // flush every checkpoint to the db (the pointers don't move until we're done - the progress committed in this batch marks these entities as stored)
+        while (engine.stage.isCheckpoint) {
+          await engine.stage.commit();
+        }
+        // the entities are now in the db
+        engine.newDb = false;
+        // reopen the checkpoint for the remaining events
+        engine.stage.checkpoint();
+      }
     }
 
     // await all promises that have been enqueued during execution of callbacks (this will be cleared afterwards ready for the next run)
@@ -305,6 +397,12 @@ export const processEvents = async () => {
     // mark after we end
     if (!engine.flags.silent) process.stdout.write("✔\nEntities stored ");
 
+    // when the db writes atomically we stage the pointers so that they're committed in the same batch as the entities
+    if (engine.db.transactional) {
+      await updateSyncPointers(processed, chainUpdates);
+      await clearSyncProgress();
+    }
+
     // make sure we perform all checkpoint updates in this call
     while (engine.stage.isCheckpoint) {
       // commit the checkpoint on the db...
@@ -318,7 +416,10 @@ export const processEvents = async () => {
     if (!engine.flags.silent) process.stdout.write("✔\nPointers updated ");
 
     // update the pointers to reflect the latest sync
-    await updateSyncPointers(processed, chainUpdates);
+    if (!engine.db.transactional) {
+      await updateSyncPointers(processed, chainUpdates);
+      await clearSyncProgress();
+    }
 
     // finished after updating pointers
     if (!engine.flags.silent) process.stdout.write("✔\n");
@@ -412,6 +513,9 @@ export const processListenerBlock = async (
       delete engine.indexedMigrations[`${chainId}-${+block.number}`];
     }
 
+    // traces for the block are only fetched if an onCall handler needs them
+    let traces: CallTrace[] | undefined;
+
     // run through the ops and extract all events happening in this block to be sorted into logIndex order
     for (const op of indexedOps[chainId]) {
       // make sure endblock is respected
@@ -421,24 +525,40 @@ export const processListenerBlock = async (
           op.eventName === "onBlock" &&
           engine.callbacks[`${chainId}-${op.eventName}`]
         ) {
-          // record the event
-          events.push({
-            ...op,
-            type: "onBlock",
-            id: `${chainId}`,
-            chainId,
-            timestamp: collectBlocks && block.timestamp,
-            data: {
-              blockNumber: block.number,
-            } as Event & { blockNumber: number },
-            blockNumber: +block.number,
-            eventName: op.eventName,
-            args: [],
-            tx: {} as TransactionReceipt & TransactionResponse,
-            // set really big to make sure onBlock is sorted to the end for this block
-            txIndex: 999999999999999,
-            logIndex: 999999999999999,
-          });
+          // internal calls can only be matched against the callFilter with the blocks traces
+          if (op.callFilter && op.opts?.traceCalls && !traces) {
+            traces = await getBlockTraces(op.provider, +block.number);
+          }
+          // only fire on the blocks which pass the ops filters
+          if (
+            isEveryBlock(+block.number, op.every, op.startBlock) &&
+            (!op.callFilter ||
+              hasCallTo(
+                op.callFilter,
+                block as BlockWithTransactions,
+                op.opts?.traceCalls ? traces : undefined,
+                receipts
+              ))
+          ) {
+            // record the event
+            events.push({
+              ...op,
+              type: "onBlock",
+              id: `${chainId}`,
+              chainId,
+              timestamp: collectBlocks && block.timestamp,
+              data: {
+                blockNumber: block.number,
+              } as Event & { blockNumber: number },
+              blockNumber: +block.number,
+              eventName: op.eventName,
+              args: [],
+              tx: {} as TransactionReceipt & TransactionResponse,
+              // set really big to make sure onBlock is sorted to the end for this block
+              txIndex: 999999999999999,
+              logIndex: 999999999999999,
+            });
+          }
         } else if (
           op.eventName === "onTransaction" &&
           engine.callbacks[`${chainId}-${op.eventName}`]
@@ -473,8 +593,8 @@ export const processListenerBlock = async (
             });
           }
         } else if (
+          isCallHandler(op.eventName) &&
           op.address &&
-          op.eventName !== "withPromises" &&
           engine.callbacks[
             `${op.chainId}-${getAddress(op.address)}-${op.eventName}`
           ] &&
@@ -482,15 +602,94 @@ export const processListenerBlock = async (
             `${op.chainId}-${getAddress(op.address)}-${op.eventName}`
           ]
         ) {
-          // check for a matching topic in the transactions logBloom
+          // get the function from the abi
           const iface =
             engine.eventIfaces[
               `${op.chainId}-${getAddress(op.address)}-${op.eventName}`
             ];
+          const fragment = getCallFragment(iface, op.eventName);
+          // trace the block once for all ops that need internal calls
+          if (fragment && op.opts?.traceCalls && !traces) {
+            traces = await getBlockTraces(op.provider, +block.number);
+          }
+          // match the calls (traced calls have already been checked for success)
+          const calls = fragment
+            ? getBlockCalls(
+                iface,
+                fragment,
+                op.address,
+                block,
+                op.opts?.traceCalls ? traces : undefined
+              ).filter(
+                (call) =>
+                  op.opts?.traceCalls ||
+                  +receipts[call.transactionHash].status !== 0
+              )
+            : [];
+          // record an event for each call
+          for (const call of calls) {
+            events.push({
+              ...op,
+              id: `${op.chainId}-${getAddress(op.address)}`,
+              type: op.eventName,
+              chainId,
+              timestamp: collectBlocks && block.timestamp,
+              data: call,
+              from: call.from,
+              blockNumber: +block.number,
+              eventName: op.eventName,
+              args: call.args,
+              tx: JSON.parse(
+                JSON.stringify({
+                  ...block.transactions.find(
+                    ({ hash }: TransactionResponse) =>
+                      hash === call.transactionHash
+                  ),
+                  ...(collectTxReceipts || op.opts?.collectTxReceipts
+                    ? receipts[call.transactionHash]
+                    : ({} as unknown as TransactionReceipt)),
+                })
+              ),
+              // calls are sorted before the logs in their tx
+              txIndex: receipts[call.transactionHash].transactionIndex,
+              logIndex: call.logIndex,
+            });
+          }
+        } else if (
+          op.eventName !== "withPromises" &&
+          !isCallHandler(op.eventName) &&
+          engine.callbacks[
+            `${op.chainId}-${op.address ? `${getAddress(op.address)}-` : ``}${
+              op.eventName
+            }`
+          ] &&
+          engine.eventIfaces[
+            `${op.chainId}-${op.address ? `${getAddress(op.address)}-` : ``}${
+              op.eventName
+            }`
+          ]
+        ) {
+          // check for a matching topic in the transactions logBloom
+          const iface =
+            engine.eventIfaces[
+              `${op.chainId}-${op.address ? `${getAddress(op.address)}-` : ``}${
+                op.eventName
+              }`
+            ];
           const topic = iface.getEventTopic(op.eventName);
+          // the topics each log must match (topic0 followed by any indexed arg filters)
+          const topics = iface.encodeFilterTopics(
+            op.eventName,
+            op.filters || []
+          );
+          // without an address we're matching the event from any contract
           const hasEvent =
             isTopicInBloom(block.logsBloom, topic) &&
-            isContractAddressInBloom(block.logsBloom, getAddress(op.address));
+            (!op.address ||
+              isContractAddressInBloom(
+                block.logsBloom,
+                getAddress(op.address)
+              ));
 
           // check for logs on the block
           if (hasEvent) {
@@ -499,33 +698,35 @@ export const processListenerBlock = async (
               // check if the tx has the event...
               const txHasEvent =
                 isTopicInBloom(receipts[tx.hash].logsBloom, topic) &&
-                isContractAddressInBloom(
-                  receipts[tx.hash].logsBloom,
-                  getAddress(op.address)
-                );
+                (!op.address ||
+                  isContractAddressInBloom(
+                    receipts[tx.hash].logsBloom,
+                    getAddress(op.address)
+                  ));
               // check for logs on the tx
               if (txHasEvent) {
                 // check each log for a match
                 for (const log of receipts[tx.hash].logs) {
-                  if (
-                    log.topics.indexOf(topic) !== -1 &&
-                    getAddress(log.address) === getAddress(op.address)
-                  ) {
-                    // find the args for the matching log item
-                    const { args } = iface.parseLog({
-                      topics: log.topics,
-                      data: log.data,
-                    });
+                  // find the args for the matching log item (logs which share the topic but not the shape are skipped)
+                  const parsed =
+                    isTopicsMatch(log.topics, topics) &&
+                    (!op.address ||
+                      getAddress(log.address) === getAddress(op.address)) &&
+                    toParsedLog(iface, log);
+                  // record the matching event
+                  if (parsed) {
                     // record the event
                     events.push({
                       ...op,
-                      id: `${op.chainId}-${getAddress(op.address)}`,
+                      id: op.address
+                        ? `${op.chainId}-${getAddress(op.address)}`
+                        : `${op.chainId}`,
                       type: op.eventName,
                       chainId,
                       timestamp: collectBlocks && block.timestamp,
                       // pass the full set of data to fill callback tx !op.opts.collectTxReceipts
                       data: {
-                        address: op.address,
+                        address: op.address || log.address,
                         transactionHash: tx.hash,
                         transactionIndex: receipts[tx.hash].transactionIndex,
                         blockHash: block.hash,
@@ -535,7 +736,7 @@ export const processListenerBlock = async (
                       },
                       blockNumber: +block.number,
                       eventName: op.eventName,
-                      args,
+                      args: parsed.args,
                       tx: JSON.parse(
                         JSON.stringify({
                           ...tx,
@@ -609,6 +810,8 @@ export const processListenerBlock = async (
         engine.promiseQueue.length = promiseQueueBeforeEachProcess;
         // clear anything added here...
         engine.stage.revert();
+        // mark the chain as failed in _meta
+        await recordIndexingError(+chainId);
         // throw the error again (end exec - skip commit)
         throw e;
       } finally {
@@ -620,6 +823,24 @@ export const processListenerBlock = async (
     // print number of events in stdout
     if (!silent) process.stdout.write(`(${processed.length}) `);
 
+    // update the startBlock
+    engine.startBlocks[chainId] = block.number;
+
+    // record as new latest after all callbacks are complete
+    engine.latestBlocks[+chainId] = {
+      number: +block.number,
+      hash: block.hash,
+    } as unknown as Block;
+
+    // when the db writes atomically we stage the pointers so that they're committed in the same batch as the entities
+    if (engine.db.transactional) {
+      await updateSyncPointers(
+        // these events follow enough to pass as SyncEvents
+        processed as unknown as SyncEvent[],
+        []
+      );
+    }
+
     // only attempt to save changes when the queue is clear (or it has been 15s since we last stored changes)
     if (
       queueLength === 0 ||
@@ -656,20 +877,14 @@ export const processListenerBlock = async (
       engine.lastUpdate = new Date().getTime();
     }
 
-    // update the startBlock
-    engine.startBlocks[chainId] = block.number;
-
-    // record as new latest after all callbacks are complete
-    engine.latestBlocks[+chainId] = {
-      number: +block.number,
-    } as unknown as Block;
-
     // update the pointers to reflect the latest sync
-    await updateSyncPointers(
-      // these events follow enough to pass as SyncEvents
-      processed as unknown as SyncEvent[],
-      []
-    );
+    if (!engine.db.transactional) {
+      await updateSyncPointers(
+        // these events follow enough to pass as SyncEvents
+        processed as unknown as SyncEvent[],
+        []
+      );
+    }
 
     // finished after updating pointers
     if (!silent) process.stdout.write(`✔\n`);
@@ -682,6 +897,58 @@ export const processListenerBlock = async (
   }
 };
 
+// rollback all changes made after the common ancestor when the chain reorgs
+export const processListenerReorg = async (
+  chainId: number,
+  ancestor: number,
+  silent: boolean
+) => {
+  // get the engine
+  const engine = await getEngine();
+
+  // log that we're rolling back the orphaned blocks
+  if (!silent)
+    process.stdout.write(
+      `\n--\n\nReorg detected on chainId ${chainId} - rolling back to block ${ancestor} `
+    );
+
+  // resolve anything enqueued by the orphaned blocks so that it is staged before we rollback
+  await processGlobalPromiseQueue(engine.promiseQueue.length);
+
+  // commit everything staged and drop all entries written after the ancestor
+  const rolledBack = await engine.stage.rollback(chainId, ancestor);
+
+  // replaying the canonical blocks over the orphaned entries would corrupt them so we halt the listener without moving the pointers
+  if (!rolledBack) {
+    throw new Error(
+      `Unable to rollback chainId ${chainId} to block ${ancestor} - the db does not retain history (use an immutable db to recover from reorgs) - restart`
+    );
+  }
+
+  // move the pointers back to the ancestor so that the canonical blocks are processed again
+  engine.startBlocks[chainId] = ancestor;
+  engine.latestBlocks[+chainId] = {
+    number: ancestor,
+  } as unknown as Block;
+
+  // record the move against the chains meta entity
+  if (engine.latestEntity?.[chainId]) {
+    // set the chainId against the entity
+    engine.latestEntity[chainId].chainId = chainId;
+    // clear the block to avoid changing update times
+    engine.latestEntity[chainId].block = {} as Block;
+    // move the pointer back to the ancestor
+    engine.latestEntity[chainId].set("latestBlock", ancestor);
+    // persist changes into the store
+    engine.latestEntity[chainId] = await engine.latestEntity[chainId].save(
+      false
+    );
+  }
+
+  // finished after moving the pointers
+  if (!silent) process.stdout.write(`✔\n`);
+};
+
 // Set the chain and block into the stores state
 export const setStoreState = (
   chainId: number,
@@ -724,3 +991,16 @@ export const setStoreState = (
       : (altBlock as Block)
   );
 };
+
+// check the logs topics against the filter topics (null matches anything and an array matches any of its values)
+const isTopicsMatch = (
+  logTopics: string[],
+  filterTopics: (string | string[] | null)[]
+) =>
+  filterTopics.every(
+    (filter, index) =>
+      filter === null ||
+      (Array.isArray(filter) ? filter : [filter]).some(
+        (topic) => topic.toLowerCase() === logTopics[index]?.toLowerCase()
+      )
+  );
@@ -0,0 +1,115 @@
+// Spawn template syncs for the contracts created by factories
+import { ethers } from "ethers";
+import { getAddress } from "ethers/lib/utils";
+
+import { Sync } from "@/sync/types";
+import { addSync, noop, toCreates } from "@/sync/config";
+import { getEngine } from "@/sync/tooling/persistence/store";
+import { NETWORK_EVENTS } from "@/sync/tooling/network/events";
+
+// register a sync for each of the templates handlers against the new contract (resolves to the syncs added - contracts we're already syncing are skipped)
+export const addTemplateSync = async ({
+  chainId,
+  template,
+  address,
+  startBlock,
+  append = true,
+}: {
+  chainId: number;
+  template: string;
+  address: string;
+  startBlock: number | "latest";
+  // set false to register without collecting the syncs events (the caller will collect them)
+  append?: boolean;
+}) => {
+  // pull engine for the templates and handlers
+  const engine = await getEngine();
+
+  // get the template as configured
+  const config = engine.templates?.[template];
+
+  // templates must be declared in config
+  if (!config) {
+    throw new Error(`Supagraph: Unknown template "${template}"`);
+  }
+
+  // the handlers group for the template
+  const group = config.handlers ?? template;
+  const mapping = engine.handlers?.[group] || {};
+
+  // templates can themselves be factories
+  const creates = toCreates(config.creates);
+
+  // syncs added in this call
+  const added: Sync[] = [];
+
+  // register each of the contract level handlers (in sequence so that each sync is registered before the next)
+  for (const eventName of new Set([
+    ...Object.keys(mapping),
+    ...creates.map(({ event }) => event),
+  ])) {
+    // index used for the sync in opSyncs
+    const opIndex = `${chainId}-${getAddress(address)}-${eventName}`;
+
+    // only spawn each contract once
+    if (!NETWORK_EVENTS.includes(eventName) && !engine.opSyncs[opIndex]) {
+      await addSync({
+        chainId,
+        address,
+        eventName,
+        startBlock,
+        endBlock: "latest",
+        events:
+          typeof config.events === "string"
+            ? engine.eventAbis[config.events]
+            : config.events,
+        handlers: group,
+        onEvent: mapping[eventName] || noop,
+        opts: {
+          // spawned syncs are persisted and restored as runtime syncs
+          mode: "runtime",
+          collectBlocks: config.collectBlocks || false,
+          collectTxReceipts: config.collectTxReceipts || false,
+          traceCalls: config.traceCalls || false,
+        },
+        creates: creates.length ? creates : undefined,
+        append,
+      });
+      // record the new sync
+      added.push(engine.opSyncs[opIndex]);
+    }
+  }
+
+  return added;
+};
+
+// spawn every template the sync declares against this event (resolves to the syncs added)
+export const addFactorySyncs = async (
+  sync: Sync | undefined,
+  eventName: string,
+  args: ethers.utils.Result | Record<string, unknown>,
+  blockNumber: number,
+  append = true
+) => {
+  // syncs added in this call
+  const added: Sync[] = [];
+
+  // spawn in declaration order
+  for (const creates of sync?.creates || []) {
+    // only when the event matches and the arg holds an address
+    if (creates.event === eventName && args?.[creates.addressArg]) {
+      added.push(
+        ...(await addTemplateSync({
+          chainId: sync.chainId,
+          template: creates.template,
+          address: args[creates.addressArg] as string,
+          // the new contract can emit events in the same block it was created
+          startBlock: blockNumber,
+          append,
+        }))
+      );
+    }
+  }
+
+  return added;
+};
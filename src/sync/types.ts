@@ -16,6 +16,41 @@ import type { DB, Stage, Entity } from "@/sync/tooling/persistence";
 // This should probably just be string - Record<string, string | number | Buffer> (or anything else which is valid in a mongo setting)
 export type KV = Record<string, Record<string, Record<string, unknown> | null>>;
 
+// Bounds placed on the entries held in a dbs kv store (only committed entries are evicted)
+export type CachePolicy = {
+  maxEntries?: number;
+  maxBytes?: number;
+};
+
+// Record of the kv cache performance
+export type CacheMetrics = {
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+};
+
+// Options to filter, sort and paginate entities with Store.find
+export type FindOptions<T> = {
+  // match on field values (arrays match any of the given values) or by predicate
+  where?: { [K in keyof T]?: unknown } | ((entity: T) => boolean);
+  orderBy?: keyof T;
+  orderDirection?: "asc" | "desc";
+  first?: number;
+  skip?: number;
+};
+
+// Options to filter, sort and paginate the entries of a ref inside the db (Store.find without a predicate)
+export type QueryOptions = {
+  // match on field values (arrays match any of the given values)
+  where?: Record<string, unknown>;
+  orderBy?: string;
+  orderDirection?: "asc" | "desc";
+  first?: number;
+  skip?: number;
+};
+
 // Allow for stages to be skipped via config
 export enum SyncStage {
   events = 1,
@@ -25,6 +60,29 @@ export enum SyncStage {
   process,
 }
 
+// The eth_getLogs range we request from a provider (size grows back towards the limit after each full range succeeds)
+export type LogRange = {
+  size: number;
+  limit: number;
+};
+
+// Progress of the catchup in flight (recorded in __meta__ so that an interrupted run can resume where it stopped)
+export type SyncProgress = {
+  id: string;
+  // the chains pointers when the catchup started (the progress is discarded if they move)
+  pointers: Record<number, number | null>;
+  // the block each chain is being collected to
+  toBlocks: Record<number, number>;
+  // the range each syncs events have been fetched (and captured) over
+  fetched: Record<string, { fromBlock: number; toBlock: number }>;
+  // the no. of sorted events processed and committed (and a hash over all of them so we can check we're resuming the same events)
+  processed: number;
+  hash?: string;
+};
+
+// The range of blocks a windowed catchup is collecting for each chain
+export type SyncWindow = Record<number, { fromBlock: number; toBlock: number }>;
+
 // Defines the properties available in the global engine
 export type Engine = {
   name?: string;
@@ -58,6 +116,7 @@ export type Engine = {
   providers?: Record<number, Record<number, providers.JsonRpcProvider>>;
   extraProviders?: string[];
   eventAbis?: Record<string, ethers.Contract["abi"]>;
+  templates?: Record<string, SyncTemplate>;
   eventIfaces?: Record<string, ethers.utils.Interface>;
   startBlocks?: Record<number, number>;
   latestEntity?: LatestEntity;
@@ -67,6 +126,14 @@ export type Engine = {
   handlers?: Handlers;
   events?: SyncEvent[];
   processTimeout?: number;
+  progress?: SyncProgress;
+  progressInterval?: number;
+  windowSize?: number;
+  window?: SyncWindow;
+  confirmations?: Record<number, number>;
+  addressLimits?: Record<number, number>;
+  logRanges?: Record<string, LogRange>;
+  cacheMetrics?: CacheMetrics;
   indexedMigrations?: Record<string, Migration[]>;
   // flags to change runtime behavior
   flags?: {
@@ -85,6 +152,14 @@ export type Engine = {
     events: SyncEvent[],
     silent?: boolean
   ) => Promise<void> | undefined;
+  // spawn the templates created by a factory event (placed on the engine so that the network tooling can reach it)
+  addFactorySyncs?: (
+    sync: Sync | undefined,
+    eventName: string,
+    args: ethers.utils.Result | Record<string, unknown>,
+    blockNumber: number,
+    append?: boolean
+  ) => Promise<Sync[]>;
 };
 
 // run events against a cron schedule
@@ -132,11 +207,55 @@ export type SyncOp = {
   eventName?: string;
   // use handlers registered against "token" named group in handlers/index.ts
   handlers?: string;
-  // use address for filter events
-  address?: string | undefined;
+  // use address for filter events (a list of addresses registers a sync for each)
+  address?: string | string[] | undefined;
   // allow for blocks and txReceipts to be retrieved against the sync op
   collectBlocks?: boolean;
   collectTxReceipts?: boolean;
+  // match onCall handlers against internal calls by tracing (requires the trace_ rpc namespace)
+  traceCalls?: boolean;
+  // only fire onBlock every n blocks (aligned to the startBlock)
+  every?: number;
+  // only fire onBlock for blocks which hold a call to one of these addresses (internal calls are matched with traceCalls)
+  callFilter?: string | string[];
+  // spawn a template sync for each address emitted by the factory event
+  creates?: SyncCreates | SyncCreates[];
+  // only sync the events whose indexed args match these values (keyed by eventName)
+  filters?: Record<string, SyncFilter>;
+};
+
+// Indexed arg values to match in arg order (null matches anything and an array matches any of its values)
+export type SyncFilter = (
+  | string
+  | number
+  | boolean
+  | null
+  | (string | number | boolean)[]
+)[];
+
+// Declares that a factory event creates a new contract to be synced against a template
+export type SyncCreates = {
+  // the factory event which announces the new contract
+  event: string;
+  // the event arg holding the new contracts address
+  addressArg: string;
+  // the template (in config.templates) to sync the new contract against
+  template: string;
+};
+
+// Defines a contract which is synced once for every address created by a factory
+export type SyncTemplate = {
+  // Establish all event signatures available on the spawned contracts
+  events: string | string[];
+  // use handlers registered against this named group (defaults to the templates name)
+  handlers?: string;
+  // allow for blocks and txReceipts to be retrieved against the spawned syncs
+  collectBlocks?: boolean;
+  collectTxReceipts?: boolean;
+  // match onCall handlers against internal calls by tracing
+  traceCalls?: boolean;
+  // templates can also be factories
+  creates?: SyncCreates | SyncCreates[];
 };
 
 // Defines a sync operation
@@ -154,7 +273,15 @@ export type Sync = {
     mode?: string;
     collectBlocks?: boolean;
     collectTxReceipts?: boolean;
+    traceCalls?: boolean;
   };
+  // templates to spawn from this syncs events
+  creates?: SyncCreates[];
+  // indexed arg values the events must match
+  filters?: SyncFilter;
+  // onBlock filters
+  every?: number;
+  callFilter?: string[];
   onEvent: HandlerFn;
 };
 
@@ -191,12 +318,18 @@ export type SyncConfig = {
   readOnly?: boolean;
   // set the max time a process (block handler) can run for (in ms)
   processTimeout?: number;
+  // the no. of events to process between committing progress during catchup (so an interrupted catchup can resume)
+  progressInterval?: number;
+  // the no. of blocks to collect from each chain in each window of the catchup (fetching, sorting and processing one window at a time)
+  windowSize?: number;
   // the number of block workers to use for processing (sets concurrency for ingestor block processing)
   numBlockWorkers?: number;
   // the number of transaction workers to use for processing (sets concurrency for ingestor transaction processing)
   numTransactionWorkers?: number;
   // should we print errors that the ingestor encounters?
   printIngestionErrors?: boolean;
+  // how many processed block hashes to keep per chain in listen mode (the deepest reorg we can rollback - ignored when the db can't rollback)
+  reorgDepth?: number;
   // how many rpc reqs/promises to attempt concurrently
   concurrency?: number;
   // global tx/block capture
@@ -213,6 +346,10 @@ export type SyncConfig = {
   providers: {
     [chainId: number]: {
       rpcUrl: string;
+      // how many blocks to wait for before processing a block (trades latency for reorg safety)
+      confirmations?: number;
+      // the most addresses to place in a single eth_getLogs request (defaults to ADDRESS_LIMIT)
+      addressLimit?: number;
     };
   };
   // register events into named groups
@@ -223,6 +360,10 @@ export type SyncConfig = {
   contracts: {
     [key: string | number]: SyncOp;
   };
+  // configure contracts which are created by factories (see SyncOp.creates)
+  templates?: {
+    [name: string]: SyncTemplate;
+  };
   // define supagraph schema
   schema?: string;
   // define supagraph default query
@@ -266,10 +407,16 @@ export type HandlerFn = (
     tx,
     block,
     logIndex,
+    address,
+    from,
   }: {
     tx: TransactionReceipt & TransactionResponse;
     block: Block;
     logIndex: number;
+    // address of the contract that emitted the event (unset for onBlock/onTransaction)
+    address?: string;
+    // the caller of the function (onCall handlers only)
+    from?: string;
   }
 ) => void | Promise<void>;
 
@@ -283,6 +430,8 @@ export type LatestEntity = Record<
     id: string;
     latestBlock: number;
     latestBlockTime: number;
+    latestBlockHash: string;
+    hasIndexingErrors: boolean;
     locked: boolean;
     lockedAt: number;
     _block_num: number;
@@ -293,6 +442,8 @@ export type LatestEntity = Record<
     lockedAt: number;
     latestBlock: number;
     latestBlockTime: number;
+    latestBlockHash: string;
+    hasIndexingErrors: boolean;
     _block_num: number;
     _block_ts: number;
   }
@@ -1,6 +1,7 @@
 // Export all utils in dir
 export { toPlural } from "@/utils/toPlural";
 export { toEventData } from "@/utils/toEventData";
+export { toParsedLog } from "@/utils/toParsedLog";
 export { toCamelCase } from "@/utils/toCamelCase";
 export { cwd, withCwd } from "@/utils/withCwd";
 export { withDefault } from "@/utils/withDefault";
@@ -0,0 +1,14 @@
+// Use ethers for log typings
+import type { ethers } from "ethers";
+
+// parse the log with the iface (returning null if the log doesn't match the events shape)
+export const toParsedLog = (
+  iface: ethers.utils.Interface,
+  log: Pick<ethers.providers.Log, "topics" | "data">
+) => {
+  try {
+    return iface.parseLog(log);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,43 @@
+import { parseArgs, toBoolean } from "@/cli/args";
+
+describe("parseArgs", () => {
+  it("should read the command, positionals and flags", () => {
+    expect(
+      parseArgs([
+        "sync",
+        "extra",
+        "--start",
+        "events",
+        "--stop=sort",
+        "--listen",
+        "--no-cleanup",
+        "--silent",
+        "false",
+      ])
+    ).toEqual({
+      command: "sync",
+      positionals: ["extra"],
+      flags: {
+        start: "events",
+        stop: "sort",
+        listen: true,
+        cleanup: false,
+        silent: false,
+      },
+    });
+  });
+
+  it("should read flags given before the command", () => {
+    expect(parseArgs(["--config", "./other.ts", "codegen"])).toEqual({
+      command: "codegen",
+      positionals: [],
+      flags: { config: "./other.ts" },
+    });
+  });
+
+  it("should leave unset flags undefined when read as booleans", () => {
+    expect(toBoolean(undefined)).toBeUndefined();
+    expect(toBoolean(true)).toBe(true);
+    expect(toBoolean(false)).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { codegen } from "@/cli/commands/codegen";
+
+describe("codegen", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    // write a config into a fresh dir for each test
+    dir = mkdtempSync(join(tmpdir(), "supagraph-"));
+    writeFileSync(
+      join(dir, "supagraph.config.ts"),
+      `export default {
+        name: "test",
+        schema: "type Account @entity { id: ID! balance: BigInt! }",
+        events: {
+          token: ["event Transfer(address indexed from, address indexed to, uint256 value)"],
+        },
+        contracts: {
+          token: { chainId: 1, events: "token", handlers: "token", startBlock: 0, endBlock: "latest" },
+        },
+      };`
+    );
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should write the entity and event types alongside the config", async () => {
+    await codegen.run({
+      command: "codegen",
+      positionals: [],
+      flags: { config: join(dir, "supagraph.config.ts") },
+    });
+
+    expect(
+      readFileSync(join(dir, "supagraph/types/entities.ts"), "utf8")
+    ).toContain("export type AccountEntity = {");
+    expect(
+      readFileSync(join(dir, "supagraph/types/events.ts"), "utf8")
+    ).toContain("export type TransferEvent = {");
+  });
+
+  it("should write to the given out dir", async () => {
+    await codegen.run({
+      command: "codegen",
+      positionals: [],
+      flags: { config: join(dir, "supagraph.config.ts"), out: join(dir, "gen") },
+    });
+
+    expect(existsSync(join(dir, "gen/events.ts"))).toBe(true);
+  });
+
+  it("should throw when the config can't be found", async () => {
+    await expect(
+      codegen.run({
+        command: "codegen",
+        positionals: [],
+        flags: { config: join(dir, "missing.ts") },
+      })
+    ).rejects.toThrow("Unable to find");
+  });
+});
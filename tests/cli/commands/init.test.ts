@@ -0,0 +1,38 @@
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { init } from "@/cli/commands/init";
+
+describe("init", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    // scaffold into a fresh dir for each test
+    dir = mkdtempSync(join(tmpdir(), "supagraph-"));
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should scaffold the config, schema and handlers", async () => {
+    await init.run({ command: "init", positionals: [dir], flags: {} });
+
+    expect(existsSync(join(dir, "supagraph.config.ts"))).toBe(true);
+    expect(existsSync(join(dir, "supagraph/schema.graphql"))).toBe(true);
+    expect(existsSync(join(dir, "supagraph/handlers.ts"))).toBe(true);
+  });
+
+  it("should leave existing files in place", async () => {
+    writeFileSync(join(dir, "supagraph.config.ts"), "// existing");
+
+    await init.run({ command: "init", positionals: [dir], flags: {} });
+
+    expect(readFileSync(join(dir, "supagraph.config.ts"), "utf8")).toBe(
+      "// existing"
+    );
+    expect(existsSync(join(dir, "supagraph/handlers.ts"))).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+import { createEntityTypes } from "@/codegen";
+
+describe("createEntityTypes", () => {
+  // a schema with every scalar, a relation and a derived collection
+  const schema = `
+    type Account @entity {
+      id: ID!
+      balance: BigInt!
+      ratio: BigDecimal
+      hash: Bytes!
+      count: Int!
+      updated: Timestamp!
+      active: Boolean!
+      friends: [Account!]!
+      tokens: [Token!]! @derivedFrom(field: "owner")
+    }
+    type Token @entity {
+      id: ID!
+      owner: Account!
+    }
+  `;
+
+  it("should map each field to its ts type", () => {
+    const src = createEntityTypes({ schema });
+
+    expect(src).toContain(`import type { BigNumber } from "ethers";`);
+    expect(src).toContain(
+      [
+        `export type AccountEntity = {`,
+        `  id: string;`,
+        `  balance: BigNumber;`,
+        `  ratio: string;`,
+        `  hash: string;`,
+        `  count: number;`,
+        `  updated: number;`,
+        `  active: boolean;`,
+        `  // relation to Account (by id)`,
+        `  friends: string[];`,
+        `};`,
+      ].join("\n")
+    );
+    expect(src).toContain(
+      [
+        `export type TokenEntity = {`,
+        `  id: string;`,
+        `  // relation to Account (by id)`,
+        `  owner: string;`,
+        `};`,
+      ].join("\n")
+    );
+  });
+
+  it("should export typed Store accessors for each entity", () => {
+    const src = createEntityTypes({ schema }, { module: "@/index" });
+
+    expect(src).toContain(`import * as supagraph from "@/index";`);
+    expect(src).toContain(
+      `load: (id: string) => supagraph.Store.get<TokenEntity>("Token", id),`
+    );
+    expect(src).toContain(
+      `supagraph.Store.get<TokenEntity>("Token", id, true),`
+    );
+  });
+
+  it("should only import BigNumber when it is used", () => {
+    const src = createEntityTypes({
+      schema: `type Token @entity { id: ID! name: String! }`,
+    });
+
+    expect(src).not.toContain("BigNumber");
+  });
+});
@@ -0,0 +1,186 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { createEventTypes } from "@/codegen";
+
+describe("createEventTypes", () => {
+  // contracts which share a named group of events
+  const config = {
+    events: {
+      token: [
+        "event Transfer(address indexed from, address indexed to, uint256 value)",
+        "event Approval(address indexed owner, address indexed spender, uint256 value)",
+      ],
+    },
+    contracts: {
+      mantle: {
+        chainId: 5,
+        events: "token",
+        handlers: "token",
+        startBlock: 0,
+        endBlock: "latest" as const,
+      },
+      5001: {
+        chainId: 5001,
+        startBlock: 0,
+        endBlock: "latest" as const,
+      },
+    },
+  };
+
+  it("should construct a type for each events args", () => {
+    const src = createEventTypes(config);
+
+    expect(src).toContain(`import type { BigNumber } from "ethers";`);
+    expect(src).toContain(
+      [
+        `export type TransferEvent = {`,
+        `  from: string;`,
+        `  to: string;`,
+        `  value: BigNumber;`,
+        `};`,
+      ].join("\n")
+    );
+  });
+
+  it("should construct a typed Handlers map for each group", () => {
+    const src = createEventTypes(config, { module: "@/index" });
+
+    expect(src).toContain(`import type { HandlerFn } from "@/index";`);
+    expect(src).toContain(
+      [
+        `  token?: {`,
+        `    Transfer?: Handler<TransferEvent>;`,
+        `    Approval?: Handler<ApprovalEvent>;`,
+        `    onBlock?: HandlerFn;`,
+        `    onTransaction?: HandlerFn;`,
+        `    withPromises?: HandlerFn;`,
+        `  };`,
+      ].join("\n")
+    );
+    // network listeners only receive the network handlers
+    expect(src).toContain(`  "5001"?: {\n    onBlock?: HandlerFn;`);
+  });
+
+  it("should type groups which are only registered at runtime", () => {
+    const src = createEventTypes({
+      ...config,
+      events: {
+        ...config.events,
+        pair: ["event Sync(uint112 reserve0, uint112 reserve1)"],
+      },
+    });
+
+    expect(src).toContain(
+      `  pair?: {\n    Sync?: Handler<SyncEvent>;\n    onBlock?: HandlerFn;`
+    );
+  });
+
+  it("should type template groups by their handlers name", () => {
+    const src = createEventTypes({
+      ...config,
+      events: {
+        ...config.events,
+        pair: ["event Sync(uint112 reserve0, uint112 reserve1)"],
+      },
+      templates: {
+        Pair: { events: "pair" },
+      },
+    });
+
+    expect(src).toContain(`  Pair?: {\n    Sync?: Handler<SyncEvent>;`);
+    expect(src).not.toContain(`  pair?: {`);
+  });
+
+  it("should read json abis and map nested inputs", () => {
+    // write the abi to disk as a build artifact
+    const file = join(mkdtempSync(join(tmpdir(), "supagraph-")), "abi.json");
+    writeFileSync(
+      file,
+      JSON.stringify({
+        abi: [
+          {
+            type: "event",
+            name: "Transfer",
+            inputs: [
+              { name: "from", type: "address", indexed: true },
+              { name: "memo", type: "string", indexed: true },
+              { name: "", type: "uint8", indexed: false },
+              {
+                name: "legs",
+                type: "tuple[]",
+                indexed: false,
+                components: [
+                  { name: "id", type: "uint32" },
+                  { name: "ok", type: "bool" },
+                ],
+              },
+            ],
+          },
+        ],
+      })
+    );
+
+    const src = createEventTypes({
+      events: config.events,
+      contracts: {
+        vault: {
+          chainId: 1,
+          events: file,
+          startBlock: 0,
+          endBlock: "latest",
+        },
+        token: config.contracts.mantle,
+      },
+    });
+
+    expect(src).toContain(
+      [
+        `export type TransferEvent = {`,
+        `  from: string;`,
+        `  memo: { hash: string };`,
+        `  2: number;`,
+        `  legs: {`,
+        `    id: number;`,
+        `    ok: boolean;`,
+        `  }[];`,
+        `};`,
+      ].join("\n")
+    );
+    // the token groups Transfer has a different signature so it's prefixed
+    expect(src).toContain(`export type TokenTransferEvent = {`);
+    expect(src).toContain(`    Transfer?: Handler<TokenTransferEvent>;`);
+  });
+
+  it("should type onCall handlers for functions which change state", () => {
+    const src = createEventTypes({
+      events: {
+        vault: [
+          "function deposit(uint256 amount, address receiver)",
+          "function balanceOf(address owner) view returns (uint256)",
+        ],
+      },
+      contracts: {
+        vault: {
+          chainId: 1,
+          events: "vault",
+          startBlock: 0,
+          endBlock: "latest",
+        },
+      },
+    });
+
+    expect(src).toContain(
+      [
+        `export type DepositCall = {`,
+        `  amount: BigNumber;`,
+        `  receiver: string;`,
+        `};`,
+      ].join("\n")
+    );
+    expect(src).toContain(`    "onCall:deposit"?: Handler<DepositCall>;`);
+    // view functions can't be called in a tx which changes state
+    expect(src).not.toContain(`BalanceOfCall`);
+  });
+});
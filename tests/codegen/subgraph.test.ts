@@ -0,0 +1,147 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { importSubgraph } from "@/codegen";
+
+describe("importSubgraph", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    // write a subgraph with a data source, a block handler and a template
+    dir = mkdtempSync(join(tmpdir(), "supagraph-"));
+    mkdirSync(join(dir, "abis"));
+    writeFileSync(
+      join(dir, "schema.graphql"),
+      "type Pair @entity { id: ID! }"
+    );
+    writeFileSync(
+      join(dir, "abis/Factory.json"),
+      JSON.stringify([
+        {
+          type: "event",
+          name: "PairCreated",
+          inputs: [
+            { name: "token0", type: "address", indexed: true },
+            { name: "token1", type: "address", indexed: true },
+            { name: "pair", type: "address", indexed: false },
+            { name: "", type: "uint256", indexed: false },
+          ],
+        },
+      ])
+    );
+    writeFileSync(join(dir, "abis/Pair.json"), JSON.stringify({ abi: [] }));
+    writeFileSync(
+      join(dir, "subgraph.yaml"),
+      `
+specVersion: 0.0.5
+schema:
+  file: ./schema.graphql
+dataSources:
+  - kind: ethereum/contract
+    name: Factory
+    network: mainnet
+    source:
+      address: "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f"
+      abi: Factory
+      startBlock: 10000835
+    mapping:
+      kind: ethereum/events
+      file: ./src/factory.ts
+      abis:
+        - name: Factory
+          file: ./abis/Factory.json
+      eventHandlers:
+        - event: PairCreated(indexed address,indexed address,address,uint256)
+          handler: handleNewPair
+      blockHandlers:
+        - handler: handleBlock
+templates:
+  - kind: ethereum/contract
+    name: Pair
+    network: mainnet
+    source:
+      abi: Pair
+    mapping:
+      kind: ethereum/events
+      file: ./src/pair.ts
+      abis:
+        - name: Pair
+          file: ./abis/Pair.json
+      eventHandlers:
+        - event: Sync(uint112,uint112)
+          handler: handleSync
+`
+    );
+  });
+
+  it("should construct a SyncConfig from the manifest", () => {
+    const { config } = importSubgraph(join(dir, "subgraph.yaml"), {
+      name: "uniswap",
+    });
+
+    expect(config).toEqual({
+      name: "uniswap",
+      providers: { 1: { rpcUrl: "" } },
+      events: {
+        // arg names are read from the abi
+        Factory: [
+          "event PairCreated(address indexed token0, address indexed token1, address pair, uint256)",
+        ],
+        // events missing from the abi are read from the manifest
+        Pair: ["event Sync(uint112, uint112)"],
+      },
+      contracts: {
+        Factory: {
+          chainId: 1,
+          events: "Factory",
+          handlers: "Factory",
+          address: "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f",
+          startBlock: 10000835,
+          endBlock: "latest",
+        },
+        // block handlers are registered against the network
+        1: {
+          chainId: 1,
+          handlers: "1",
+          startBlock: 10000835,
+          endBlock: "latest",
+        },
+      },
+      schema: "type Pair @entity { id: ID! }",
+    });
+  });
+
+  it("should construct handler stubs and runtime syncs for templates", () => {
+    const { files } = importSubgraph(join(dir, "subgraph.yaml"));
+
+    expect(Object.keys(files)).toEqual([
+      "supagraph.config.ts",
+      "supagraph/schema.graphql",
+      "supagraph/handlers.ts",
+    ]);
+    expect(files["supagraph/handlers.ts"]).toContain(
+      `    PairCreated: async (args, { tx, block, logIndex }) => {\n      // TODO: port handleNewPair from ./src/factory.ts`
+    );
+    expect(files["supagraph/handlers.ts"]).toContain(
+      `  "1": {\n    onBlock: async (args, { block }) => {\n      // TODO: port handleBlock from ./src/factory.ts`
+    );
+    expect(files["supagraph/handlers.ts"]).toContain(
+      `export const createPair = async (address: string, startBlock: number) => {`
+    );
+    expect(files["supagraph/handlers.ts"]).toContain(`opts: { mode: "runtime" },`);
+  });
+
+  it("should throw for unknown networks unless given their chainId", () => {
+    expect(() =>
+      importSubgraph(join(dir, "subgraph.yaml"), {
+        networks: { mainnet: 0 },
+      })
+    ).toThrow(`Unknown network "mainnet"`);
+    expect(
+      importSubgraph(join(dir, "subgraph.yaml"), {
+        networks: { mainnet: 5 },
+      }).config.providers
+    ).toEqual({ 5: { rpcUrl: "" } });
+  });
+});
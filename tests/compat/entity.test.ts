@@ -0,0 +1,131 @@
+import { ethers } from "ethers";
+
+import { DB } from "@/sync/tooling/persistence/db";
+import { Stage } from "@/sync/tooling/persistence/stage";
+import { getEngine } from "@/sync/tooling/persistence/store";
+
+import { Address, BigInt, Entity, Value, ethereum, withEvent } from "@/compat";
+
+// an entity written the way graph codegen writes them
+class Account extends Entity {
+  get balance(): BigInt {
+    return this.get("balance")!.toBigInt();
+  }
+
+  set balance(value: BigInt) {
+    this.set("balance", Value.fromBigInt(value));
+  }
+}
+
+// an event with typed params
+class Transfer extends ethereum.Event {
+  get params() {
+    return {
+      to: this.parameters[1].value.toAddress(),
+      value: this.parameters[2].value.toBigInt(),
+    };
+  }
+}
+
+describe("Entity", () => {
+  let db: DB;
+
+  beforeEach(async () => {
+    db = new DB({});
+
+    // fetch the engine so that we can replace it each run
+    const engine = await getEngine();
+
+    // set the engine
+    engine.db = db;
+    // wrap the db in a checkpoint staging db
+    engine.stage = new Stage(engine.db);
+    // place the engine against the db for access by ref
+    engine.db.engine = engine as { newDb: boolean };
+  });
+
+  it("should resolve null for missing entities", async () => {
+    expect(await Account.load("0x1")).toBeNull();
+  });
+
+  it("should save and load entities through the Store", async () => {
+    const account = new Account("0x1");
+    account.balance = BigInt.fromI32(10);
+    account.setString("name", "test");
+    await account.save();
+
+    // stored in the same form as supagraph entities
+    expect(db.kv.account["0x1"]).toMatchObject({ id: "0x1", balance: "10" });
+
+    const loaded = await Account.load("0x1");
+
+    expect(loaded).toBeInstanceOf(Account);
+    expect(loaded!.balance.plus(BigInt.fromI32(1)).toString()).toBe("11");
+    expect(loaded!.getString("name")).toBe("test");
+  });
+
+  it("should merge saves over the stored entity", async () => {
+    db.kv = { account: { "0x1": { id: "0x1", name: "test" } } };
+
+    const account = new Account("0x1");
+    account.balance = BigInt.fromI32(1);
+    await account.save();
+
+    expect(db.kv.account["0x1"]).toMatchObject({ name: "test", balance: "1" });
+  });
+
+  it("should run graph-ts style handlers through withEvent", async () => {
+    const args = [
+      "0xDAFEA492D9c6733ae3d56b7Ed1ADB60692c98Bc5",
+      "0x0000000000000000000000000000000000000001",
+      ethers.BigNumber.from(5),
+    ] as unknown as ethers.utils.Result;
+    Object.assign(args, { from: args[0], to: args[1], value: args[2] });
+
+    // credit the receiver with the transferred value
+    const handler = withEvent(async (event: Transfer) => {
+      const account =
+        (await Account.load(event.params.to.toHexString())) ||
+        new Account(event.params.to.toHexString());
+      account.balance = event.params.value;
+      await account.save();
+    }, Transfer);
+
+    await handler(args, {
+      tx: { hash: "0x01" } as ethers.providers.TransactionReceipt &
+        ethers.providers.TransactionResponse,
+      block: {
+        hash: "0x02",
+        number: 1,
+        timestamp: 2,
+      } as ethers.providers.Block,
+      logIndex: 0,
+      address: "0xDAFEA492D9c6733ae3d56b7Ed1ADB60692c98Bc5",
+    });
+
+    expect(
+      db.kv.account["0x0000000000000000000000000000000000000001"]
+    ).toMatchObject({ balance: "5" });
+  });
+
+  it("should convert params by name on the base Event", () => {
+    const args = [
+      "0xDAFEA492D9c6733ae3d56b7Ed1ADB60692c98Bc5",
+      ethers.BigNumber.from(5),
+    ] as unknown as ethers.utils.Result;
+    Object.assign(args, { owner: args[0], value: args[1] });
+
+    const event = new ethereum.Event(
+      Address.zero(),
+      BigInt.zero(),
+      BigInt.zero(),
+      null,
+      new ethereum.Block({}),
+      new ethereum.Transaction({}),
+      ethereum.toParameters(args)
+    );
+
+    expect(event.params.owner).toBeInstanceOf(Address);
+    expect(event.params.value.toString()).toBe("5");
+  });
+});
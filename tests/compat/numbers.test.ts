@@ -0,0 +1,69 @@
+import { BigDecimal, BigInt, Bytes, Address } from "@/compat";
+
+describe("BigInt", () => {
+  it("should do arithmetic on whole numbers", () => {
+    const a = BigInt.fromI32(7);
+    const b = BigInt.fromString("2");
+
+    expect(a.plus(b).toString()).toBe("9");
+    expect(a.minus(b).toString()).toBe("5");
+    expect(a.times(b).toString()).toBe("14");
+    expect(a.div(b).toString()).toBe("3");
+    expect(a.mod(b).toString()).toBe("1");
+    expect(a.pow(2).toString()).toBe("49");
+    expect(BigInt.fromI32(50).sqrt().toString()).toBe("7");
+    expect(a.neg().abs().equals(a)).toBe(true);
+    expect(a.gt(b) && b.lt(a) && a.ge(a) && a.le(a)).toBe(true);
+  });
+
+  it("should convert from BigNumbers and bytes", () => {
+    expect(
+      BigInt.from({ _isBigNumber: true, _hex: "0x0de0b6b3a7640000" }).toString()
+    ).toBe("1000000000000000000");
+    expect(
+      BigInt.fromUnsignedBytes(Bytes.fromHexString("0xff00")).toI32()
+    ).toBe(255);
+    expect(BigInt.fromSignedBytes(Bytes.fromHexString("0xff")).toI32()).toBe(
+      -1
+    );
+  });
+
+  it("should divide to a BigDecimal", () => {
+    expect(
+      BigInt.fromI32(1).divDecimal(BigInt.fromI32(4).toBigDecimal()).toString()
+    ).toBe("0.25");
+  });
+});
+
+describe("BigDecimal", () => {
+  it("should do fixed point arithmetic", () => {
+    const a = BigDecimal.fromString("1.5");
+    const b = BigDecimal.fromString("0.5");
+
+    expect(a.plus(b).toString()).toBe("2");
+    expect(a.minus(b).toString()).toBe("1");
+    expect(a.times(b).toString()).toBe("0.75");
+    expect(a.div(b).toString()).toBe("3");
+    expect(
+      BigDecimal.fromString("1")
+        .div(BigDecimal.fromString("3"))
+        .truncate(2)
+        .toString()
+    ).toBe("0.33");
+    expect(() => a.div(BigDecimal.zero())).toThrow();
+  });
+});
+
+describe("Address", () => {
+  it("should read and render lowercase hex", () => {
+    const address = Address.fromString(
+      "0xDAFEA492D9c6733ae3d56b7Ed1ADB60692c98Bc5"
+    );
+
+    expect(address.toHexString()).toBe(
+      "0xdafea492d9c6733ae3d56b7ed1adb60692c98bc5"
+    );
+    expect(address.equals(Address.fromBytes(address))).toBe(true);
+    expect(() => Address.fromString("0x1234")).toThrow();
+  });
+});
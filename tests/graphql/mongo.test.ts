@@ -1,3 +1,5 @@
+import { getBlock, getBlockConstraint } from "@/graphql/mongo";
+
 describe("Mongo", () => {
   beforeEach(() => {
   });
@@ -10,4 +12,36 @@ describe("Mongo", () => {
 
   it("should generate query from AST extracting all details", async () => {
   });
+
+  it("should extract the block height from args", async () => {
+    // literal values are placed as is and variables are placed as [{$toString}, value] pairs
+    expect(
+      getBlock({
+        block: { number: 10, chainId: [{ $toString: "$chainId" }, "5"] },
+      })
+    ).toEqual({ number: 10, chainId: 5 });
+    expect(
+      getBlock({ block: [{ $toString: "$block" }, { timestamp: 1700000000 }] })
+    ).toEqual({ timestamp: 1700000000 });
+    expect(getBlock({ first: 10 })).toBeUndefined();
+    // constraints on the latest state aren't time-travelled to
+    expect(
+      getBlock({ block: { number_gte: 10, hash: "0xabc" } })
+    ).toBeUndefined();
+  });
+
+  it("should extract the constraints on the latest block from args", async () => {
+    expect(
+      getBlockConstraint({
+        block: { number_gte: [{ $toString: "$gte" }, "10"], chainId: 5 },
+      })
+    ).toEqual({ number_gte: 10, chainId: 5 });
+    expect(getBlockConstraint({ block: { hash: "0xabc" } })).toEqual({
+      hash: "0xabc",
+    });
+    // time-travel blocks don't constrain the latest state
+    expect(
+      getBlockConstraint({ block: { number: 10, chainId: 5 } })
+    ).toBeUndefined();
+  });
 });
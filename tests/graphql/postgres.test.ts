@@ -0,0 +1,227 @@
+import type { Pool } from "pg";
+
+import { createSupagraph, postgresResolver } from "@/graphql";
+
+describe("Postgres", () => {
+  let mockClient: Pool;
+  let mockQuery: jest.Mock;
+
+  // a schema with a single ref and a derived collection
+  const schema = `
+    type Account @entity {
+      id: ID!
+      balance: BigInt!
+      tokens: [Token!]! @derivedFrom(field: "owner")
+    }
+    type Token @entity {
+      id: ID!
+      name: String!
+      owner: Account!
+    }
+  `;
+
+  beforeEach(() => {
+    // every table exists and the result holds a single account with one token
+    mockQuery = jest.fn((query: string) =>
+      Promise.resolve({
+        rows: query.includes("information_schema")
+          ? [
+              { table_name: "account" },
+              { table_name: "token" },
+              { table_name: "__meta__" },
+            ]
+          : query.startsWith(`SELECT data FROM "testDb"."__meta__"`)
+          ? [
+              {
+                data: {
+                  id: "1",
+                  latestBlock: 20,
+                  latestBlockTime: 200,
+                  latestBlockHash: "0xab",
+                  hasIndexingErrors: false,
+                  locked: false,
+                },
+              },
+              {
+                data: {
+                  id: "5",
+                  latestBlock: 10,
+                  latestBlockTime: 100,
+                  hasIndexingErrors: true,
+                  locked: false,
+                },
+              },
+            ]
+          : query.startsWith("SELECT d0.doc")
+          ? [
+              {
+                doc: {
+                  id: "0x1",
+                  balance: "10",
+                  tokens: [{ id: "1", name: "one", owner: "0x1" }],
+                },
+              },
+            ]
+          : [],
+      })
+    );
+
+    mockClient = {
+      query: mockQuery,
+    } as unknown as Pool;
+  });
+
+  // run the given query against a supagraph backed by the mock client
+  const request = async (query: string, mutable = false) => {
+    const supagraph = createSupagraph({
+      schema,
+      entities: postgresResolver({
+        name: "testDb",
+        client: mockClient,
+        mutable,
+      }),
+    });
+
+    const res = await (
+      supagraph as unknown as (req: Request) => Promise<Response>
+    )(
+      new Request("http://localhost/graphql", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ query }),
+      })
+    );
+
+    return res.json();
+  };
+
+  // get the statements which select the documents
+  const selects = () =>
+    mockQuery.mock.calls.filter(([query]) =>
+      (query as string).startsWith("SELECT d0.doc")
+    );
+
+  it("should index every field on the existing tables", async () => {
+    await request(`{ accounts { id } }`);
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      `CREATE INDEX IF NOT EXISTS "token_owner" ON "testDb"."token" ((data->>'owner'))`
+    );
+  });
+
+  it("should resolve the query and its joins with a single statement", async () => {
+    const res = await request(`{ accounts { id balance tokens { id name } } }`);
+
+    expect(selects()).toHaveLength(1);
+    expect(res.data).toEqual({
+      accounts: [
+        { id: "0x1", balance: "10", tokens: [{ id: "1", name: "one" }] },
+      ],
+    });
+
+    // the derived tokens are joined on the accounts id
+    const [[text]] = selects();
+    expect(text).toContain(`t1.data->>'owner' = r0.data->>'id'`);
+    // immutable tables select the latest entry for each id
+    expect(text).toContain(
+      `(SELECT DISTINCT ON (id) data FROM "testDb"."account" ORDER BY id, _block_ts DESC)`
+    );
+  });
+
+  it("should place where, orderBy and pagination args into the statement", async () => {
+    await request(
+      `{ accounts(where: { balance_gt: "5", id_not_in: ["0x2"] }, orderBy: balance, orderDirection: desc, first: 10, skip: 5) { id } }`,
+      true
+    );
+
+    const [[text, values]] = selects();
+
+    // mutable tables are selected directly
+    expect(text).toContain(`FROM "testDb"."account" t0`);
+    expect(text).toContain(
+      `(CASE WHEN t0.data->>'balance' ~ '^-?[0-9]+([.][0-9]+)?$' THEN (t0.data->>'balance')::numeric END) > $1::numeric`
+    );
+    expect(text).toContain(`(t0.data->>'id' = ANY($2::text[])) IS NOT TRUE`);
+    expect(text).toContain(`t0.data->>'balance' DESC LIMIT 10 OFFSET 5`);
+    expect(values).toEqual(["5", ["0x2"]]);
+  });
+
+  it("should select the state at the given block across joins", async () => {
+    await request(
+      `{ accounts(block: { number: 10, chainId: 1 }) { id tokens { id } } }`
+    );
+
+    const [[text, values]] = selects();
+
+    // both the root and the joined entities are selected at the block (entities from other chains are left at their latest entry)
+    expect(
+      text.match(
+        /FROM "testDb"."(account|token)" WHERE \(_chain_id <> \$\d OR _block_num <= \$\d\) ORDER BY id, _block_ts DESC/g
+      )
+    ).toHaveLength(2);
+    expect(values).toEqual([1, 10, 1, 10]);
+  });
+
+  it("should require a chainId with the block number when syncing more than one chain", async () => {
+    const res = await request(`{ accounts(block: { number: 10 }) { id } }`);
+
+    expect(selects()).toHaveLength(0);
+    expect(res.errors[0].message).toEqual(
+      "A chainId must be given with the block number when more than one chain is synced"
+    );
+  });
+
+  it("should check number_gte and hash against the synced blocks", async () => {
+    const synced = await request(
+      `{ accounts(block: { number_gte: 20, chainId: 1 }) { id } latest: accounts(block: { hash: "0xAB" }) { id } }`
+    );
+
+    // the latest state is selected (without bounding the history)
+    expect(synced.errors).toBeUndefined();
+    expect(selects()[0][0]).toContain(
+      `(SELECT DISTINCT ON (id) data FROM "testDb"."account" ORDER BY id, _block_ts DESC)`
+    );
+
+    mockQuery.mockClear();
+    const res = await request(
+      `{ accounts(block: { number_gte: 21, chainId: 1 }) { id } }`
+    );
+
+    expect(selects()).toHaveLength(0);
+    expect(res.errors[0].message).toEqual(
+      "Chain 1 has only been synced up to block number 20 and data for block number 21 is therefore not yet available"
+    );
+  });
+
+  it("should report the sync state of each chain in _meta", async () => {
+    const res = await request(
+      `{ _meta { deployment hasIndexingErrors locked block { number hash timestamp } blocks { chainId number } } chain: _meta(block: { chainId: 1 }) { block { number hash } } }`
+    );
+
+    expect(res.data).toEqual({
+      _meta: {
+        deployment: "supagraph",
+        hasIndexingErrors: true,
+        locked: false,
+        // defaults to the chain which is furthest behind
+        block: { number: 10, hash: null, timestamp: 100 },
+        blocks: [
+          { chainId: 1, number: 20 },
+          { chainId: 5, number: 10 },
+        ],
+      },
+      chain: { block: { number: 20, hash: "0xab" } },
+    });
+  });
+
+  it("should filter on joined entities after the join is made", async () => {
+    await request(`{ tokens(where: { owner: { balance: 10 } }) { id } }`);
+
+    const [[text, values]] = selects();
+
+    expect(text).toContain(
+      `WHERE EXISTS (SELECT 1 FROM jsonb_array_elements((CASE WHEN jsonb_typeof(d0.doc->'owner') = 'array' THEN d0.doc->'owner' ELSE '[]'::jsonb END)) AS e0(doc) WHERE e0.doc->>'balance' = $1)`
+    );
+    expect(values).toEqual(["10"]);
+  });
+});
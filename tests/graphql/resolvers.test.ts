@@ -1,3 +1,7 @@
+import type { MongoClient } from "mongodb";
+
+import { createSupagraph, mongoResolver } from "@/graphql";
+
 describe("Resolvers", () => {
   beforeEach(() => {
   });
@@ -8,3 +12,148 @@ describe("Resolvers", () => {
   it("should resolve requests using mongo resolver", async () => {
   });
 });
+
+describe("Mongo resolver", () => {
+  let aggregate: jest.Mock;
+  let meta: Record<string, unknown>[];
+
+  // a schema with a single ref and a derived collection
+  const schema = `
+    type Account @entity {
+      id: ID!
+      balance: BigInt!
+      tokens: [Token!]! @derivedFrom(field: "owner")
+    }
+    type Token @entity {
+      id: ID!
+      name: String!
+      owner: Account!
+    }
+  `;
+
+  beforeEach(() => {
+    // every aggregate resolves empty
+    aggregate = jest.fn(() => ({ toArray: async () => [] }));
+    // two chains are being synced
+    meta = [
+      { id: "1", latestBlock: 20 },
+      { id: "5", latestBlock: 10 },
+    ];
+  });
+
+  // run the given query against a supagraph backed by a mock client
+  const request = async (query: string) => {
+    const collection = (collectionName: string) => ({
+      findOne: async () => null,
+      createIndex: async () => "",
+      updateOne: async () => ({}),
+      find: () => ({ toArray: async () => meta }),
+      aggregate: (...args: unknown[]) => aggregate(collectionName, ...args),
+    });
+    const client = Promise.resolve({
+      db: () => ({ collection }),
+    } as unknown as MongoClient);
+
+    const supagraph = createSupagraph({
+      schema,
+      entities: mongoResolver({ name: "testDb", client }),
+    });
+
+    const res = await (
+      supagraph as unknown as (req: Request) => Promise<Response>
+    )(
+      new Request("http://localhost/graphql", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ query }),
+      })
+    );
+
+    return res.json();
+  };
+
+  it("should only bound the given chain when time-travelling by block number", async () => {
+    await request(
+      `{ accounts(block: { number: 10, chainId: 1 }) { id tokens { id } } }`
+    );
+
+    // the history is read rather than the snapshot
+    expect(aggregate).toHaveBeenCalledTimes(1);
+    const [[collectionName, pipeline]] = aggregate.mock.calls;
+    expect(collectionName).toEqual("account");
+
+    // entities from the other chains are kept at their latest entry
+    expect(JSON.stringify(pipeline)).toContain(
+      JSON.stringify({
+        $match: {
+          $or: [{ _chain_id: { $ne: 1 } }, { _block_num: { $lte: 10 } }],
+        },
+      })
+    );
+  });
+
+  it("should require a chainId with the block number when syncing more than one chain", async () => {
+    const res = await request(`{ accounts(block: { number: 10 }) { id } }`);
+
+    expect(aggregate).not.toHaveBeenCalled();
+    expect(res.errors[0].message).toEqual(
+      "A chainId must be given with the block number when more than one chain is synced"
+    );
+  });
+
+  it("should resolve the latest state once the chain has been synced up to number_gte", async () => {
+    const synced = await request(
+      `{ accounts(block: { number_gte: 20, chainId: 1 }) { id } }`
+    );
+
+    // the latest state is read from the snapshot rather than the history
+    expect(synced.errors).toBeUndefined();
+    expect(aggregate.mock.calls.map(([name]) => name)).toContain(
+      "account_snapshot"
+    );
+
+    aggregate.mockClear();
+    const ahead = await request(
+      `{ accounts(block: { number_gte: 21, chainId: 1 }) { id } }`
+    );
+
+    expect(aggregate).not.toHaveBeenCalled();
+    expect(ahead.errors[0].message).toEqual(
+      "Chain 1 has only been synced up to block number 20 and data for block number 21 is therefore not yet available"
+    );
+  });
+
+  it("should only resolve the latest block synced on a chain by hash", async () => {
+    meta[0].latestBlockHash = "0xabcd";
+
+    const latest = await request(
+      `{ accounts(block: { hash: "0xABCD" }) { id } }`
+    );
+
+    expect(latest.errors).toBeUndefined();
+    expect(aggregate.mock.calls.map(([name]) => name)).toContain(
+      "account_snapshot"
+    );
+
+    aggregate.mockClear();
+    const unknown = await request(
+      `{ accounts(block: { hash: "0xdef0" }) { id } }`
+    );
+
+    expect(aggregate).not.toHaveBeenCalled();
+    expect(unknown.errors[0].message).toEqual(
+      "Block hash 0xdef0 can't be resolved - only the latest block synced on each chain can be queried by hash (query by number and chainId instead)"
+    );
+  });
+
+  it("should accept a block number alone when syncing a single chain", async () => {
+    meta = [{ id: "1", latestBlock: 20 }];
+
+    await request(`{ accounts(block: { number: 10 }) { id } }`);
+
+    const [[, pipeline]] = aggregate.mock.calls;
+    expect(JSON.stringify(pipeline)).toContain(
+      JSON.stringify({ $match: { _block_num: { $lte: 10 } } })
+    );
+  });
+});
@@ -1,3 +1,10 @@
+import { JsonRpcProvider } from "@ethersproject/providers";
+
+import {
+  getConfirmedBlock,
+  isEveryBlock,
+} from "@/sync/tooling/network/blocks";
+
 describe("Blocks", () => {
   beforeEach(() => {
   });
@@ -5,3 +12,47 @@ describe("Blocks", () => {
   it("should construct block-ranges for from and to", async () => {
   });
 });
+
+describe("Block filters", () => {
+  it("should fire every nth block aligned to the startBlock", () => {
+    // every block fires without a filter
+    expect(isEveryBlock(7)).toBe(true);
+    // aligned to the startBlock
+    expect(
+      [100, 101, 110, 120, 125].filter((n) => isEveryBlock(n, 10, 105))
+    ).toEqual([125]);
+    expect([100, 110, 115].filter((n) => isEveryBlock(n, 10, 100))).toEqual([
+      100, 110,
+    ]);
+    // latest syncs align to block 0
+    expect([99, 100].filter((n) => isEveryBlock(n, 50, "latest"))).toEqual([
+      100,
+    ]);
+  });
+});
+
+describe("Confirmed blocks", () => {
+  // a chain whose head is at the given block
+  const toProvider = (head: number) =>
+    ({
+      getBlockNumber: jest.fn(async () => head),
+      getBlock: jest.fn(async (number: number | "latest") => ({
+        number: number === "latest" ? head : number,
+      })),
+    } as unknown as JsonRpcProvider);
+
+  it("should hold the catchup back by the required confirmations", async () => {
+    expect(await getConfirmedBlock(toProvider(100), 5)).toEqual({
+      number: 95,
+    });
+    // without confirmations we collect to the head
+    expect(await getConfirmedBlock(toProvider(100))).toEqual({ number: 100 });
+    expect(await getConfirmedBlock(toProvider(100), -5)).toEqual({
+      number: 100,
+    });
+  });
+
+  it("should never reach back past genesis", async () => {
+    expect(await getConfirmedBlock(toProvider(3), 5)).toEqual({ number: 0 });
+  });
+});
@@ -0,0 +1,241 @@
+import { ethers } from "ethers";
+import { BlockWithTransactions } from "@ethersproject/abstract-provider";
+import { JsonRpcProvider } from "@ethersproject/providers";
+
+import { getEngine } from "@/sync/tooling/persistence/store";
+import * as fetch from "@/sync/tooling/network/fetch";
+import {
+  CallTrace,
+  getBlockCalls,
+  getCallFragment,
+  getCallBlocks,
+  getNewCalls,
+  hasCallTo,
+  isCallHandler,
+} from "@/sync/tooling/network/calls";
+
+describe("Calls", () => {
+  // a vault which doesn't emit events on deposit
+  const iface = new ethers.utils.Interface([
+    "function deposit(uint256 amount, address receiver)",
+    "function withdraw(uint256 amount)",
+  ]);
+
+  // vault and account addresses
+  const VAULT = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+  const ROUTER = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+  const ACCOUNT = "0x0000000000000000000000000000000000000001";
+
+  // calldata for each function
+  const deposit = iface.encodeFunctionData("deposit", [100, ACCOUNT]);
+  const withdraw = iface.encodeFunctionData("withdraw", [50]);
+
+  // construct a trace as returned by trace_block/trace_filter
+  const toTrace = (
+    action: Partial<CallTrace["action"]>,
+    traceAddress: number[],
+    extra: Partial<CallTrace> = {}
+  ) =>
+    ({
+      type: "call",
+      action: {
+        callType: "call",
+        from: ROUTER,
+        to: VAULT,
+        input: deposit,
+        value: "0x0",
+        ...action,
+      },
+      blockHash: `0x${"1".repeat(64)}`,
+      blockNumber: 10,
+      transactionHash: `0x${"2".repeat(64)}`,
+      transactionPosition: 3,
+      traceAddress,
+      ...extra,
+    } as CallTrace);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should identify call handlers and resolve their function", () => {
+    expect(isCallHandler("onCall:deposit")).toBe(true);
+    expect(isCallHandler("Transfer")).toBe(false);
+    // by name, signature or selector
+    expect(getCallFragment(iface, "onCall:deposit").name).toEqual("deposit");
+    expect(
+      getCallFragment(iface, "onCall:deposit(uint256,address)").name
+    ).toEqual("deposit");
+    expect(
+      getCallFragment(iface, `onCall:${iface.getSighash("withdraw")}`).name
+    ).toEqual("withdraw");
+    expect(getCallFragment(iface, "onCall:mint")).toBeNull();
+  });
+
+  it("should match top-level calls from the blocks transactions", () => {
+    const block = {
+      hash: `0x${"1".repeat(64)}`,
+      number: 10,
+      transactions: [
+        { hash: "0x01", from: ACCOUNT, to: VAULT, input: deposit },
+        { hash: "0x02", from: ACCOUNT, to: VAULT, input: withdraw },
+        { hash: "0x03", from: ACCOUNT, to: ROUTER, input: deposit },
+      ],
+    } as unknown as BlockWithTransactions;
+
+    const calls = getBlockCalls(
+      iface,
+      getCallFragment(iface, "onCall:deposit"),
+      VAULT,
+      block
+    );
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({
+      address: VAULT,
+      from: ACCOUNT,
+      transactionHash: "0x01",
+      blockNumber: 10,
+      traceAddress: [],
+    });
+    expect(calls[0].args.amount.toNumber()).toEqual(100);
+    expect(calls[0].args.receiver).toEqual(ACCOUNT);
+  });
+
+  it("should match internal calls from the traces", () => {
+    const calls = getBlockCalls(
+      iface,
+      getCallFragment(iface, "onCall:deposit"),
+      VAULT,
+      {} as BlockWithTransactions,
+      [
+        // the router calls the vault
+        toTrace({}, [0]),
+        // reverted calls are skipped
+        toTrace({}, [1], { error: "Reverted" }),
+        // delegatecalls run the vaults code against another contract
+        toTrace({ callType: "delegatecall" }, [2]),
+        // calls to other functions
+        toTrace({ input: withdraw }, [3]),
+      ]
+    );
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({
+      address: VAULT,
+      from: ROUTER,
+      transactionIndex: 3,
+      traceAddress: [0],
+    });
+  });
+
+  it("should collect the calls in a range with trace_filter", async () => {
+    const engine = await getEngine();
+    // process ranges one at a time
+    engine.concurrency = 1;
+    // static network so that we never detect it
+    const provider = new JsonRpcProvider("http://127.0.0.1:1", 1);
+    const send = jest
+      .spyOn(provider, "send")
+      .mockResolvedValue([toTrace({}, [0]), toTrace({}, [0])]);
+
+    const events = await getNewCalls(
+      VAULT,
+      iface.fragments,
+      "onCall:deposit",
+      0,
+      10,
+      provider,
+      true,
+      false,
+      false
+    );
+
+    expect(send).toHaveBeenCalledWith("trace_filter", [
+      { fromBlock: "0x0", toBlock: "0xa", toAddress: [VAULT] },
+    ]);
+    // each call is only recorded once
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: "onCall:deposit",
+      address: VAULT,
+      from: ROUTER,
+      blockNumber: 10,
+      logIndex: -1,
+    });
+  });
+
+  it("should check if the block holds a call to the filtered addresses", () => {
+    const block = {
+      number: 10,
+      transactions: [{ hash: "0x01", from: ACCOUNT, to: ROUTER }],
+    } as unknown as BlockWithTransactions;
+
+    // top-level calls are read from the blocks txs
+    expect(hasCallTo([ROUTER.toLowerCase()], block)).toBe(true);
+    expect(hasCallTo([VAULT], block)).toBe(false);
+    // internal calls are read from the traces (reverted calls are skipped)
+    expect(hasCallTo([VAULT], block, [toTrace({}, [0])])).toBe(true);
+    expect(
+      hasCallTo([VAULT], block, [toTrace({}, [0], { error: "Reverted" })])
+    ).toBe(false);
+    // top-level calls which reverted are skipped
+    expect(
+      hasCallTo([ROUTER], block, undefined, { "0x01": { status: 0 } })
+    ).toBe(false);
+    expect(
+      hasCallTo([ROUTER], block, undefined, { "0x01": { status: 1 } })
+    ).toBe(true);
+  });
+
+  it("should skip reverted calls when scanning the blocks in a range", async () => {
+    const engine = await getEngine();
+    // process ranges one at a time
+    engine.concurrency = 1;
+    // static network so that we never detect it
+    const provider = new JsonRpcProvider("http://127.0.0.1:1", 1);
+    // every block holds a call to the vault (the call in block 2 reverted)
+    jest.spyOn(fetch, "getBlockByNumber").mockImplementation(
+      async (_, number) =>
+        ({
+          number,
+          transactions: [{ hash: `0x0${number}`, from: ACCOUNT, to: VAULT }],
+        } as unknown as Awaited<ReturnType<typeof fetch.getBlockByNumber>>)
+    );
+    const getTransactionReceipt = jest
+      .spyOn(fetch, "getTransactionReceipt")
+      .mockImplementation(
+        async (_, hash) =>
+          ({ status: hash === "0x02" ? 0 : 1 } as unknown as Awaited<
+            ReturnType<typeof fetch.getTransactionReceipt>
+          >)
+      );
+
+    const blocks = await getCallBlocks([VAULT], 1, 3, provider, false);
+
+    expect(Array.from(blocks).sort((a, b) => a - b)).toEqual([1, 3]);
+    expect(getTransactionReceipt).toHaveBeenCalledTimes(3);
+  });
+
+  it("should collect the blocks holding calls in a range with trace_filter", async () => {
+    const engine = await getEngine();
+    // process ranges one at a time
+    engine.concurrency = 1;
+    // static network so that we never detect it
+    const provider = new JsonRpcProvider("http://127.0.0.1:1", 1);
+    const send = jest
+      .spyOn(provider, "send")
+      .mockResolvedValue([
+        toTrace({}, [0]),
+        toTrace({}, [0], { blockNumber: 4 }),
+        toTrace({}, [0], { blockNumber: 6, error: "Reverted" }),
+      ]);
+
+    const blocks = await getCallBlocks([VAULT], 0, 10, provider, true);
+
+    expect(send).toHaveBeenCalledWith("trace_filter", [
+      { fromBlock: "0x0", toBlock: "0xa", toAddress: [VAULT] },
+    ]);
+    expect(Array.from(blocks).sort((a, b) => a - b)).toEqual([4, 10]);
+  });
+});
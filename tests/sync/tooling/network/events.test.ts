@@ -1,3 +1,12 @@
+import { ethers } from "ethers";
+import { JsonRpcProvider } from "@ethersproject/providers";
+
+import { getEngine } from "@/sync/tooling/persistence/store";
+import * as fetch from "@/sync/tooling/network/fetch";
+import * as progress from "@/sync/tooling/persistence/progress";
+import { getNewEvents, getNewSyncEvents } from "@/sync/tooling/network/events";
+import { Sync } from "@/sync/types";
+
 describe("Events", () => {
   beforeEach(() => {
   });
@@ -5,3 +14,415 @@ describe("Events", () => {
   it("should gather blocks for an Event between blocks", async () => {
   });
 });
+
+// erc20 and erc721 Transfers share a topic0 but not a shape
+const erc20 = new ethers.utils.Interface([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+const erc721 = new ethers.utils.Interface([
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+]);
+
+// token addresses and the transfer parties
+const TOKEN = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+const NFT = "0xBC4CA0EdA7647A8aB7C2061c2E118A18a936f13D";
+const OTHER = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const from = "0x0000000000000000000000000000000000000001";
+const to = "0x0000000000000000000000000000000000000002";
+
+// the rpc the logs are requested from
+const RPC = "http://127.0.0.1:1";
+
+// construct a log as returned by eth_getLogs
+const toLog = (
+  iface: ethers.utils.Interface,
+  address: string,
+  values: unknown[],
+  blockNumber: number,
+  logIndex: number
+) => ({
+  ...iface.encodeEventLog(iface.getEvent("Transfer"), values),
+  address,
+  blockNumber,
+  blockHash: `0x${"1".repeat(64)}`,
+  transactionHash: `0x${`${blockNumber}`.padStart(64, "0")}`,
+  transactionIndex: 0,
+  removed: false,
+  logIndex,
+});
+
+describe("Wildcard events", () => {
+  let provider: JsonRpcProvider;
+
+  beforeEach(async () => {
+    const engine = await getEngine();
+    // process ranges one at a time
+    engine.concurrency = 1;
+    engine.addressLimits = {};
+    // static network so that we never detect it
+    provider = new JsonRpcProvider(RPC, 1);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should collect the event from any contract by topic0", async () => {
+    const send = jest
+      .spyOn(fetch, "fetchDataWithRetries")
+      .mockResolvedValue([
+        toLog(erc20, TOKEN, [from, to, 100], 10, 0),
+        toLog(erc721, NFT, [from, to, 1], 10, 1),
+      ]);
+
+    const events = await getNewEvents(
+      undefined,
+      erc20.fragments,
+      "Transfer",
+      0,
+      10,
+      provider,
+      false,
+      false,
+      true
+    );
+
+    // only topic0 is filtered
+    expect(send).toHaveBeenCalledWith(
+      RPC,
+      "eth_getLogs",
+      [
+        {
+          address: undefined,
+          fromBlock: "0x0",
+          toBlock: "0xa",
+          topics: [erc20.getEventTopic("Transfer")],
+        },
+      ],
+      1,
+      true
+    );
+    // the erc721 Transfer doesn't match the erc20 shape
+    expect(events).toHaveLength(1);
+    expect(events[0].address).toBeUndefined();
+    expect(events[0].data.address).toEqual(TOKEN);
+    expect(events[0].data.event).toEqual("Transfer");
+    expect(events[0].data.args.value.toNumber()).toEqual(100);
+  });
+});
+
+describe("Filtered events", () => {
+  // transfers (from anyone) to the parties
+  const topics = [
+    erc20.getEventTopic("Transfer"),
+    null,
+    [
+      ethers.utils.hexZeroPad(from, 32).toLowerCase(),
+      ethers.utils.hexZeroPad(to, 32).toLowerCase(),
+    ],
+  ];
+
+  let provider: JsonRpcProvider;
+
+  beforeEach(async () => {
+    const engine = await getEngine();
+    // process ranges one at a time
+    engine.concurrency = 1;
+    engine.addressLimits = {};
+    // static network so that we never detect it
+    provider = new JsonRpcProvider(RPC, 1);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should apply the filters to the contracts logs", async () => {
+    const send = jest
+      .spyOn(fetch, "fetchDataWithRetries")
+      .mockResolvedValue([]);
+
+    await getNewEvents(
+      TOKEN,
+      erc20.fragments,
+      "Transfer",
+      0,
+      10,
+      provider,
+      false,
+      false,
+      true,
+      [null, [from, to]]
+    );
+
+    expect(send).toHaveBeenCalledWith(
+      RPC,
+      "eth_getLogs",
+      [{ address: TOKEN, fromBlock: "0x0", toBlock: "0xa", topics }],
+      1,
+      true
+    );
+  });
+
+  it("should apply the filters to wildcard queries", async () => {
+    const send = jest
+      .spyOn(fetch, "fetchDataWithRetries")
+      .mockResolvedValue([]);
+
+    await getNewEvents(
+      undefined,
+      erc20.fragments,
+      "Transfer",
+      0,
+      10,
+      provider,
+      false,
+      false,
+      true,
+      [null, [from, to]]
+    );
+
+    expect(send).toHaveBeenCalledWith(
+      RPC,
+      "eth_getLogs",
+      [{ address: undefined, fromBlock: "0x0", toBlock: "0xa", topics }],
+      1,
+      true
+    );
+  });
+});
+
+describe("Multi-address events", () => {
+  let provider: JsonRpcProvider;
+
+  beforeEach(async () => {
+    const engine = await getEngine();
+    // process ranges one at a time
+    engine.concurrency = 1;
+    engine.addressLimits = {};
+    // start with nothing registered
+    engine.callbacks = {};
+    engine.eventIfaces = {};
+    engine.latestEntity = {};
+    engine.startBlocks = {};
+    engine.window = undefined;
+    // static network so that we never detect it
+    provider = new JsonRpcProvider(RPC, 1);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should chunk the addresses to the providers limit", async () => {
+    const engine = await getEngine();
+    engine.addressLimits = { 1: 2 };
+    const send = jest
+      .spyOn(fetch, "fetchDataWithRetries")
+      .mockResolvedValue([]);
+
+    await getNewEvents(
+      [TOKEN, NFT, OTHER],
+      erc20.fragments,
+      "Transfer",
+      0,
+      10,
+      provider,
+      false,
+      false,
+      true
+    );
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(
+      send.mock.calls.map(
+        ([, , [params]]) => (params as { address: string[] }).address
+      )
+    ).toEqual([[TOKEN, NFT], [OTHER]]);
+  });
+
+  it("should batch the syncs for each address and respect their start blocks", async () => {
+    const engine = await getEngine();
+    const send = jest
+      .spyOn(fetch, "fetchDataWithRetries")
+      .mockResolvedValue([
+        toLog(erc20, TOKEN, [from, to, 1], 3, 0),
+        toLog(erc20, OTHER, [from, to, 2], 3, 1),
+        toLog(erc20, OTHER, [from, to, 3], 7, 0),
+      ]);
+
+    // a sync for each address (as registered by setSyncs)
+    const syncs = [
+      { address: TOKEN, startBlock: 0 },
+      { address: OTHER, startBlock: 5 },
+    ].map(
+      ({ address, startBlock }) =>
+        ({
+          chainId: 1,
+          address,
+          eventName: "Transfer",
+          handlers: "tokens",
+          events: erc20.fragments,
+          provider,
+          startBlock,
+          endBlock: 10,
+          opts: {},
+          onEvent: jest.fn(),
+        } as unknown as Sync)
+    );
+    engine.syncs = syncs;
+
+    const { events } = await getNewSyncEvents(
+      syncs,
+      false,
+      false,
+      false,
+      false,
+      true,
+      undefined,
+      true
+    );
+
+    // both addresses are collected in a single request from the earliest start block
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(
+      RPC,
+      "eth_getLogs",
+      [expect.objectContaining({ address: [TOKEN, OTHER], fromBlock: "0x0" })],
+      1,
+      true
+    );
+    // the log before the second addresses startBlock is dropped
+    expect(
+      events.map(({ address, blockNumber }) => [address, blockNumber])
+    ).toEqual([
+      [TOKEN, 3],
+      [OTHER, 7],
+    ]);
+  });
+
+  it("should batch syncs which wait on other work before collecting", async () => {
+    const engine = await getEngine();
+    const send = jest
+      .spyOn(fetch, "fetchDataWithRetries")
+      .mockResolvedValue([
+        toLog(erc20, TOKEN, [from, to, 1], 3, 0),
+        toLog(erc20, OTHER, [from, to, 2], 4, 0),
+      ]);
+    // the first sync on the chain pins the range (and takes a while to save it)
+    const save = jest
+      .spyOn(progress, "saveSyncProgress")
+      .mockImplementation(
+        () => new Promise((resolve) => setTimeout(resolve, 10))
+      );
+    engine.progress = {
+      id: "progress",
+      pointers: {},
+      toBlocks: {},
+      fetched: {},
+      processed: 0,
+    };
+    engine.latestBlocks = { 1: { number: 11 } as ethers.providers.Block };
+
+    // a sync for each address running up to the latest block
+    const syncs = [TOKEN, OTHER].map(
+      (address) =>
+        ({
+          chainId: 1,
+          address,
+          eventName: "Transfer",
+          handlers: "tokens",
+          events: erc20.fragments,
+          provider,
+          startBlock: 0,
+          opts: {},
+          onEvent: jest.fn(),
+        } as unknown as Sync)
+    );
+    engine.syncs = syncs;
+
+    const { events } = await getNewSyncEvents(
+      syncs,
+      false,
+      false,
+      false,
+      false,
+      true,
+      undefined,
+      true
+    ).finally(() => {
+      engine.progress = undefined;
+      engine.latestBlocks = {};
+    });
+
+    // the first sync waited on the save but is still collected in the same request
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(
+      RPC,
+      "eth_getLogs",
+      [
+        expect.objectContaining({
+          address: [TOKEN, OTHER],
+          fromBlock: "0x0",
+          toBlock: "0xa",
+        }),
+      ],
+      1,
+      true
+    );
+    // (the syncs are gathered in the order they complete)
+    expect(
+      events
+        .map(({ address, blockNumber }) => [address, blockNumber])
+        .sort(([, a], [, b]) => +a - +b)
+    ).toEqual([
+      [TOKEN, 3],
+      [OTHER, 4],
+    ]);
+  });
+
+  it("should only collect the blocks inside the current window", async () => {
+    const engine = await getEngine();
+    const send = jest
+      .spyOn(fetch, "fetchDataWithRetries")
+      .mockResolvedValue([]);
+
+    // the sync covers blocks 0 to 10 but the window only covers 4 to 6
+    const syncs = [
+      {
+        chainId: 1,
+        address: TOKEN,
+        eventName: "Transfer",
+        handlers: "tokens",
+        events: erc20.fragments,
+        provider,
+        startBlock: 0,
+        endBlock: 10,
+        opts: {},
+        onEvent: jest.fn(),
+      } as unknown as Sync,
+    ];
+    engine.syncs = syncs;
+    engine.window = { 1: { fromBlock: 4, toBlock: 6 } };
+
+    await getNewSyncEvents(
+      syncs,
+      false,
+      false,
+      false,
+      false,
+      true,
+      undefined,
+      true
+    );
+
+    expect(send).toHaveBeenCalledWith(
+      RPC,
+      "eth_getLogs",
+      [expect.objectContaining({ fromBlock: "0x4", toBlock: "0x6" })],
+      1,
+      true
+    );
+  });
+});
@@ -1,7 +1,196 @@
+import { createListeners, Ingestor } from "@/sync/tooling/network/ingestor";
+import { fetchDataWithRetries } from "@/sync/tooling/network/fetch";
+import * as providers from "@/sync/tooling/network/providers";
+import { getEngine } from "@/sync/tooling/persistence/store";
+
+// Mock the rpc fetcher so that we can serve the canonical chain
+jest.mock("@/sync/tooling/network/fetch", () => ({
+  fetchDataWithRetries: jest.fn(),
+}));
+
 describe("Ingestor", () => {
   beforeEach(() => {
+    jest.clearAllMocks();
   });
-  
+
   it("should attach listeners for constructed providers", async () => {
   });
+
+  it("should not report a reorg when the parentHash matches", async () => {
+    const ingestor = new Ingestor({
+      withBlock: jest.fn(),
+      rpcUrls: { 1: "http://localhost:8545" },
+    });
+
+    ingestor.recordBlock(1, { number: 10, hash: "0xa10", parentHash: "0xa9", transactions: [] });
+
+    const ancestor = await ingestor.findCommonAncestor(1, {
+      number: 11,
+      hash: "0xa11",
+      parentHash: "0xa10",
+      transactions: [],
+    });
+
+    expect(ancestor).toBeUndefined();
+    expect(fetchDataWithRetries).not.toHaveBeenCalled();
+  });
+
+  it("should find the common ancestor when the parentHash does not match", async () => {
+    const ingestor = new Ingestor({
+      withBlock: jest.fn(),
+      rpcUrls: { 1: "http://localhost:8545" },
+    });
+
+    // processed chain: 9 -> 10 -> 11
+    ingestor.recordBlock(1, { number: 9, hash: "0xa9", parentHash: "0xa8", transactions: [] });
+    ingestor.recordBlock(1, { number: 10, hash: "0xa10", parentHash: "0xa9", transactions: [] });
+    ingestor.recordBlock(1, { number: 11, hash: "0xa11", parentHash: "0xa10", transactions: [] });
+
+    // canonical chain: 9 -> 10' -> 11' -> 12'
+    (fetchDataWithRetries as jest.Mock).mockImplementation(
+      (_url: string, _method: string, [number]: [string]) =>
+        Promise.resolve(
+          ({
+            "0xb": { number: 11, hash: "0xb11", parentHash: "0xb10" },
+            "0xa": { number: 10, hash: "0xb10", parentHash: "0xa9" },
+          } as Record<string, unknown>)[number]
+        )
+    );
+
+    const ancestor = await ingestor.findCommonAncestor(1, {
+      number: 12,
+      hash: "0xb12",
+      parentHash: "0xb11",
+      transactions: [],
+    });
+
+    expect(ancestor).toBe(9);
+    expect(fetchDataWithRetries).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not track blocks when reorg handling is disabled", async () => {
+    const ingestor = new Ingestor({
+      withBlock: jest.fn(),
+      rpcUrls: { 1: "http://localhost:8545" },
+      reorgDepth: 0,
+    });
+
+    ingestor.recordBlock(1, {
+      number: 10,
+      hash: "0xa10",
+      parentHash: "0xa9",
+      transactions: [],
+    });
+
+    // the mismatched parent goes unnoticed
+    const ancestor = await ingestor.findCommonAncestor(1, {
+      number: 11,
+      hash: "0xb11",
+      parentHash: "0xb10",
+      transactions: [],
+    });
+
+    expect(ancestor).toBeUndefined();
+    expect(fetchDataWithRetries).not.toHaveBeenCalled();
+  });
+
+  it("should throw when the reorg is deeper than the window", async () => {
+    const ingestor = new Ingestor({
+      withBlock: jest.fn(),
+      rpcUrls: { 1: "http://localhost:8545" },
+      reorgDepth: 1,
+    });
+
+    ingestor.recordBlock(1, { number: 9, hash: "0xa9", parentHash: "0xa8", transactions: [] });
+    ingestor.recordBlock(1, { number: 10, hash: "0xa10", parentHash: "0xa9", transactions: [] });
+
+    (fetchDataWithRetries as jest.Mock).mockResolvedValue({
+      number: 10,
+      hash: "0xb10",
+      parentHash: "0xb9",
+    });
+
+    await expect(
+      ingestor.findCommonAncestor(1, {
+        number: 11,
+        hash: "0xb11",
+        parentHash: "0xb10",
+        transactions: [],
+      })
+    ).rejects.toThrowError("deeper than 1 blocks");
+  });
+});
+
+describe("Confirmations", () => {
+  // the block listener attached to the provider
+  let listener: (number: number) => void;
+
+  // attach the listeners to a provider which only records the block listener
+  const listen = async (confirmations: number) => {
+    const engine = await getEngine();
+    const ingestor = new Ingestor({
+      withBlock: jest.fn(),
+      rpcUrls: { 1: "http://localhost:8545" },
+    });
+    const addBlock = jest.spyOn(ingestor, "addBlock").mockReturnValue();
+
+    // wait on the given no. of confirmations against chain 1
+    engine.confirmations = { 1: confirmations };
+
+    jest.spyOn(providers, "getNetworks").mockImplementation(async () => ({
+      chainIds: new Set([1]),
+      syncProviders: {
+        1: {
+          on: (event: string, fn: (number: number) => void) => {
+            if (event === "block") listener = fn;
+          },
+        },
+      } as unknown as Awaited<
+        ReturnType<typeof providers.getNetworks>
+      >["syncProviders"],
+    }));
+
+    await createListeners(
+      ingestor,
+      { inSync: true, listening: true, suspended: false },
+      [],
+      {},
+      new Promise(() => {}),
+      jest.fn()
+    );
+
+    return addBlock;
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should hold each block until it has the required confirmations", async () => {
+    const addBlock = await listen(2);
+
+    // block 10 is only enqueued once block 12 is announced
+    listener(10);
+    listener(11);
+    expect(addBlock).not.toHaveBeenCalledWith({ number: 10, chainId: 1 });
+    listener(12);
+    expect(addBlock).toHaveBeenLastCalledWith({ number: 10, chainId: 1 });
+  });
+
+  it("should not enqueue blocks before genesis has been confirmed", async () => {
+    const addBlock = await listen(2);
+
+    listener(0);
+    listener(1);
+    expect(addBlock).not.toHaveBeenCalled();
+    listener(2);
+    expect(addBlock).toHaveBeenCalledWith({ number: 0, chainId: 1 });
+  });
+
+  it("should enqueue blocks as they are announced without confirmations", async () => {
+    const addBlock = await listen(-1);
+
+    listener(5);
+    expect(addBlock).toHaveBeenCalledWith({ number: 5, chainId: 1 });
+  });
 });
@@ -0,0 +1,133 @@
+import { JsonRpcProvider } from "@ethersproject/providers";
+
+import { getEngine } from "@/sync/tooling/persistence/store";
+import * as fetch from "@/sync/tooling/network/fetch";
+import { getLogs, toRangeSize } from "@/sync/tooling/network/logs";
+
+describe("Logs", () => {
+  // the rpc the logs are requested from
+  const RPC = "http://127.0.0.1:1";
+
+  let provider: JsonRpcProvider;
+
+  beforeEach(async () => {
+    const engine = await getEngine();
+    // start without any known ranges
+    engine.logRanges = {};
+    // static network so that we never detect it
+    provider = new JsonRpcProvider(RPC, 1);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // the block ranges requested
+  const toRanges = (send: jest.SpyInstance) =>
+    send.mock.calls.map(([, , [{ fromBlock, toBlock }]]) => [
+      parseInt(fromBlock, 16),
+      parseInt(toBlock, 16),
+    ]);
+
+  it("should read the range size from the providers errors", () => {
+    // suggested ranges
+    expect(
+      toRangeSize(
+        "query returned more than 10000 results. Try with this block range [0x64, 0xc7].",
+        1000
+      )
+    ).toEqual({ size: 100 });
+    // block range limits
+    expect(toRangeSize("exceed maximum block range: 5000", 100000)).toEqual({
+      size: 5000,
+      limit: 5000,
+    });
+    expect(
+      toRangeSize(
+        "You can make eth_getLogs requests with up to a 2K block range",
+        100000
+      )
+    ).toEqual({ size: 2000, limit: 2000 });
+    expect(
+      toRangeSize("eth_getLogs is limited to a 10,000 range", 100000)
+    ).toEqual({ size: 10000, limit: 10000 });
+    // too many results without a suggestion
+    expect(toRangeSize("query returned more than 10000 results", 1000)).toEqual(
+      { size: 500 }
+    );
+    // anything else isn't about the range
+    expect(toRangeSize("execution reverted", 1000)).toBeNull();
+  });
+
+  it("should split the range on the providers suggestion and remember it", async () => {
+    const engine = await getEngine();
+    const send = jest
+      .spyOn(fetch, "fetchDataWithRetries")
+      .mockRejectedValueOnce(
+        new Error(
+          "query returned more than 10000 results. Try with this block range [0x0, 0x3]."
+        )
+      )
+      .mockResolvedValue([]);
+
+    await getLogs(provider, { topics: [] }, 0, 9, true);
+
+    // each range is attempted once the size is known (growing after each success)
+    expect(toRanges(send)).toEqual([
+      [0, 9],
+      [0, 3],
+      [4, 9],
+    ]);
+    expect(engine.logRanges[RPC]).toEqual({ size: 8, limit: 100000 });
+  });
+
+  it("should never request more than the providers limit", async () => {
+    const engine = await getEngine();
+    const send = jest
+      .spyOn(fetch, "fetchDataWithRetries")
+      .mockRejectedValueOnce(new Error("exceed maximum block range: 4"))
+      .mockResolvedValue([]);
+
+    await getLogs(provider, { topics: [] }, 0, 9, true);
+    // the limit is respected by later requests
+    await getLogs(provider, { topics: [] }, 10, 15, true);
+
+    expect(toRanges(send)).toEqual([
+      [0, 9],
+      [0, 3],
+      [4, 7],
+      [8, 9],
+      [10, 13],
+      [14, 15],
+    ]);
+    expect(engine.logRanges[RPC]).toEqual({ size: 4, limit: 4 });
+  });
+
+  it("should send the request over the providers connection when it isn't served over http", async () => {
+    const fetchLogs = jest.spyOn(fetch, "fetchDataWithRetries");
+    // a websocket rpc (static network so that we never detect it)
+    const wsProvider = new JsonRpcProvider("ws://127.0.0.1:1", 1);
+    const send = jest
+      .spyOn(wsProvider, "send")
+      .mockRejectedValueOnce(new Error("exceed maximum block range: 5"))
+      .mockResolvedValue([]);
+
+    await getLogs(wsProvider, { topics: [] }, 0, 9, true);
+
+    // the logs are requested (and resized) through the provider
+    expect(fetchLogs).not.toHaveBeenCalled();
+    expect(send).toHaveBeenCalledWith("eth_getLogs", [
+      expect.objectContaining({ fromBlock: "0x0", toBlock: "0x9" }),
+    ]);
+    expect(
+      send.mock.calls.map(([, [{ fromBlock, toBlock }]]) => [
+        parseInt(fromBlock, 16),
+        parseInt(toBlock, 16),
+      ])
+    ).toEqual([
+      [0, 9],
+      [0, 4],
+      [5, 9],
+    ]);
+  });
+});
@@ -1,4 +1,8 @@
+import Storage from "node-persist";
+
 import { DB, NotFound } from "@/sync/tooling/persistence/db";
+import { Stage } from "@/sync/tooling/persistence/stage";
+import { Engine } from "@/sync/types";
 
 // Mock dotenv.config() since it's not related to testing DB class
 jest.mock("dotenv", () => ({
@@ -93,4 +97,75 @@ describe("DB", () => {
       },
     });
   });
+
+  it("should not rollback without entry history", async () => {
+    const db = new DB({}, { flags: { silent: true } });
+    db.kv = {
+      exampleRef: {
+        id1: { data: "value1", _block_num: 11, _chain_id: 1 },
+      },
+    };
+
+    const rolledBack = await db.rollback(1, 10);
+
+    expect(rolledBack).toBe(false);
+    expect(db.kv).toEqual({
+      exampleRef: {
+        id1: { data: "value1", _block_num: 11, _chain_id: 1 },
+      },
+    });
+  });
+
+  it("should evict the least recently used committed entries", async () => {
+    const engine = {} as Engine;
+    const db = new DB({}, engine, { maxEntries: 2 });
+
+    // id1 is staged in an open checkpoint so it must not be evicted
+    engine.stage = new Stage(db);
+    engine.stage.checkpoint();
+    await engine.stage.put("exampleRef.id1", { data: "staged" });
+
+    await db.put("exampleRef.id1", { data: "value1" });
+    await db.put("exampleRef.id2", { data: "value2" });
+    await db.put("exampleRef.id3", { data: "value3" });
+
+    expect(db.kv).toEqual({
+      exampleRef: {
+        id1: { data: "value1" },
+        id3: { data: "value3" },
+      },
+    });
+
+    // hits and misses are recorded against the engine
+    await db.get("exampleRef.id1");
+    await expect(db.get("exampleRef.id2")).rejects.toThrowError(NotFound);
+    expect(engine.cacheMetrics).toEqual({
+      hits: 1,
+      misses: 1,
+      evictions: 1,
+      entries: 2,
+      bytes: expect.any(Number),
+    });
+  });
+
+  it("should restore evicted entries from storage", async () => {
+    const db = new DB({}, {}, { maxEntries: 1 });
+    db.useStorage = true;
+
+    // storage holds every entry (the methods are only attached to node-persist after init)
+    const stored: Record<string, unknown> = {};
+    Object.assign(Storage, {
+      set: jest.fn(async (key: string, val: unknown) => {
+        stored[key] = val;
+      }),
+      get: jest.fn(async (key: string) => stored[key]),
+    });
+
+    await db.put("exampleRef.id1", { data: "value1" });
+    await db.put("exampleRef.id2", { data: "value2" });
+
+    expect(db.kv.exampleRef.id1).toBeUndefined();
+    expect(await db.get("exampleRef.id1")).toEqual({ data: "value1" });
+    expect(db.kv.exampleRef.id2).toBeUndefined();
+  });
 });
@@ -0,0 +1,79 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { BloomFilter, KeyIndex } from "@/sync/tooling/persistence/keyIndex";
+
+describe("KeyIndex", () => {
+  it("should never report a false negative from the bloom filter", async () => {
+    const filter = BloomFilter.forCapacity(1000, 0.01);
+
+    // add every key
+    for (let i = 0; i < 1000; i += 1) filter.add(`id${i}`);
+
+    // every added key must be reported
+    for (let i = 0; i < 1000; i += 1) expect(filter.has(`id${i}`)).toBe(true);
+
+    // false positives should be close to the error rate
+    let positives = 0;
+    for (let i = 1000; i < 11000; i += 1)
+      if (filter.has(`id${i}`)) positives += 1;
+    expect(positives).toBeLessThan(300);
+
+    // restoring the filter should retain every key
+    const restored = BloomFilter.fromJSON(JSON.parse(JSON.stringify(filter)));
+    expect(restored.has("id1")).toBe(true);
+  });
+
+  it("should seed each ref once and retain keys added while seeding", async () => {
+    const index = new KeyIndex({ persist: false, capacity: 100 });
+    const ids = jest.fn(async function* seed() {
+      // add a key while the db read is in progress
+      index.add("exampleRef", "id3");
+
+      yield "id1";
+      yield "id2";
+    });
+
+    await Promise.all([
+      index.seed("exampleRef", ids),
+      index.seed("exampleRef", ids),
+    ]);
+
+    expect(ids).toHaveBeenCalledTimes(1);
+    expect(index.has("exampleRef", "id1")).toBe(true);
+    expect(index.has("exampleRef", "id3")).toBe(true);
+    expect(index.has("exampleRef", "id4")).toBe(false);
+    // unseeded refs might hold anything
+    expect(index.has("otherRef", "id4")).toBe(true);
+  });
+
+  it("should remove the persisted filters until the new keys are saved", async () => {
+    const index = new KeyIndex({ capacity: 100 });
+    // write the filters to a tmp location
+    index.file = join(tmpdir(), `keyIndex-${process.pid}.index.json`);
+    const exists = () =>
+      fs.access(index.file).then(
+        () => true,
+        () => false
+      );
+
+    // seed and persist the ref
+    await index.seed("exampleRef", () => ["id1"]);
+    expect(await exists()).toBe(true);
+
+    // adding a key leaves the file behind the filters so it is removed
+    index.add("exampleRef", "id2");
+    await index.invalidate();
+    expect(await exists()).toBe(false);
+
+    // the next save writes every key
+    await index.save();
+    const restored = new KeyIndex({ capacity: 100 });
+    restored.file = index.file;
+    await restored.load();
+    expect(restored.has("exampleRef", "id2")).toBe(true);
+
+    await fs.rm(index.file, { force: true });
+  });
+});
@@ -0,0 +1,39 @@
+import { LRU } from "@/sync/tooling/persistence/lru";
+
+describe("LRU", () => {
+  it("should evict the least recently used values when over budget", async () => {
+    const lru = new LRU<string>(30);
+
+    lru.set("a", "a", 10);
+    lru.set("b", "b", 10);
+    lru.set("c", "c", 10);
+
+    // touch a so that b becomes the least recently used
+    expect(lru.get("a")).toBe("a");
+
+    lru.set("d", "d", 10);
+
+    expect(lru.get("b")).toBeUndefined();
+    expect(lru.get("a")).toBe("a");
+    expect(lru.bytes).toBe(30);
+  });
+
+  it("should skip entries which can't be evicted", async () => {
+    const onEvict = jest.fn();
+    const lru = new LRU<null>(Infinity, {
+      maxEntries: 2,
+      canEvict: (key) => key !== "a",
+      onEvict,
+    });
+
+    lru.set("a", null);
+    lru.set("b", null);
+    lru.set("c", null);
+
+    // a is pinned so b is evicted in its place
+    expect(lru.has("a")).toBe(true);
+    expect(lru.has("b")).toBe(false);
+    expect(onEvict).toHaveBeenCalledWith("b", null);
+    expect(lru.evictions).toBe(1);
+  });
+});
@@ -2,6 +2,7 @@ import { MongoClient, Collection, Document } from "mongodb";
 
 import { Mongo } from "@/sync/tooling/persistence/mongo";
 import { NotFound } from "@/sync/tooling/persistence/db";
+import { KeyIndex } from "@/sync/tooling/persistence/keyIndex";
 
 // Mock the mongodb methods and classes
 jest.mock("mongodb");
@@ -241,4 +242,305 @@ describe("Mongo", () => {
   
     expect(mockCollection.bulkWrite).not.toHaveBeenCalled();
   });
+
+  it("should rollback entries written after the given block", async () => {
+    const db = new Mongo(mockClient, "testDb", {
+      exampleRef: {
+        id1: { id: "id1", _block_num: 11 },
+        id2: { id: "id2", _block_num: 12 },
+      },
+    });
+
+    // list a single entity collection alongside the meta and snapshot collections
+    (mockDb as unknown as Record<string, unknown>).listCollections = jest.fn(
+      () => ({
+        toArray: () =>
+          Promise.resolve([
+            { name: "exampleRef" },
+            { name: "exampleRef_snapshot" },
+            { name: "__meta__" },
+          ]),
+      })
+    );
+    // id1 was updated in the orphaned block and id2 was created in it
+    (mockCollection as unknown as Record<string, unknown>).distinct = jest.fn(
+      () => Promise.resolve(["id1", "id2"])
+    );
+    (mockCollection as unknown as Record<string, unknown>).deleteMany =
+      jest.fn();
+    (mockCollection as unknown as Record<string, unknown>).findOne = jest.fn(
+      ({ id }: { id: string }) =>
+        Promise.resolve(id === "id1" ? { id: "id1", _block_num: 9 } : null)
+    );
+
+    const rolledBack = await db.rollback(1, 10);
+
+    expect(rolledBack).toBe(true);
+    // only the entity collection should be touched
+    expect(mockDb.collection).not.toHaveBeenCalledWith("__meta__");
+    expect(mockDb.collection).not.toHaveBeenCalledWith("exampleRef_snapshot");
+    expect(mockCollection.deleteMany).toHaveBeenCalledWith({
+      _chain_id: 1,
+      _block_num: { $gt: 10 },
+    });
+    // cache should be restored to the surviving entries
+    expect(db.kv).toEqual({
+      exampleRef: {
+        id1: { id: "id1", _block_num: 9 },
+      },
+    });
+  });
+
+  it("should not rollback mutable entries", async () => {
+    const db = new Mongo(mockClient, "testDb", {}, true, {
+      flags: { silent: true },
+    });
+
+    const rolledBack = await db.rollback(1, 10);
+
+    expect(rolledBack).toBe(false);
+    expect(mockDb.collection).not.toHaveBeenCalled();
+    // only immutable dbs can rollback
+    expect(db.canRollback).toBe(false);
+    expect(new Mongo(mockClient, "testDb", {}).canRollback).toBe(true);
+  });
+
+  it("should consult the index before querying for missing entries", async () => {
+    // the collection holds only id2
+    (mockCollection as unknown as Record<string, unknown>).find = jest.fn(
+      () => [{ id: "id2" }]
+    );
+
+    const db = new Mongo(
+      mockClient,
+      "testDb",
+      {},
+      false,
+      {},
+      new KeyIndex({ persist: false })
+    );
+
+    // missing entries are rejected without a query
+    await expect(db.get("exampleRef.id1")).rejects.toThrowError(NotFound);
+    expect(mockCollection.findOne).not.toHaveBeenCalled();
+
+    // existing entries are queried once and then served from the cache
+    expect(await db.get("exampleRef.id2")).toEqual({ id: "id2" });
+    expect(await db.get("exampleRef.id2")).toEqual({ id: "id2" });
+    expect(mockCollection.findOne).toHaveBeenCalledTimes(1);
+    // the ids are only read from the collection once
+    expect(mockCollection.find).toHaveBeenCalledTimes(1);
+
+    // new entries are added to the index as they're written
+    await db.batch([
+      { type: "put", key: "exampleRef.id1", value: { id: "id1" } },
+    ]);
+    delete db.kv.exampleRef.id1;
+    await db.get("exampleRef.id1");
+    expect(mockCollection.findOne).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only save the index once the writes are committed", async () => {
+    const index = new KeyIndex({ persist: false });
+    const save = jest.spyOn(index, "save");
+    const invalidate = jest.spyOn(index, "invalidate");
+    const db = new Mongo(mockClient, "testDb", {}, false, {}, index);
+
+    // puts mark the index as changed without writing it
+    await db.put("exampleRef.id1", { id: "id1" });
+    await db.put("exampleRef.id2", { id: "id2" });
+    expect(save).not.toHaveBeenCalled();
+    expect(invalidate).toHaveBeenCalledTimes(2);
+
+    // the batch commit saves it
+    await db.batch([
+      { type: "put", key: "exampleRef.id3", value: { id: "id3" } },
+    ]);
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  it("should bound the kv and read evicted entries from mongo", async () => {
+    const engine = {};
+    const db = new Mongo(mockClient, "testDb", {}, false, engine, false, {
+      maxEntries: 1,
+    });
+
+    await db.batch([
+      { type: "put", key: "exampleRef.id1", value: { id: "id1" } },
+      { type: "put", key: "exampleRef.id2", value: { id: "id2" } },
+    ]);
+
+    // only the most recent entry is held
+    expect(db.kv).toEqual({
+      exampleRef: {
+        id2: expect.objectContaining({ id: "id2" }),
+      },
+    });
+
+    // the evicted entry is read back from mongo
+    await db.get("exampleRef.id1");
+    expect(mockCollection.findOne).toHaveBeenCalledWith(
+      { id: "id1" },
+      { sort: { _block_ts: -1 } }
+    );
+    expect(db.metrics).toEqual(
+      expect.objectContaining({ misses: 1, evictions: 1, entries: 1 })
+    );
+  });
+
+  it("should read evicted entries from mongo when the db is warm", async () => {
+    // every entry was loaded into the kv at startup
+    const engine = { warmDb: true };
+    const db = new Mongo(mockClient, "testDb", {}, false, engine, false, {
+      maxEntries: 1,
+    });
+
+    // nothing has been evicted so the kv holds everything
+    await db.batch([
+      { type: "put", key: "exampleRef.id1", value: { id: "id1" } },
+    ]);
+    await expect(db.get("exampleRef.id3")).rejects.toThrow(NotFound);
+    expect(mockCollection.findOne).not.toHaveBeenCalled();
+
+    // evict id1
+    await db.batch([
+      { type: "put", key: "exampleRef.id2", value: { id: "id2" } },
+    ]);
+
+    // the evicted entry is read back from mongo
+    await db.get("exampleRef.id1");
+    expect(mockCollection.findOne).toHaveBeenCalledWith(
+      { id: "id1" },
+      { sort: { _block_ts: -1 } }
+    );
+  });
+
+  it("should only read the matching entries when querying", async () => {
+    // the cursors resolve the matching page
+    const toArray = jest.fn(() => Promise.resolve([{ id: "id1" }]));
+    mockCollection.aggregate = jest.fn(() => ({ toArray })) as never;
+
+    // mutable collections are matched directly
+    const mutable = new Mongo(mockClient, "testDb", {}, true);
+    const result = await mutable.query("exampleRef", {
+      where: { pool: "a", amount: ["10", "20"] },
+      orderBy: "amount",
+      orderDirection: "desc",
+      first: 10,
+      skip: 5,
+    });
+
+    expect(result).toEqual([{ id: "id1" }]);
+    const [[mutablePipeline, options]] = (mockCollection.aggregate as jest.Mock)
+      .mock.calls;
+    // numeric values match either of their stored forms
+    expect(mutablePipeline[0]).toEqual({
+      $match: { pool: { $in: ["a"] }, amount: { $in: ["10", 10, "20", 20] } },
+    });
+    // sorted on the keys derived from each field (breaking ties on id) without a collation (text is compared in byte order)
+    expect(Object.keys(mutablePipeline[5].$sort)).toEqual(
+      ["amount", "id"].flatMap((_, index) =>
+        [
+          "missing",
+          "numeric",
+          "sign",
+          "positiveLength",
+          "positiveMagnitude",
+          "negativeLength",
+          "negativeMagnitude",
+          "text",
+        ].map((key) => `__sort.${key}${index}`)
+      )
+    );
+    expect(mutablePipeline[5].$sort["__sort.text0"]).toEqual(-1);
+    expect(mutablePipeline[5].$sort["__sort.negativeLength0"]).toEqual(1);
+    expect(mutablePipeline.slice(6)).toEqual([
+      { $skip: 5 },
+      { $limit: 10 },
+      { $unset: "__sort" },
+    ]);
+    expect(options).toEqual({ allowDiskUse: true });
+
+    // immutable collections are matched against the latest entry for each id
+    const immutable = new Mongo(mockClient, "testDb", {});
+    await immutable.query("exampleRef", { where: { pool: "a" }, first: 10 });
+
+    const [, [pipeline]] = (mockCollection.aggregate as jest.Mock).mock.calls;
+    expect(pipeline[3]).toEqual({ $match: { pool: { $in: ["a"] } } });
+    expect(pipeline[8].$sort["__sort.text0"]).toEqual(1);
+    expect(pipeline.slice(9)).toEqual([
+      { $skip: 0 },
+      { $limit: 10 },
+      { $unset: "__sort" },
+    ]);
+  });
+
+  it("should write every collection inside a single transaction", async () => {
+    // the session runs the transaction callback immediately
+    const session = {
+      withTransaction: jest.fn(async (fn: () => Promise<void>) => fn()),
+      endSession: jest.fn(),
+    };
+    (mockClient as unknown as Record<string, unknown>).startSession = jest.fn(
+      () => session
+    );
+
+    const db = new Mongo(
+      mockClient,
+      "testDb",
+      {},
+      false,
+      {},
+      false,
+      undefined,
+      true
+    );
+
+    await db.batch([
+      { type: "put", key: "exampleRef.id1", value: { id: "id1" } },
+      { type: "put", key: "__meta__.1", value: { id: "1", latestBlock: 1 } },
+    ]);
+
+    // both collections are written on the session
+    expect(session.withTransaction).toHaveBeenCalledTimes(1);
+    expect(mockCollection.bulkWrite).toHaveBeenCalledTimes(2);
+    expect(mockCollection.bulkWrite).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ session })
+    );
+    expect(session.endSession).toHaveBeenCalled();
+  });
+
+  it("should not retry transactions that are too large", async () => {
+    // mongo aborts the transaction
+    const session = {
+      withTransaction: jest.fn(async () => {
+        throw Object.assign(new Error("Transaction is too large"), {
+          codeName: "TransactionTooLarge",
+        });
+      }),
+      endSession: jest.fn(),
+    };
+    (mockClient as unknown as Record<string, unknown>).startSession = jest.fn(
+      () => session
+    );
+
+    const db = new Mongo(
+      mockClient,
+      "testDb",
+      {},
+      false,
+      {},
+      false,
+      undefined,
+      true
+    );
+
+    await expect(
+      db.batch([{ type: "put", key: "exampleRef.id1", value: { id: "id1" } }])
+    ).rejects.toThrow(
+      "Transaction is too large - lower progressInterval (or windowSize) to commit smaller batches"
+    );
+    expect(session.withTransaction).toHaveBeenCalledTimes(1);
+  });
 });
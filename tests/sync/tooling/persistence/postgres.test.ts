@@ -0,0 +1,287 @@
+import type { Pool } from "pg";
+
+import { Postgres } from "@/sync/tooling/persistence/postgres";
+import { NotFound } from "@/sync/tooling/persistence/db";
+
+describe("Postgres", () => {
+  let mockClient: Pool;
+  let mockQuery: jest.Mock;
+
+  beforeEach(() => {
+    // Create a mock client for each test (every query resolves empty unless overridden)
+    mockQuery = jest.fn(() => Promise.resolve({ rows: [] }));
+
+    mockClient = {
+      query: mockQuery,
+    } as unknown as Pool;
+  });
+
+  // get all queries which start with the given statement
+  const queriesFor = (statement: string) =>
+    mockQuery.mock.calls.filter(([query]) =>
+      (query as string).startsWith(statement)
+    );
+
+  it("should create an instance of Postgres", async () => {
+    const db = new Postgres(mockClient, "testDb", {});
+    expect(db).toBeInstanceOf(Postgres);
+  });
+
+  it("should create the schema on connection", async () => {
+    const db = new Postgres(mockClient, "testDb", {});
+
+    await db._db;
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      'CREATE SCHEMA IF NOT EXISTS "testDb"'
+    );
+  });
+
+  it("should update kv data", async () => {
+    const kvData = {
+      exampleRef: {
+        id1: { data: "value1" },
+        id2: { data: "value2" },
+      },
+    };
+    const db = new Postgres(mockClient, "testDb", {});
+
+    await db.update({ kv: kvData });
+
+    expect(db.kv).toEqual(kvData);
+  });
+
+  it("should get a value using the get method", async () => {
+    const db = new Postgres(mockClient, "testDb", {
+      exampleRef: {
+        id1: { id: "id1" },
+      },
+    });
+
+    // get an entry from cache
+    const value1 = await db.get("exampleRef.id1");
+
+    expect(value1).toStrictEqual({ id: "id1" });
+    expect(queriesFor("SELECT")).toHaveLength(0);
+
+    // get an entry from db
+    mockQuery.mockImplementation((query: string) =>
+      Promise.resolve({
+        rows: query.startsWith("SELECT") ? [{ data: { id: "id2" } }] : [],
+      })
+    );
+    const value2 = await db.get("exampleRef.id2");
+
+    expect(value2).toStrictEqual({ id: "id2" });
+    expect(queriesFor("SELECT")).toEqual([
+      [
+        'SELECT data FROM "testDb"."exampleRef" WHERE id = $1 ORDER BY _block_ts DESC LIMIT 1',
+        ["id2"],
+      ],
+    ]);
+  });
+
+  it("should throw an error if value doesnt exist", async () => {
+    const db = new Postgres(mockClient, "testDb", {});
+
+    await expect(db.get("exampleRef.id1")).rejects.toThrowError(NotFound);
+  });
+
+  it("should put a value using the put method", async () => {
+    const db = new Postgres(mockClient, "testDb", {});
+
+    await db.put("exampleRef.id1", {
+      id: "id1",
+      data: "value1",
+      _block_ts: 1,
+      _block_num: 2,
+      _chain_id: 3,
+    });
+
+    expect(db.kv.exampleRef.id1).toEqual({
+      id: "id1",
+      data: "value1",
+      _block_ts: 1,
+      _block_num: 2,
+      _chain_id: 3,
+    });
+    expect(queriesFor("INSERT")).toEqual([
+      [
+        'INSERT INTO "testDb"."exampleRef" (id, _block_ts, _block_num, _chain_id, data) VALUES ($1, $2, $3, $4, $5) ON CONFLICT (id, _block_num, _chain_id) DO UPDATE SET _block_ts = EXCLUDED._block_ts, data = EXCLUDED.data',
+        [
+          "id1",
+          1,
+          2,
+          3,
+          JSON.stringify({
+            id: "id1",
+            data: "value1",
+            _block_ts: 1,
+            _block_num: 2,
+            _chain_id: 3,
+          }),
+        ],
+      ],
+    ]);
+  });
+
+  it("should upsert on id alone when mutable", async () => {
+    const db = new Postgres(mockClient, "testDb", {}, true);
+
+    await db.put("exampleRef.id1", { id: "id1" });
+
+    expect(queriesFor("CREATE TABLE")[0][0]).toContain("PRIMARY KEY (id)");
+    expect(queriesFor("INSERT")[0][0]).toContain("ON CONFLICT (id) DO UPDATE");
+  });
+
+  it("should prevent put using the put method if engine is in readOnly mode", async () => {
+    const db = new Postgres(mockClient, "testDb", {}, false, {
+      readOnly: true,
+    });
+
+    await db.put("exampleRef.id1", { id: "id1" });
+
+    expect(db.kv.exampleRef.id1).toEqual({ id: "id1" });
+    expect(queriesFor("INSERT")).toHaveLength(0);
+  });
+
+  it("should perform batch operations", async () => {
+    const db = new Postgres(mockClient, "testDb", {});
+
+    await db.batch([
+      {
+        type: "put",
+        key: "exampleRef.id1",
+        value: { id: "id1", data: "value1" },
+      },
+      {
+        type: "put",
+        key: "exampleRef.id2",
+        value: { id: "id2", data: "value2" },
+      },
+      { type: "del", key: "exampleRef.id3" },
+    ]);
+
+    expect(db.kv).toEqual({
+      exampleRef: {
+        id1: { id: "id1", data: "value1" },
+        id2: { id: "id2", data: "value2" },
+      },
+    });
+    expect(queriesFor("INSERT")).toEqual([
+      [
+        expect.stringContaining("VALUES ($1, $2, $3, $4, $5), ($6, $7, $8, $9, $10)"),
+        [
+          "id1",
+          -1,
+          -1,
+          -1,
+          JSON.stringify({ id: "id1", data: "value1" }),
+          "id2",
+          -1,
+          -1,
+          -1,
+          JSON.stringify({ id: "id2", data: "value2" }),
+        ],
+      ],
+    ]);
+    expect(queriesFor("DELETE")).toEqual([
+      [expect.stringContaining("WHERE id = ANY($1)"), [["id3"]]],
+    ]);
+  });
+
+  it("should rollback entries written after the given block", async () => {
+    const db = new Postgres(mockClient, "testDb", {
+      exampleRef: {
+        id1: { id: "id1", _block_num: 11 },
+        id2: { id: "id2", _block_num: 12 },
+      },
+    });
+
+    // id1 was updated in the orphaned block and id2 was created in it
+    mockQuery.mockImplementation((query: string) => {
+      if (query.includes("information_schema")) {
+        return Promise.resolve({
+          rows: [{ table_name: "exampleRef" }, { table_name: "__meta__" }],
+        });
+      }
+      if (query.startsWith("DELETE")) {
+        return Promise.resolve({ rows: [{ id: "id1" }, { id: "id2" }] });
+      }
+      if (query.startsWith("SELECT DISTINCT")) {
+        return Promise.resolve({
+          rows: [{ id: "id1", data: { id: "id1", _block_num: 9 } }],
+        });
+      }
+      return Promise.resolve({ rows: [] });
+    });
+
+    const rolledBack = await db.rollback(1, 10);
+
+    expect(rolledBack).toBe(true);
+    expect(queriesFor("DELETE")).toEqual([
+      [
+        'DELETE FROM "testDb"."exampleRef" WHERE _chain_id = $1 AND _block_num > $2 RETURNING id',
+        [1, 10],
+      ],
+    ]);
+    expect(db.kv).toEqual({
+      exampleRef: {
+        id1: { id: "id1", _block_num: 9 },
+      },
+    });
+  });
+
+  it("should only read the matching entries when querying", async () => {
+    mockQuery.mockImplementation((query: string) =>
+      Promise.resolve({
+        rows: query.startsWith("SELECT") ? [{ data: { id: "id1" } }] : [],
+      })
+    );
+
+    const db = new Postgres(mockClient, "testDb", {});
+    const result = await db.query("exampleRef", {
+      where: { pool: "a", amount: ["10", 20] },
+      orderBy: "amount",
+      orderDirection: "desc",
+      first: 10,
+      skip: 5,
+    });
+
+    expect(result).toEqual([{ id: "id1" }]);
+    // the latest entry for each id is filtered, sorted and paginated in the statement
+    expect(queriesFor("SELECT")).toEqual([
+      [
+        `SELECT data FROM (SELECT DISTINCT ON (id) data FROM "testDb"."exampleRef" ORDER BY id, _block_ts DESC) latest WHERE (data->>$1 = ANY($2::text[])) AND (data->>$3 = ANY($4::text[])) ORDER BY (CASE WHEN data->>$5 ~ '^-?[0-9]+([.][0-9]+)?$' THEN (data->>$5)::numeric END) DESC, (data->>$5) COLLATE "C" DESC, (CASE WHEN data->>$6 ~ '^-?[0-9]+([.][0-9]+)?$' THEN (data->>$6)::numeric END) DESC, (data->>$6) COLLATE "C" DESC LIMIT $7 OFFSET $8`,
+        ["pool", ["a"], "amount", ["10", "20"], "amount", "id", 10, 5],
+      ],
+    ]);
+  });
+
+  it("should write every table inside a single transaction", async () => {
+    // transactions run on a connection checked out of the pool
+    const connQuery = jest.fn((_query: string) =>
+      Promise.resolve({ rows: [] })
+    );
+    const release = jest.fn();
+    const pool = {
+      totalCount: 0,
+      query: mockQuery,
+      connect: jest.fn(() => Promise.resolve({ query: connQuery, release })),
+    } as unknown as Pool;
+
+    const db = new Postgres(pool, "testDb", {}, false, {}, true);
+
+    await db.batch([
+      { type: "put", key: "exampleRef.id1", value: { id: "id1" } },
+      { type: "put", key: "__meta__.1", value: { id: "1", latestBlock: 1 } },
+    ]);
+
+    // the tables are created on the pool and the writes are made on the connection
+    expect(queriesFor("INSERT")).toHaveLength(0);
+    expect(
+      connQuery.mock.calls.map(([query]) => query.split(" ")[0])
+    ).toEqual(["BEGIN", "INSERT", "INSERT", "COMMIT"]);
+    expect(release).toHaveBeenCalled();
+  });
+});
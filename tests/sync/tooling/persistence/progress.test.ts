@@ -0,0 +1,99 @@
+import { DB } from "@/sync/tooling/persistence/db";
+import { Stage } from "@/sync/tooling/persistence/stage";
+import { getEngine } from "@/sync/tooling/persistence/store";
+import {
+  clearSyncProgress,
+  getSyncProgress,
+  saveSyncProgress,
+  toProgressEvent,
+} from "@/sync/tooling/persistence/progress";
+import { Engine, SyncEvent } from "@/sync/types";
+
+describe("Progress", () => {
+  let engine: Engine;
+
+  beforeEach(async () => {
+    // fetch the engine so that we can replace it each run
+    engine = await getEngine();
+
+    // set the engine
+    engine.db = new DB({});
+    // wrap the db in a checkpoint staging db
+    engine.stage = new Stage(engine.db);
+    // place the engine against the db for access by ref
+    engine.db.engine = engine as { newDb: boolean };
+    // chain 1 has synced to block 100 and chain 10 is new
+    engine.latestEntity = {
+      1: { latestBlock: 100 },
+      10: {},
+    } as unknown as Engine["latestEntity"];
+    engine.progress = undefined;
+  });
+
+  it("should start fresh progress from the chains pointers", async () => {
+    expect(await getSyncProgress()).toEqual({
+      id: "progress",
+      pointers: { 1: 100, 10: null },
+      toBlocks: {},
+      fetched: {},
+      processed: 0,
+    });
+  });
+
+  it("should resume the recorded progress while the pointers haven't moved", async () => {
+    engine.progress = {
+      ...(await getSyncProgress()),
+      toBlocks: { 1: 200 },
+      processed: 5,
+    };
+    await saveSyncProgress();
+
+    expect(await getSyncProgress()).toMatchObject({
+      toBlocks: { 1: 200 },
+      processed: 5,
+    });
+
+    // once the chain moves the progress is stale
+    engine.latestEntity = {
+      1: { latestBlock: 150 },
+      10: {},
+    } as unknown as Engine["latestEntity"];
+
+    expect(await getSyncProgress()).toMatchObject({
+      pointers: { 1: 150, 10: null },
+      toBlocks: {},
+      processed: 0,
+    });
+  });
+
+  it("should clear the progress once the catchup completes", async () => {
+    engine.progress = { ...(await getSyncProgress()), processed: 5 };
+    await saveSyncProgress();
+    await clearSyncProgress();
+
+    // we stop tracking
+    expect(engine.progress).toBeUndefined();
+    // and the next run starts fresh
+    expect(await getSyncProgress()).toMatchObject({ processed: 0 });
+  });
+
+  it("should key the events by their position in the chain", () => {
+    expect(
+      toProgressEvent({
+        type: "Transfer",
+        chainId: 1,
+        blockNumber: 10,
+        logIndex: 2,
+        data: { transactionHash: "0x01" },
+      } as unknown as SyncEvent)
+    ).toEqual("1-Transfer-10-0x01-2");
+    expect(
+      toProgressEvent({
+        type: "onBlock",
+        chainId: 1,
+        blockNumber: 10,
+        data: 10,
+      } as unknown as SyncEvent)
+    ).toEqual("1-onBlock-10--");
+  });
+});
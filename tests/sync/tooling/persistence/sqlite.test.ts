@@ -0,0 +1,258 @@
+import Database from "better-sqlite3";
+
+import { SQLite } from "@/sync/tooling/persistence/sqlite";
+import { NotFound } from "@/sync/tooling/persistence/db";
+import { queryEntries } from "@/sync/tooling/persistence/query";
+import { memoryResolver } from "@/graphql/resolvers";
+
+describe("SQLite", () => {
+  let client: Database.Database;
+
+  beforeEach(() => {
+    // Use a fresh in-memory db for each test
+    client = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  // count the rows held for the given ref
+  const countRows = (ref: string) =>
+    (
+      client
+        .prepare("SELECT COUNT(*) AS count FROM entities WHERE ref = ?")
+        .get(ref) as { count: number }
+    ).count;
+
+  it("should create an instance of SQLite", async () => {
+    const db = await SQLite.create({ client, name: "testDb", kv: {} });
+    expect(db).toBeInstanceOf(SQLite);
+  });
+
+  it("should get a value from the cache or from the db", async () => {
+    const db = await SQLite.create({
+      client,
+      name: "testDb",
+      kv: { exampleRef: { id1: { id: "id1" } } },
+    });
+
+    // get an entry from cache
+    expect(await db.get("exampleRef.id1")).toStrictEqual({ id: "id1" });
+
+    // get an entry from db through a fresh instance
+    await db.put("exampleRef.id2", { id: "id2", data: "value2" });
+    const fresh = await SQLite.create({ client, name: "testDb", kv: {} });
+
+    expect(await fresh.get("exampleRef.id2")).toStrictEqual({
+      id: "id2",
+      data: "value2",
+    });
+    await expect(fresh.get("exampleRef.id3")).rejects.toThrowError(NotFound);
+  });
+
+  it("should retain history rows when immutable", async () => {
+    const db = await SQLite.create({ client, name: "testDb", kv: {} });
+
+    await db.put("exampleRef.id1", {
+      id: "id1",
+      v: 1,
+      _block_ts: 1,
+      _block_num: 1,
+    });
+    await db.put("exampleRef.id1", {
+      id: "id1",
+      v: 2,
+      _block_ts: 2,
+      _block_num: 2,
+    });
+
+    const fresh = await SQLite.create({ client, name: "testDb", kv: {} });
+
+    expect(countRows("exampleRef")).toBe(2);
+    expect(await fresh.get("exampleRef")).toEqual([
+      { id: "id1", v: 2, _block_ts: 2, _block_num: 2 },
+    ]);
+  });
+
+  it("should replace the entry on id alone when mutable", async () => {
+    const db = await SQLite.create({
+      client,
+      name: "testDb",
+      kv: {},
+      mutable: true,
+    });
+
+    await db.put("exampleRef.id1", { id: "id1", v: 1, _block_num: 1 });
+    await db.put("exampleRef.id1", { id: "id1", v: 2, _block_num: 2 });
+
+    expect(countRows("exampleRef")).toBe(1);
+  });
+
+  it("should prevent writes if engine is in readOnly mode", async () => {
+    const db = await SQLite.create({
+      client,
+      name: "testDb",
+      kv: {},
+      engine: { readOnly: true },
+    });
+
+    await db.put("exampleRef.id1", { id: "id1" });
+
+    expect(db.kv.exampleRef.id1).toEqual({ id: "id1" });
+    expect(countRows("exampleRef")).toBe(0);
+  });
+
+  it("should perform batch operations", async () => {
+    const db = await SQLite.create({ client, name: "testDb", kv: {} });
+
+    await db.put("exampleRef.id3", { id: "id3" });
+    await db.batch([
+      { type: "put", key: "exampleRef.id1", value: { id: "id1" } },
+      { type: "put", key: "exampleRef.id2", value: { id: "id2" } },
+      { type: "del", key: "exampleRef.id3" },
+    ]);
+
+    expect(db.kv).toEqual({
+      exampleRef: { id1: { id: "id1" }, id2: { id: "id2" } },
+    });
+    expect(countRows("exampleRef")).toBe(2);
+  });
+
+  it("should rollback entries written after the given block", async () => {
+    const db = await SQLite.create({ client, name: "testDb", kv: {} });
+
+    // id1 was updated in the orphaned block and id2 was created in it
+    await db.batch([
+      {
+        type: "put",
+        key: "exampleRef.id1",
+        value: { id: "id1", _block_ts: 9, _block_num: 9, _chain_id: 1 },
+      },
+      {
+        type: "put",
+        key: "exampleRef.id1",
+        value: { id: "id1", _block_ts: 11, _block_num: 11, _chain_id: 1 },
+      },
+      {
+        type: "put",
+        key: "exampleRef.id2",
+        value: { id: "id2", _block_ts: 12, _block_num: 12, _chain_id: 1 },
+      },
+    ]);
+
+    expect(await db.rollback(1, 10)).toBe(true);
+    expect(countRows("exampleRef")).toBe(1);
+    expect(db.kv).toEqual({
+      exampleRef: {
+        id1: { id: "id1", _block_ts: 9, _block_num: 9, _chain_id: 1 },
+      },
+    });
+  });
+
+  it("should only read the matching entries when querying", async () => {
+    const db = await SQLite.create({ client, name: "testDb", kv: {} });
+    const read = jest.spyOn(db, "get");
+
+    await db.batch([
+      {
+        type: "put",
+        key: "exampleRef.id1",
+        value: { id: "id1", pool: "a", amount: "20", _block_ts: 1 },
+      },
+      {
+        type: "put",
+        key: "exampleRef.id2",
+        value: { id: "id2", pool: "a", amount: "3", _block_ts: 1 },
+      },
+      {
+        type: "put",
+        key: "exampleRef.id3",
+        value: { id: "id3", pool: "b", amount: "1", _block_ts: 1 },
+      },
+    ]);
+    // id3 has moved into pool "a" (only its latest entry is matched)
+    await db.put("exampleRef.id3", {
+      id: "id3",
+      pool: "a",
+      amount: "100",
+      _block_ts: 2,
+    });
+
+    const result = await db.query("exampleRef", {
+      where: { pool: "a", amount: ["20", 3, "100"] },
+      orderBy: "amount",
+      orderDirection: "desc",
+      first: 2,
+      skip: 1,
+    });
+
+    // the page is read from the file without loading the ref
+    expect(read).not.toHaveBeenCalled();
+    expect(result.map(({ id }) => id)).toEqual(["id1", "id2"]);
+  });
+
+  it("should sort the entries in the same order as queryEntries", async () => {
+    const db = await SQLite.create({ client, name: "testDb", kv: {} });
+    // numbers beyond a js number, negatives, decimals, padded values, text and missing values
+    const values = [
+      "115792089237316195423570985008687907853269984665640564039457584007913129639935",
+      "115792089237316195423570985008687907853269984665640564039457584007913129639934",
+      "-12",
+      "-3",
+      "-3.50",
+      "-0",
+      "0",
+      "0.5",
+      "007",
+      "7.0",
+      "7",
+      10,
+      "1e3",
+      "0x1f",
+      "abc",
+      "Abc",
+      "a10",
+      "a2",
+      "",
+      null,
+      undefined,
+      true,
+    ].map((value, index) => ({ id: `id${index}`, value }));
+
+    await db.batch(
+      values.map((value) => ({
+        type: "put",
+        key: `exampleRef.${value.id}`,
+        value,
+      }))
+    );
+
+    await Promise.all(
+      (["asc", "desc"] as const).map(async (orderDirection) => {
+        const options = { orderBy: "value" as const, orderDirection };
+
+        expect(
+          (await db.query("exampleRef", options)).map(({ id }) => id)
+        ).toEqual(queryEntries(values, options).map(({ id }) => id));
+      })
+    );
+  });
+
+  it("should expose the entities to the memoryResolver", async () => {
+    const db = await SQLite.create({ client, name: "testDb", kv: {} });
+
+    await db.put("exampleRef.id1", { id: "id1" });
+
+    const entities = await memoryResolver({ name: "testDb", db });
+
+    // the proxy resolves a getter for every entity
+    const getExampleRef =
+      (await entities.ExampleRef) as unknown as () => Promise<unknown>;
+    const getMissing =
+      (await entities.Missing) as unknown as () => Promise<unknown>;
+
+    expect(await getExampleRef()).toEqual([{ id: "id1" }]);
+    expect(await getMissing()).toEqual([]);
+  });
+});
@@ -45,6 +45,111 @@ describe("Store", () => {
     // Assert DB.set was called with the entity
     expect(db.put).toBeCalledWith("test.id", { id: "id", val: "test" });
   });
+
+  it("should find entities merged with staged changes", async () => {
+    // committed entities
+    db.kv = {
+      position: {
+        "1": { id: "1", pool: "a", amount: "10" },
+        "2": { id: "2", pool: "a", amount: "9" },
+        "3": { id: "3", pool: "b", amount: "1" },
+        "4": { id: "4", pool: "a", amount: "5" },
+      },
+    };
+
+    // stage an update, a delete and a new entry
+    const engine = await getEngine();
+    engine.stage.checkpoint();
+    await engine.stage.put("position.2", { id: "2", pool: "a", amount: "100" });
+    await engine.stage.del("position.4");
+    await engine.stage.put("position.5", { id: "5", pool: "a", amount: "20" });
+
+    const positions = await Store.find<{
+      id: string;
+      pool: string;
+      amount: string;
+    }>("Position", {
+      where: { pool: "a" },
+      orderBy: "amount",
+      orderDirection: "desc",
+      first: 2,
+    });
+
+    // amounts are sorted numerically
+    expect(positions.map((position) => position.id)).toEqual(["2", "5"]);
+    expect(positions[0]).toBeInstanceOf(Entity);
+
+    // predicates can be used in place of field matches
+    const small = await Store.find<{ id: string; amount: string }>(
+      "Position",
+      { where: (position) => +position.amount < 15 }
+    );
+    expect(small.map((position) => position.id)).toEqual(["1", "3"]);
+
+    engine.stage.revert();
+  });
+
+  it("should only read the matching page from the db when finding", async () => {
+    // the db returns the matching page
+    const query = jest.spyOn(db, "query").mockResolvedValue([
+      { id: "1", pool: "a", amount: "10" },
+      { id: "2", pool: "a", amount: "9" },
+      { id: "4", pool: "a", amount: "5" },
+    ]);
+
+    // stage an update and a new entry
+    const engine = await getEngine();
+    engine.stage.checkpoint();
+    await engine.stage.put("position.2", { id: "2", pool: "a", amount: "1" });
+    await engine.stage.put("position.5", { id: "5", pool: "a", amount: "20" });
+
+    const positions = await Store.find<{
+      id: string;
+      pool: string;
+      amount: string;
+    }>("Position", {
+      where: { pool: "a" },
+      orderBy: "amount",
+      orderDirection: "desc",
+      first: 2,
+      skip: 1,
+    });
+
+    // we take enough from the db to fill the page after the staged entries are merged in
+    expect(query).toHaveBeenCalledWith("position", {
+      where: { pool: "a" },
+      orderBy: "amount",
+      orderDirection: "desc",
+      first: 5,
+      skip: 0,
+    });
+    expect(positions.map((position) => position.id)).toEqual(["1", "4"]);
+
+    engine.stage.revert();
+  });
+
+  it("should load many entities by id", async () => {
+    db.kv = {
+      position: {
+        "1": { id: "1", amount: "10" },
+      },
+    };
+
+    // stage a new entry
+    const engine = await getEngine();
+    engine.stage.checkpoint();
+    await engine.stage.put("position.2", { id: "2", amount: "20" });
+
+    const positions = await Store.loadMany<{ id: string; amount: string }>(
+      "Position",
+      ["2", "3", "1"]
+    );
+
+    // missing entities are omitted and the order is retained
+    expect(positions.map((position) => position.amount)).toEqual(["20", "10"]);
+
+    engine.stage.revert();
+  });
 });
 
 it("should copy entity with values", async () => {
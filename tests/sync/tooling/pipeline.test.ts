@@ -0,0 +1,204 @@
+import { DB } from "@/sync/tooling/persistence/db";
+import { Stage } from "@/sync/tooling/persistence/stage";
+import { getEngine, Store } from "@/sync/tooling/persistence/store";
+import * as disk from "@/sync/tooling/persistence/disk";
+import * as events from "@/sync/tooling/network/events";
+import * as providers from "@/sync/tooling/network/providers";
+import * as processing from "@/sync/tooling/processing";
+import { processWindows } from "@/sync/tooling/pipeline";
+import { Engine, LatestEntity, Sync, SyncEvent } from "@/sync/types";
+
+// the unwrapped processEvents (so that we can record each window as it's processed)
+const { processEvents } = processing;
+
+describe("Pipeline", () => {
+  let engine: Engine;
+
+  // chain 1 produces a block every 2s and chain 10 every 1s (covering the same time)
+  const timestamps: Record<number, number> = { 1: 2, 10: 1 };
+
+  // the order the events were processed in
+  let order: string[];
+
+  // an event every 5 blocks in the collected window
+  const toEvents = (chainId: number) => {
+    const { fromBlock, toBlock } = engine.window[chainId];
+
+    return Array.from(
+      { length: toBlock - fromBlock + 1 },
+      (_, i) => i + fromBlock
+    )
+      .filter((blockNumber) => blockNumber % 5 === 0)
+      .map(
+        (blockNumber) =>
+          ({
+            type: "migration",
+            chainId,
+            blockNumber,
+            timestamp: blockNumber * timestamps[chainId],
+            data: {},
+            onEvent: async () => {
+              order.push(`${chainId}-${blockNumber}`);
+            },
+          } as unknown as SyncEvent)
+      );
+  };
+
+  beforeEach(async () => {
+    // fetch the engine so that we can replace it each run
+    engine = await getEngine();
+
+    // set the engine
+    engine.db = new DB({});
+    // wrap the db in a checkpoint staging db
+    engine.stage = new Stage(engine.db);
+    // place the engine against the db for access by ref
+    engine.db.engine = engine as { newDb: boolean };
+    engine.flags = { silent: true, collectBlocks: true };
+    engine.promiseQueue = [];
+    engine.progress = undefined;
+    engine.startBlocks = {};
+    engine.windowSize = 10;
+    // sync both chains from genesis
+    engine.syncs = [1, 10].map(
+      (chainId) =>
+        ({ chainId, startBlock: 0, endBlock: "latest" } as unknown as Sync)
+    );
+    // chain 1 is collected to block 30 and chain 10 to block 60 (both reaching 60s)
+    engine.latestBlocks = {
+      1: { number: 31 },
+      10: { number: 61 },
+    } as unknown as Engine["latestBlocks"];
+    // both chains are locked for the catchup
+    engine.latestEntity = {} as LatestEntity;
+    for (const chainId of [1, 10]) {
+      const entity = await Store.get<LatestEntity[number]>(
+        "__meta__",
+        `${chainId}`
+      );
+      entity.set("locked", true);
+      engine.latestEntity[chainId] = await entity.save();
+    }
+    order = [];
+
+    // the two networks we're syncing
+    jest.spyOn(providers, "getNetworks").mockImplementation(async () => ({
+      chainIds: new Set([1, 10]),
+      syncProviders: [1, 10].reduce(
+        (all, chainId) => ({
+          ...all,
+          [chainId]: {
+            network: { name: `${chainId}` },
+            getBlock: async (number: number) => ({
+              number,
+              timestamp: number * timestamps[chainId],
+            }),
+          },
+        }),
+        {}
+      ) as Awaited<ReturnType<typeof providers.getNetworks>>["syncProviders"],
+    }));
+    // collect the events from the window without going to the network
+    jest
+      .spyOn(events, "getNewSyncEvents")
+      .mockImplementation(async (syncs) => ({
+        events: toEvents(syncs[0].chainId),
+      }));
+    jest.spyOn(events, "getNewSyncEventsBlocks").mockResolvedValue(undefined);
+    jest
+      .spyOn(events, "getNewSyncEventsTxReceipts")
+      .mockResolvedValue(undefined);
+    // the blocks are read from the tmp store
+    jest.spyOn(disk, "readJSON").mockImplementation(async (_, key) => ({
+      number: +key.split("-")[1],
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should process the chains in windows merged by timestamp", async () => {
+    // the no. of events held in each window, whether the chains were still locked and if we skipped the db
+    const windows: { size: number; locked: boolean; newDb: boolean }[] = [];
+    jest.spyOn(processing, "processEvents").mockImplementation(async () => {
+      windows.push({
+        size: engine.events.length,
+        locked: !!engine.latestEntity[1].locked,
+        newDb: engine.newDb,
+      });
+
+      return processEvents();
+    });
+
+    const { processed, eventsByChain } = await processWindows(
+      [],
+      undefined,
+      true,
+      false,
+      true,
+      false,
+      true
+    );
+
+    // every event was processed in timestamp order (chain 1 first when the timestamps match)
+    expect(processed).toEqual(20);
+    expect(eventsByChain).toEqual({ 1: 7, 10: 13 });
+    expect(order).toEqual(
+      [
+        ...[0, 5, 10, 15, 20, 25, 30].map((block) => [1, block]),
+        ...[0, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60].map((block) => [
+          10,
+          block,
+        ]),
+      ]
+        .sort(
+          ([chainA, blockA], [chainB, blockB]) =>
+            blockA * timestamps[chainA] - blockB * timestamps[chainB] ||
+            chainA - chainB
+        )
+        .map(([chainId, block]) => `${chainId}-${block}`)
+    );
+
+    // we never held more than a few windows of events
+    expect(windows.length).toBeGreaterThan(2);
+    expect(Math.max(...windows.map(({ size }) => size))).toBeLessThan(10);
+    // the chains stay locked until the final window
+    expect(windows.slice(0, -1).every(({ locked }) => locked)).toBe(true);
+    expect(engine.latestEntity[1].locked).toBe(false);
+    // only the first window is processed against a new db
+    expect(windows.map(({ newDb }) => newDb)).toEqual(
+      windows.map((_, index) => index === 0)
+    );
+
+    // the pointers moved to the last event on each chain
+    expect(engine.latestEntity[1].latestBlock).toEqual(30);
+    expect(engine.latestEntity[10].latestBlock).toEqual(60);
+    // and the windows are cleared
+    expect(engine.window).toBeUndefined();
+  });
+
+  it("should move the pointers as each window is committed", async () => {
+    // fail when we reach chain 10s fifth window
+    jest.spyOn(events, "getNewSyncEvents").mockImplementation(async (syncs) => {
+      if (engine.window[syncs[0].chainId].fromBlock > 30) {
+        throw new Error("Request failed");
+      }
+
+      return { events: toEvents(syncs[0].chainId) };
+    });
+
+    await expect(
+      processWindows([], undefined, true, false, true, false, true)
+    ).rejects.toThrow("Request failed");
+
+    // the committed windows are recorded against the pointers so the next run starts after them
+    expect(
+      (await engine.db.get("__meta__.1")) as { latestBlock: number }
+    ).toMatchObject({ latestBlock: 15 });
+    expect(
+      (await engine.db.get("__meta__.10")) as { latestBlock: number }
+    ).toMatchObject({ latestBlock: 35 });
+    expect(engine.window).toBeUndefined();
+  });
+});
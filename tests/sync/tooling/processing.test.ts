@@ -1,3 +1,14 @@
+import { DB } from "@/sync/tooling/persistence/db";
+import { Stage } from "@/sync/tooling/persistence/stage";
+import { getEngine, Store } from "@/sync/tooling/persistence/store";
+import * as disk from "@/sync/tooling/persistence/disk";
+import { toProgressHash } from "@/sync/tooling/persistence/progress";
+import {
+  processEvents,
+  processListenerReorg,
+} from "@/sync/tooling/processing";
+import { Engine, LatestEntity, SyncEvent } from "@/sync/types";
+
 describe("Processing", () => {
   beforeEach(() => {
   });
@@ -8,3 +19,182 @@ describe("Processing", () => {
   it("should process new block enqueued via listener", async () => {
   });
 });
+
+describe("Resumable processing", () => {
+  let engine: Engine;
+
+  // the blocks each event lands in
+  const toEvents = (handler: (block: number) => Promise<void>) =>
+    [1, 2, 3].map(
+      (blockNumber) =>
+        ({
+          type: "migration",
+          chainId: 1,
+          blockNumber,
+          data: {},
+          onEvent: handler,
+        } as unknown as SyncEvent)
+    );
+
+  // record each block we've processed as an entity
+  const record = async (block: number) => {
+    const entity = await Store.get<{ id: string; block: number }>(
+      "Processed",
+      `${block}`
+    );
+    entity.set("block", block);
+    await entity.save();
+  };
+
+  beforeEach(async () => {
+    // fetch the engine so that we can replace it each run
+    engine = await getEngine();
+
+    // set the engine
+    engine.db = new DB({});
+    // wrap the db in a checkpoint staging db
+    engine.stage = new Stage(engine.db);
+    // place the engine against the db for access by ref
+    engine.db.engine = engine as { newDb: boolean };
+    engine.flags = { silent: true };
+    engine.syncs = [];
+    engine.promiseQueue = [];
+    engine.latestEntity = {};
+    engine.newDb = false;
+    // commit after every 2 events
+    engine.progressInterval = 2;
+    engine.progress = {
+      id: "progress",
+      pointers: {},
+      toBlocks: {},
+      fetched: {},
+      processed: 0,
+    };
+    // the blocks are read from the tmp store
+    jest.spyOn(disk, "readJSON").mockImplementation(async (_, key) => ({
+      number: +key.split("-")[1],
+      timestamp: +key.split("-")[1],
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should commit progress and resume after the committed events", async () => {
+    // fail on the third event
+    engine.events = toEvents(async (block) => {
+      if (block === 3) throw new Error("Handler failed");
+      await record(block);
+    });
+
+    await expect(processEvents()).rejects.toThrow("Handler failed");
+
+    // the first two events were committed with the progress
+    expect(await engine.db.get("processed")).toEqual([
+      expect.objectContaining({ block: 1 }),
+      expect.objectContaining({ block: 2 }),
+    ]);
+    expect(await engine.db.get("__meta__.progress")).toMatchObject({
+      processed: 2,
+      hash: toProgressHash(toEvents(record).slice(0, 2)),
+    });
+
+    // the next run resumes from the recorded progress
+    engine.stage = new Stage(engine.db);
+    engine.progress = await engine.db.get("__meta__.progress");
+    const handler = jest.fn(record);
+    engine.events = toEvents(handler);
+
+    expect(await processEvents()).toEqual(3);
+    // only the remaining event is processed
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await engine.db.get("processed")).toEqual([
+      expect.objectContaining({ block: 1 }),
+      expect.objectContaining({ block: 2 }),
+      expect.objectContaining({ block: 3 }),
+    ]);
+    // and the progress is cleared
+    expect(engine.progress).toBeUndefined();
+    expect(await engine.db.get("__meta__.progress")).toMatchObject({
+      processed: 0,
+    });
+  });
+
+  it("should refuse to resume a different set of events", async () => {
+    engine.progress.processed = 2;
+    // the last committed event matches but an earlier event has changed
+    const events = toEvents(record);
+    engine.progress.hash = toProgressHash([
+      { ...events[0], blockNumber: 0 },
+      events[1],
+    ]);
+    engine.events = events;
+
+    await expect(processEvents()).rejects.toThrow(
+      "Unable to resume the interrupted sync"
+    );
+  });
+});
+
+describe("Listener reorgs", () => {
+  let engine: Engine;
+
+  beforeEach(async () => {
+    // fetch the engine so that we can replace it each run
+    engine = await getEngine();
+
+    // set the engine (the kv store doesn't retain history so it can't rollback)
+    engine.db = new DB({});
+    // wrap the db in a checkpoint staging db
+    engine.stage = new Stage(engine.db);
+    // place the engine against the db for access by ref
+    engine.db.engine = engine as { newDb: boolean };
+    engine.flags = { silent: true };
+    engine.promiseQueue = [];
+    engine.startBlocks = { 1: 5 };
+    engine.latestBlocks = {};
+    // the pointer is at block 10
+    const entity = await Store.get<LatestEntity[number]>("__meta__", "1");
+    entity.set("latestBlock", 10);
+    engine.latestEntity = { 1: await entity.save() } as LatestEntity;
+  });
+
+  it("should halt without moving the pointers when the db can't rollback", async () => {
+    await expect(processListenerReorg(1, 8, true)).rejects.toThrow(
+      "Unable to rollback chainId 1 to block 8"
+    );
+
+    // the pointers are left where they were
+    expect(engine.startBlocks[1]).toEqual(5);
+    expect(engine.latestBlocks[1]).toBeUndefined();
+    expect(engine.latestEntity[1].latestBlock).toEqual(10);
+    expect(
+      (await engine.db.get("__meta__.1")) as { latestBlock: number }
+    ).toMatchObject({ latestBlock: 10 });
+  });
+
+  it("should leave a mutable db untouched when the rollback fails", async () => {
+    // the db upserts in place so it can't drop the orphaned entries
+    const db = new DB({ token: { "1": { id: "1", balance: 10 } } });
+    (db as DB & { mutable: boolean }).mutable = true;
+    db.rollback = jest.fn(async () => false);
+    engine.db = db;
+    engine.stage = new Stage(db);
+    db.engine = engine as { newDb: boolean };
+    const batch = jest.spyOn(db, "batch");
+
+    // the orphaned block has staged a write
+    engine.stage.checkpoint();
+    await engine.stage.put("token.1", { id: "1", balance: 20 });
+
+    await expect(processListenerReorg(1, 8, true)).rejects.toThrow(
+      "Unable to rollback chainId 1 to block 8"
+    );
+
+    // nothing was written and the staged changes were discarded
+    expect(batch).not.toHaveBeenCalled();
+    expect(engine.stage.isCheckpoint).toBe(false);
+    expect(db.kv.token["1"]).toEqual({ id: "1", balance: 10 });
+  });
+});
@@ -0,0 +1,192 @@
+import { DB } from "@/sync/tooling/persistence/db";
+import { Stage } from "@/sync/tooling/persistence/stage";
+import { getEngine, Store } from "@/sync/tooling/persistence/store";
+import {
+  restoreSyncOps,
+  updateSyncsOpsMeta,
+} from "@/sync/tooling/persistence/meta";
+import { addFactorySyncs, addTemplateSync } from "@/sync/tooling/templates";
+import { setSyncs } from "@/sync/config";
+import { Engine, SyncConfig } from "@/sync/types";
+
+// factory and pair addresses
+const FACTORY = "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f";
+const PAIR = "0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc";
+
+describe("Templates", () => {
+  let engine: Engine;
+
+  // a factory which creates pairs
+  const config = {
+    name: "test",
+    providers: {
+      1: {
+        rpcUrl: "http://127.0.0.1:1",
+      },
+    },
+    events: {
+      factory: [
+        "event PairCreated(address indexed token0, address indexed token1, address pair, uint)",
+      ],
+      pair: ["event Swap(address indexed sender, uint amount0In)"],
+    },
+    contracts: {
+      factory: {
+        chainId: 1,
+        address: FACTORY,
+        events: "factory",
+        handlers: "factory",
+        startBlock: 10000835,
+        endBlock: "latest",
+        creates: {
+          event: "PairCreated",
+          addressArg: "pair",
+          template: "Pair",
+        },
+      },
+    },
+    templates: {
+      Pair: {
+        events: "pair",
+        traceCalls: true,
+      },
+    },
+  } as SyncConfig;
+
+  // handlers for the pair template (the factory has none of its own)
+  const handlers = {
+    factory: {},
+    Pair: {
+      Swap: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    // fetch the engine so that we can replace it each run
+    engine = await getEngine();
+
+    // set the engine
+    engine.db = new DB({});
+    // wrap the db in a checkpoint staging db
+    engine.stage = new Stage(engine.db);
+    // place the engine against the db for access by ref
+    engine.db.engine = engine as { newDb: boolean };
+    // start with nothing registered
+    engine.opSyncs = {};
+    engine.callbacks = {};
+    engine.eventIfaces = {};
+
+    // register the config
+    await setSyncs(config, handlers, []);
+  });
+
+  it("should register factory events without a handler", () => {
+    const factory = engine.opSyncs[`1-${FACTORY}-PairCreated`];
+
+    expect(factory.creates).toEqual([config.contracts.factory.creates]);
+    expect(engine.callbacks[`1-${FACTORY}-PairCreated`]).toBeDefined();
+  });
+
+  it("should spawn the template for the address in the factory event", async () => {
+    const added = await addFactorySyncs(
+      engine.opSyncs[`1-${FACTORY}-PairCreated`],
+      "PairCreated",
+      { pair: PAIR },
+      10008355
+    );
+
+    expect(added).toHaveLength(1);
+    expect(added[0]).toMatchObject({
+      address: PAIR,
+      eventName: "Swap",
+      handlers: "Pair",
+      startBlock: 10008355,
+      opts: { mode: "runtime" },
+    });
+    expect(engine.callbacks[`1-${PAIR}-Swap`]).toBe(handlers.Pair.Swap);
+    expect(engine.syncs).toContain(added[0]);
+  });
+
+  it("should only spawn each contract once", async () => {
+    const spawn = () =>
+      addTemplateSync({
+        chainId: 1,
+        template: "Pair",
+        address: PAIR,
+        startBlock: 10008355,
+      });
+
+    expect(await spawn()).toHaveLength(1);
+    expect(await spawn()).toHaveLength(0);
+  });
+
+  it("should persist the spawned syncs with the factory declarations", async () => {
+    await addTemplateSync({
+      chainId: 1,
+      template: "Pair",
+      address: PAIR,
+      startBlock: 10008355,
+    });
+
+    const meta = await updateSyncsOpsMeta(
+      await Store.get("__meta__", "syncOps", true),
+      engine.syncs
+    );
+
+    expect(meta.syncOps).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          address: FACTORY,
+          creates: [config.contracts.factory.creates],
+        }),
+        expect.objectContaining({
+          address: PAIR,
+          eventName: "Swap",
+          mode: "runtime",
+        }),
+      ])
+    );
+  });
+
+  it("should restore the spawned syncs with their options", async () => {
+    await addTemplateSync({
+      chainId: 1,
+      template: "Pair",
+      address: PAIR,
+      startBlock: 10008355,
+    });
+    await updateSyncsOpsMeta(
+      await Store.get("__meta__", "syncOps", true),
+      engine.syncs
+    );
+
+    // restart with only the config registered
+    engine.opSyncs = {};
+    const { syncs } = await restoreSyncOps(config, handlers);
+
+    expect(syncs).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          address: PAIR,
+          eventName: "Swap",
+          onEvent: handlers.Pair.Swap,
+          opts: expect.objectContaining({
+            mode: "runtime",
+            traceCalls: true,
+          }),
+        }),
+      ])
+    );
+  });
+
+  it("should throw for unknown templates", async () => {
+    await expect(
+      addTemplateSync({
+        chainId: 1,
+        template: "Missing",
+        address: PAIR,
+        startBlock: 1,
+      })
+    ).rejects.toThrow('Unknown template "Missing"');
+  });
+});
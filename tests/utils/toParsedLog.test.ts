@@ -0,0 +1,41 @@
+import { ethers } from "ethers";
+
+import { toParsedLog } from "@/utils/toParsedLog";
+
+describe("ToParsedLog", () => {
+  // erc20 and erc721 Transfers share a topic0 but not a shape
+  const erc20 = new ethers.utils.Interface([
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+  ]);
+  const erc721 = new ethers.utils.Interface([
+    "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  ]);
+
+  // addresses used in the transfers
+  const from = "0x0000000000000000000000000000000000000001";
+  const to = "0x0000000000000000000000000000000000000002";
+
+  it("should parse a log which matches the event", async () => {
+    const log = erc20.encodeEventLog(erc20.getEvent("Transfer"), [
+      from,
+      to,
+      100,
+    ]);
+
+    const parsed = toParsedLog(erc20, log);
+
+    expect(parsed.name).toEqual("Transfer");
+    expect(parsed.args.to).toEqual(to);
+    expect(parsed.args.value.toNumber()).toEqual(100);
+  });
+
+  it("should return null for a log which shares the topic but not the shape", async () => {
+    const log = erc721.encodeEventLog(erc721.getEvent("Transfer"), [
+      from,
+      to,
+      1,
+    ]);
+
+    expect(toParsedLog(erc20, log)).toBeNull();
+  });
+});